@@ -1,11 +1,11 @@
 import fs from "fs-extra";
 import path from "path";
 import { diffJson } from "diff";
-import { AUDIT_PATH } from "./helper";
+import { getActiveEnvironment } from "./utils/environments";
 
 export interface AuditLogEntry {
   timestamp: string;
-  operation: "import" | "export";
+  operation: "import" | "export" | "rollback";
   manager: string;
   itemType: string;
   status: "success" | "failure";
@@ -16,6 +16,17 @@ export interface AuditLogEntry {
   remoteAfterSnapshot?: string;
 }
 
+/**
+ * Outcome of an audited import, with the snapshots written for it
+ */
+export interface ImportAuditResult {
+  status: "success" | "failure";
+  message?: string;
+  localConfigSnapshot: string;
+  remoteBeforeSnapshot: string;
+  remoteAfterSnapshot?: string;
+}
+
 export interface SnapshotInfo {
   id: string;
   path: string;
@@ -37,10 +48,11 @@ export class AuditManager {
 
   /**
    * Create a new AuditManager.
+   * @param auditPath Audit directory (defaults to the active environment)
    */
-  constructor() {
-    this.auditLogFilePath = path.join(AUDIT_PATH, "audit.ndjson");
-    this.snapshotsBaseDir = path.join(AUDIT_PATH, "snapshots");
+  constructor(auditPath: string = getActiveEnvironment().auditPath) {
+    this.auditLogFilePath = path.join(auditPath, "audit.ndjson");
+    this.snapshotsBaseDir = path.join(auditPath, "snapshots");
 
     // Set retention period from environment variable or default to 30 days
     const retentionDays = process.env.DCT_AUDIT_RETENTION_DAYS;
@@ -174,6 +186,7 @@ export class AuditManager {
   /**
    * Audit an import operation by snapshotting local config, remote state before/after, and logging the operation.
    * Snapshots are stored with a shared timestamp for easy pairing.
+   * @returns The import outcome; failures of doImport are reported here rather than thrown.
    */
   async auditImportOperation(
     itemType: string,
@@ -185,7 +198,7 @@ export class AuditManager {
       message?: string;
     }>,
     dryRun = false
-  ) {
+  ): Promise<ImportAuditResult> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const dir = this.getSnapshotDir(itemType);
     await fs.ensureDir(dir); // Ensure directory exists before writing snapshots
@@ -240,6 +253,13 @@ export class AuditManager {
       remoteBeforeSnapshot,
       remoteAfterSnapshot,
     });
+
+    return {
+      ...importResult,
+      localConfigSnapshot,
+      remoteBeforeSnapshot,
+      remoteAfterSnapshot,
+    };
   }
 
   /**
@@ -1,7 +1,15 @@
 import fs from "fs-extra";
 import path from "path";
-import { CONFIG_PATH } from "./helper";
+import { readRoles } from "@directus/sdk";
+import {
+  callDirectusAPI,
+  createDirectusClient,
+  DirectusConnection,
+  DirectusRestClient,
+} from "./helper";
 import { AuditManager } from "./audit";
+import { getActiveEnvironment } from "./utils/environments";
+import { getIdMapper, IdMapper, mapSpecialRoles } from "./utils/idMap";
 
 /**
  * Configuration for field exclusion patterns
@@ -17,6 +25,20 @@ export interface FieldExclusionConfig {
   immutableFields?: string[];
 }
 
+/**
+ * Options shared by every configuration manager
+ */
+export interface ManagerOptions {
+  /** Directus URL (defaults to the active environment) */
+  apiUrl?: string;
+  /** Static token (defaults to the active environment) */
+  apiToken?: string;
+  /** Directory holding the config files (defaults to the active environment) */
+  configPath?: string;
+  /** Directory holding audit logs and snapshots (defaults to the active environment) */
+  auditPath?: string;
+}
+
 /**
  * Metadata included with every snapshot
  */
@@ -61,12 +83,67 @@ export interface EnhancedSnapshot<T = any> {
   data: T[];
 }
 
+/**
+ * Kind of change an import makes to a single item
+ */
+export type ImportActionType = "create" | "update" | "delete" | "skip";
+
+/**
+ * A single planned (or, for real imports, applied) change to one item
+ */
+export interface ImportAction {
+  action: ImportActionType;
+  /** Kind of item (roles, policies, operations, folders, ...) */
+  itemType: string;
+  /** Item identifier */
+  id: string;
+  /** Human-readable name, when the item has one */
+  name?: string;
+  /** Remote values before the import (changed fields only for updates) */
+  before?: any;
+  /** Values after the import (changed fields only for updates) */
+  after?: any;
+  /** Why the item is skipped */
+  reason?: string;
+}
+
+/**
+ * Machine-readable description of everything an import does
+ */
+export interface ImportPlan {
+  configType: string;
+  dryRun: boolean;
+  actions: ImportAction[];
+  summary: Record<ImportActionType, number>;
+}
+
+/**
+ * Result returned by importConfig
+ */
+export interface ImportResult {
+  status: "success" | "failure";
+  message?: string;
+  /** Missing when the import failed before it could be planned */
+  plan?: ImportPlan;
+}
+
+/**
+ * Normalized items keyed by item type, then by a stable item key.
+ * Used to compare the committed config with the remote for drift detection.
+ */
+export type DriftState = Record<string, Record<string, any>>;
+
 /**
  * Abstract base class for all configuration managers
  * Provides standardized normalization, validation, and audit patterns
  */
 export abstract class BaseConfigManager<T = Record<string, any>> {
   protected auditManager: AuditManager;
+  /** Local ids paired with target ids, shared by all managers of the environment */
+  protected idMapper: IdMapper;
+  protected connection: DirectusConnection;
+  protected client: DirectusRestClient;
+  protected configDir: string;
   protected configPath: string;
   protected fieldConfig: FieldExclusionConfig;
 
@@ -76,8 +153,21 @@ export abstract class BaseConfigManager<T = Record<string, any>> {
   /** Default filename for this configuration type */
   protected abstract readonly defaultFilename: string;
 
-  constructor(fieldConfig: FieldExclusionConfig = {}) {
-    this.auditManager = new AuditManager();
+  constructor(
+    fieldConfig: FieldExclusionConfig = {},
+    options: ManagerOptions = {}
+  ) {
+    const environment = getActiveEnvironment();
+    this.connection = {
+      url: options.apiUrl ?? environment.url,
+      token: options.apiToken ?? environment.token,
+    };
+    this.client = createDirectusClient(this.connection);
+    this.auditManager = new AuditManager(
+      options.auditPath ?? environment.auditPath
+    );
+    this.idMapper = getIdMapper(options.auditPath ?? environment.auditPath);
+    this.configDir = options.configPath ?? environment.configPath;
     this.configPath = ""; // Will be set by subclass
     this.fieldConfig = {
       excludeFields: [],
@@ -88,11 +178,38 @@ export abstract class BaseConfigManager<T = Record<string, any>> {
     };
   }
 
+  /**
+   * REST call against this manager's Directus instance
+   */
+  protected callAPI<R>(
+    endpoint: string,
+    method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+    data?: any
+  ) {
+    return callDirectusAPI<R>(endpoint, method, data, 3, this.connection);
+  }
+
+  /**
+   * Register the pairing of the Public role in roles.json with the target's
+   * Public role, for imports that write role ids
+   */
+  protected async registerSpecialRoles() {
+    const rolesPath = path.join(this.configDir, "roles.json");
+    if (!fs.existsSync(rolesPath)) return;
+    const existingRoles = await this.client.request(readRoles({ limit: -1 }));
+    for (const [localId, targetId] of mapSpecialRoles(
+      fs.readJsonSync(rolesPath),
+      existingRoles
+    )) {
+      this.idMapper.register("roles", localId, targetId);
+    }
+  }
+
   /**
    * Initialize the config path - must be called by subclass constructor
    */
   protected initializeConfigPath() {
-    this.configPath = path.join(CONFIG_PATH, this.defaultFilename);
+    this.configPath = path.join(this.configDir, this.defaultFilename);
   }
 
   /**
@@ -256,8 +373,9 @@ export abstract class BaseConfigManager<T = Record<string, any>> {
 
   /**
    * Load and validate an enhanced snapshot
+   * Made public so snapshots can be restored through the manager
    */
-  protected async loadEnhancedSnapshot(snapshotPath: string): Promise<{
+  public async loadEnhancedSnapshot(snapshotPath: string): Promise<{
     snapshot: EnhancedSnapshot<T> | null;
     validation: { isValid: boolean; issues: string[] };
   }> {
@@ -359,6 +477,45 @@ export abstract class BaseConfigManager<T = Record<string, any>> {
     };
   }
 
+  /**
+   * Read the committed config files, normalized the same way as the remote
+   * state so the two can be compared item by item
+   */
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    const items: T[] = await fs.readJson(this.configPath);
+    return { [this.configType]: this.keyItems(this.normalizeItems(items)) };
+  }
+
+  /**
+   * Fail early when the config type has never been exported
+   */
+  protected assertLocalConfig() {
+    if (!fs.existsSync(this.configPath)) {
+      throw new Error(
+        `No ${this.configType} config found at ${this.configPath}, run an export first`
+      );
+    }
+  }
+
+  /**
+   * Fetch the remote state, normalized the way the export writes it
+   */
+  public async fetchRemoteState(): Promise<DriftState> {
+    const items = this.normalizeItems(await this.fetchRemoteData());
+    return { [this.configType]: this.keyItems(items) };
+  }
+
+  /**
+   * Key items by id, or by a custom key for items without a portable id
+   */
+  protected keyItems<I = T>(
+    items: I[],
+    getKey: (item: I) => string = (item: any) => String(item.id)
+  ): Record<string, I> {
+    return Object.fromEntries(items.map((item) => [getKey(item), item]));
+  }
+
   /**
    * Abstract methods that subclasses must implement
    */
@@ -370,7 +527,5 @@ export abstract class BaseConfigManager<T = Record<string, any>> {
   public abstract exportConfig(): Promise<void>;
 
   /** Import configuration from file */
-  public abstract importConfig(
-    dryRun?: boolean
-  ): Promise<{ status: "success" | "failure"; message?: string }>;
+  public abstract importConfig(dryRun?: boolean): Promise<ImportResult>;
 }
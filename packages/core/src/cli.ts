@@ -5,8 +5,16 @@ import { Command } from "commander";
 import { registerConfigCommands } from "./commands/configCommands";
 import { registerAuditCommands } from "./commands/auditCommands";
 import { registerDebugCommands } from "./commands/debugCommands";
+import { registerDepsCommands } from "./commands/depsCommands";
 import { registerHashPasswordCommand } from "./commands/hashPasswordCommand";
 import { registerUICommand } from "./commands/uiCommand";
+import { registerRestoreCommand } from "./commands/restoreCommand";
+import { registerSyncCommand } from "./commands/syncCommand";
+import { registerPlanCommand } from "./commands/planCommand";
+import { registerDriftCommand } from "./commands/driftCommand";
+import { registerRolesCommands } from "./commands/rolesCommands";
+import { registerLintCommands } from "./commands/lintCommands";
+import { setActiveEnvironment } from "./utils/environments";
 import pkg from "../package.json";
 
 const program = new Command();
@@ -14,13 +22,32 @@ const program = new Command();
 program
   .name("directus-config-toolkit")
   .description("CLI tool for managing Directus configurations")
-  .version(pkg.version);
+  .version(pkg.version)
+  .option(
+    "--env <name>",
+    "Environment profile from dct.config.json or .dctrc (defaults to DCT_ENV or defaultEnv)"
+  )
+  .hook("preAction", () => {
+    try {
+      setActiveEnvironment(program.opts().env);
+    } catch (error: any) {
+      console.error(error.message);
+      process.exit(1);
+    }
+  });
 
 // Register command groups
 registerConfigCommands(program);
 registerAuditCommands(program);
 registerDebugCommands(program);
+registerDepsCommands(program);
 registerHashPasswordCommand(program);
 registerUICommand(program);
+registerRestoreCommand(program);
+registerSyncCommand(program);
+registerPlanCommand(program);
+registerDriftCommand(program);
+registerRolesCommands(program);
+registerLintCommands(program);
 
 program.parse();
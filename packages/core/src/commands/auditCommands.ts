@@ -5,7 +5,9 @@ import * as fs from "fs-extra";
 import * as path from "path";
 
 export function registerAuditCommands(program: Command) {
-  const auditManager = new AuditManager();
+  // Created on first use so it follows the environment selected with --env
+  let auditManager: AuditManager | undefined;
+  const getAuditManager = () => (auditManager ??= new AuditManager());
   const auditCommand = program
     .command("audit")
     .description("Audit and diff configuration snapshots");
@@ -14,7 +16,7 @@ export function registerAuditCommands(program: Command) {
     .command("list <type>")
     .description("List all snapshots for a config type")
     .action(async (type: string) => {
-      const snapshots = await auditManager.getSnapshots(type);
+      const snapshots = await getAuditManager().getSnapshots(type);
       if (snapshots.length === 0) {
         console.log(`No snapshots found for type: ${type}`);
         return;
@@ -31,7 +33,7 @@ export function registerAuditCommands(program: Command) {
       "Show a diff between two snapshots by index (see 'audit list')"
     )
     .action(async (type: string, idx1: string, idx2: string) => {
-      const snapshots = await auditManager.getSnapshots(type);
+      const snapshots = await getAuditManager().getSnapshots(type);
       const i1 = parseInt(idx1, 10) - 1;
       const i2 = parseInt(idx2, 10) - 1;
       if (
@@ -45,7 +47,7 @@ export function registerAuditCommands(program: Command) {
         console.error("Invalid snapshot indices.");
         process.exit(1);
       }
-      const diff = await auditManager.diffSnapshots(
+      const diff = await getAuditManager().diffSnapshots(
         snapshots[i1].path,
         snapshots[i2].path
       );
@@ -60,7 +62,7 @@ export function registerAuditCommands(program: Command) {
     .option("--limit <n>", "Limit to last N diffs", parseInt)
     .option("--start-time <iso>", "Only show diffs after this ISO date/time")
     .action(async (type: string, options) => {
-      await auditManager.printTimeMachineDiff(type, {
+      await getAuditManager().printTimeMachineDiff(type, {
         limit: options.limit,
         startTime: options.startTime,
       });
@@ -72,7 +74,7 @@ export function registerAuditCommands(program: Command) {
       "Show latest import diff for a config type (preview vs actual)"
     )
     .action(async (type: string) => {
-      await auditManager.printImportDiffs(type);
+      await getAuditManager().printImportDiffs(type);
     });
 
   auditCommand
@@ -82,7 +84,7 @@ export function registerAuditCommands(program: Command) {
     )
     .action(async (type: string) => {
       try {
-        const snapshots = await auditManager.getSnapshots(type);
+        const snapshots = await getAuditManager().getSnapshots(type);
 
         if (snapshots.length === 0) {
           console.log(`No snapshots found for type: ${type}`);
@@ -155,6 +157,13 @@ export function registerAuditCommands(program: Command) {
         "operations",
         "schema",
         "settings",
+        "dashboards",
+        "panels",
+        "presets",
+        "translations",
+        "extensions",
+        "users",
+        "data",
       ];
 
       console.log(`🔍 Performing comprehensive integrity check...`);
@@ -163,7 +172,7 @@ export function registerAuditCommands(program: Command) {
       let totalInvalid = 0;
 
       for (const type of configTypes) {
-        const snapshots = await auditManager.getSnapshots(type);
+        const snapshots = await getAuditManager().getSnapshots(type);
 
         if (snapshots.length === 0) {
           console.log(`   ${type}: No snapshots`);
@@ -249,6 +258,30 @@ export function registerAuditCommands(program: Command) {
             const { SchemaManager } = await import("../schema");
             manager = new SchemaManager();
             break;
+          case "dashboards":
+            const { DashboardsManager } = await import("../dashboards");
+            manager = new DashboardsManager();
+            break;
+          case "presets":
+            const { PresetsManager } = await import("../presets");
+            manager = new PresetsManager();
+            break;
+          case "translations":
+            const { TranslationsManager } = await import("../translations");
+            manager = new TranslationsManager();
+            break;
+          case "extensions":
+            const { ExtensionsManager } = await import("../extensions");
+            manager = new ExtensionsManager();
+            break;
+          case "users":
+            const { UsersManager } = await import("../users");
+            manager = new UsersManager();
+            break;
+          case "data":
+            const { DataManager } = await import("../data");
+            manager = new DataManager();
+            break;
           default:
             console.error(`Unsupported config type: ${type}`);
             process.exit(1);
@@ -294,7 +327,19 @@ export function registerAuditCommands(program: Command) {
       "Validate consistency between export and audit operations for all config types"
     )
     .action(async () => {
-      const configTypes = ["flows", "roles", "settings", "files", "schema"];
+      const configTypes = [
+        "flows",
+        "roles",
+        "settings",
+        "files",
+        "schema",
+        "dashboards",
+        "presets",
+        "translations",
+        "extensions",
+        "users",
+        "data",
+      ];
       let allConsistent = true;
 
       console.log(
@@ -328,6 +373,30 @@ export function registerAuditCommands(program: Command) {
               const { SchemaManager } = await import("../schema");
               manager = new SchemaManager();
               break;
+            case "dashboards":
+              const { DashboardsManager } = await import("../dashboards");
+              manager = new DashboardsManager();
+              break;
+            case "presets":
+              const { PresetsManager } = await import("../presets");
+              manager = new PresetsManager();
+              break;
+            case "translations":
+              const { TranslationsManager } = await import("../translations");
+              manager = new TranslationsManager();
+              break;
+            case "extensions":
+              const { ExtensionsManager } = await import("../extensions");
+              manager = new ExtensionsManager();
+              break;
+            case "users":
+              const { UsersManager } = await import("../users");
+              manager = new UsersManager();
+              break;
+            case "data":
+              const { DataManager } = await import("../data");
+              manager = new DataManager();
+              break;
             default:
               console.log(`   ⚪ ${type}: Unsupported for consistency check`);
               continue;
@@ -2,16 +2,26 @@
 import { Command } from "commander";
 import { ConfigType } from "../types/generic";
 import { printConfig, callDirectusAPI } from "../helper";
-import { managers, BaseManager, validateType } from "../utils/supportedTypes";
+import {
+  createManager,
+  BaseManager,
+  OPT_IN_TYPES,
+  parseTypeList,
+  syncSequence,
+  UPSERT_ONLY_TYPES,
+  validateType,
+} from "../utils/supportedTypes";
 import { addBackupFieldToCollections } from "../utils/addBackupField";
-
-const SYNC_SEQUENCE: ConfigType[] = [
-  "schema",
-  "roles",
-  "files",
-  "settings",
-  "flows",
-];
+import {
+  printReferenceIssues,
+  validateConfigReferences,
+} from "../utils/validateReferences";
+import { rollbackImports } from "../utils/snapshotImport";
+import { withLogsOnStderr } from "../utils/importPlan";
+import { ImportPlan } from "../base-config-manager";
+import { parseCollectionPatterns } from "../utils/schemaFilter";
+import { parseMatchBy } from "../utils/idMap";
+import { getServiceUsersConfig } from "../utils/environments";
 
 export function registerConfigCommands(program: Command) {
   program
@@ -23,9 +33,22 @@ export function registerConfigCommands(program: Command) {
     .command("export")
     .description("Export configuration")
     .argument("<type>", "Type of configuration to export", validateType)
-    .action(async (type: ConfigType) => {
+    .option(
+      "--include-user-presets",
+      "Also export per-user presets and bookmarks (presets only)"
+    )
+    .option(
+      "--collections <patterns>",
+      "Only export these collections, e.g. blog_*,authors (schema only)",
+      parseCollectionPatterns
+    )
+    .option(
+      "--split",
+      "Write schema/meta.json and one schema/collections/<name>.json per collection (schema only)"
+    )
+    .action(async (type: ConfigType, options) => {
       try {
-        const manager = managers[type];
+        const manager = createManager(type);
         const exportMethod =
           manager[
             `export${
@@ -33,7 +56,13 @@ export function registerConfigCommands(program: Command) {
             }` as keyof BaseManager
           ];
         if (typeof exportMethod === "function") {
-          await exportMethod();
+          if (type === "presets") {
+            await (exportMethod as any)(options.includeUserPresets);
+          } else if (type === "schema") {
+            await (exportMethod as any)(options.collections, options.split);
+          } else {
+            await exportMethod();
+          }
         } else {
           throw new Error(`Export not implemented for type: ${type}`);
         }
@@ -49,9 +78,37 @@ export function registerConfigCommands(program: Command) {
     .argument("<type>", "Type of configuration to import", validateType)
     .option("--dry-run", "Preview changes without applying them")
     .option("--force", "Force schema sync, bypassing version and vendor checks (schema only)")
+    .option(
+      "--allow-destructive",
+      "Apply schema changes that delete collections or fields or lose data (schema only)"
+    )
+    .option(
+      "--collections <patterns>",
+      "Only import these collections, e.g. blog_*,authors (schema only)",
+      parseCollectionPatterns
+    )
+    .option(
+      "--prune",
+      "Delete remote files marked for backup that are missing from files.json (files only)"
+    )
+    .option(
+      "--include-user-presets",
+      "Also import per-user presets and bookmarks (presets only)"
+    )
+    .option(
+      "--check",
+      "Fail if extensions used by schema.json or operations.json are missing on the target (extensions only)"
+    )
+    .option(
+      "--match-by <mode>",
+      "Pair roles and policies missing on the target by id or name (roles only)",
+      parseMatchBy,
+      "id"
+    )
+    .option("--json", "Print the import plan as JSON on stdout (logs go to stderr)")
     .action(async (type: ConfigType, options) => {
       try {
-        const manager = managers[type];
+        const manager = createManager(type);
         const importMethod =
           manager[
             `import${
@@ -59,11 +116,37 @@ export function registerConfigCommands(program: Command) {
             }` as keyof BaseManager
           ];
         if (typeof importMethod === "function") {
-          // For schema imports, pass both dryRun and force flags
-          if (type === "schema") {
-            await (importMethod as any)(options.dryRun, options.force);
-          } else {
-            await (importMethod as any)(options.dryRun);
+          const runImport = async (): Promise<any> => {
+            // For schema imports, pass the dryRun, force, allowDestructive and collections flags
+            if (type === "schema") {
+              return (importMethod as any)(
+                options.dryRun,
+                options.force,
+                options.allowDestructive,
+                options.collections
+              );
+            } else if (type === "files") {
+              return (importMethod as any)(options.dryRun, options.prune);
+            } else if (type === "extensions") {
+              return (importMethod as any)(options.dryRun, options.check);
+            } else if (type === "presets") {
+              return (importMethod as any)(
+                options.dryRun,
+                options.includeUserPresets
+              );
+            } else if (type === "roles") {
+              return (importMethod as any)(options.dryRun, options.matchBy);
+            }
+            return (importMethod as any)(options.dryRun);
+          };
+          const result = options.json
+            ? await withLogsOnStderr(runImport)
+            : await runImport();
+          if (result?.status === "failure") {
+            throw new Error(result.message);
+          }
+          if (options.json) {
+            console.log(JSON.stringify(result?.plan ?? null, null, 2));
           }
         } else {
           throw new Error(`Import not implemented for type: ${type}`);
@@ -77,12 +160,24 @@ export function registerConfigCommands(program: Command) {
   program
     .command("export-all")
     .description("Export all configurations in sequence")
-    .action(async () => {
-      console.log("Running sync sequence:", SYNC_SEQUENCE.join(" -> "));
+    .option(
+      "--include-user-presets",
+      "Also export per-user presets and bookmarks (presets only)"
+    )
+    .option(
+      "--include <types>",
+      `Also handle these opt-in types, comma-separated: ${OPT_IN_TYPES.join(
+        ", "
+      )}`,
+      parseTypeList
+    )
+    .action(async (options) => {
+      const sequence = syncSequence(options.include);
+      console.log("Running sync sequence:", sequence.join(" -> "));
       try {
-        for (const type of SYNC_SEQUENCE) {
+        for (const type of sequence) {
           console.log(`Exporting ${type}...`);
-          const manager = managers[type];
+          const manager = createManager(type);
           const exportMethod =
             manager[
               `export${
@@ -90,7 +185,11 @@ export function registerConfigCommands(program: Command) {
               }` as keyof BaseManager
             ];
           if (typeof exportMethod === "function") {
-            await exportMethod();
+            if (type === "presets") {
+              await (exportMethod as any)(options.includeUserPresets);
+            } else {
+              await exportMethod();
+            }
           } else {
             console.warn(
               `Export not implemented for type: ${type}, skipping...`
@@ -109,12 +208,72 @@ export function registerConfigCommands(program: Command) {
     .description("Import all configurations in sequence")
     .option("--continue-on-error", "Continue import sequence if one type fails")
     .option("--force", "Force schema sync, bypassing version and vendor checks")
+    .option(
+      "--allow-destructive",
+      "Apply schema changes that delete collections or fields or lose data"
+    )
+    .option("--skip-validate", "Skip cross-file reference validation")
+    .option(
+      "--check",
+      "Fail if extensions used by schema.json or operations.json are missing on the target (extensions only)"
+    )
+    .option(
+      "--include-user-presets",
+      "Also import per-user presets and bookmarks (presets only)"
+    )
+    .option(
+      "--atomic",
+      "Roll back every type imported in this run if any import fails"
+    )
+    .option(
+      "--include <types>",
+      `Also handle these opt-in types, comma-separated: ${OPT_IN_TYPES.join(
+        ", "
+      )}`,
+      parseTypeList
+    )
     .action(async (options) => {
-      console.log("Running sync sequence:", SYNC_SEQUENCE.join(" -> "));
+      const sequence = syncSequence(options.include);
+      // Without serviceUsers in dct.config.json the users import changes nothing
+      const upsertOnly = sequence.filter(
+        (type) =>
+          UPSERT_ONLY_TYPES.includes(type) &&
+          (type !== "users" || getServiceUsersConfig() !== undefined)
+      );
+      if (options.atomic && upsertOnly.length > 0) {
+        console.error(
+          `--atomic cannot roll back ${upsertOnly.join(
+            ", "
+          )}: their imports only create and update`
+        );
+        process.exit(1);
+      }
+
+      if (!options.skipValidate) {
+        console.log("Validating cross-file references...");
+        try {
+          const issues = validateConfigReferences();
+          printReferenceIssues(issues);
+          if (issues.length > 0) {
+            console.error(
+              "Import-all aborted. Fix the references above or use --skip-validate to import anyway."
+            );
+            process.exit(1);
+          }
+        } catch (error: any) {
+          console.error("Validation failed:", error.message || error);
+          process.exit(1);
+        }
+      }
+
+      console.log("Running sync sequence:", sequence.join(" -> "));
+      const runStartedAt = new Date();
+      const attempted: ConfigType[] = [];
+      const plans: Partial<Record<ConfigType, ImportPlan>> = {};
       const results: Record<string, { success: boolean; error?: any }> = {};
-      for (const type of SYNC_SEQUENCE) {
+      for (const type of sequence) {
         console.log(`Importing ${type}...`);
-        const manager = managers[type];
+        const manager = createManager(type);
         const importMethod =
           manager[
             `import${
@@ -122,12 +281,29 @@ export function registerConfigCommands(program: Command) {
             }` as keyof BaseManager
           ];
         if (typeof importMethod === "function") {
+          attempted.push(type);
           try {
-            // For schema imports, pass the force flag
+            let result: any;
+            // For schema imports, pass the force and allowDestructive flags
             if (type === "schema") {
-              await (importMethod as any)(false, options.force);
+              result = await (importMethod as any)(
+                false,
+                options.force,
+                options.allowDestructive
+              );
+            } else if (type === "extensions") {
+              result = await (importMethod as any)(false, options.check);
+            } else if (type === "presets") {
+              result = await (importMethod as any)(
+                false,
+                options.includeUserPresets
+              );
             } else {
-              await importMethod();
+              result = await importMethod();
+            }
+            plans[type] = result?.plan;
+            if (result?.status === "failure") {
+              throw new Error(result.message);
             }
             console.log(`✅ Successfully imported ${type}`);
             results[type] = { success: true };
@@ -140,6 +316,22 @@ export function registerConfigCommands(program: Command) {
               success: false,
               error: error.message || JSON.stringify(error),
             };
+            if (options.atomic) {
+              console.error(
+                `Import-all failed. Rolling back ${attempted.join(", ")}...`
+              );
+              const rollback = await rollbackImports(
+                attempted,
+                runStartedAt,
+                plans
+              );
+              if (rollback.some((r) => r.status === "failure")) {
+                console.error(
+                  "Rollback did not complete cleanly. Review the audit log before retrying."
+                );
+              }
+              process.exit(1);
+            }
             if (!options.continueOnError) {
               console.error(
                 "Import-all failed. Use --continue-on-error to continue despite failures."
@@ -171,6 +363,24 @@ export function registerConfigCommands(program: Command) {
       }
     });
 
+  program
+    .command("validate")
+    .description(
+      "Check references between config files without contacting Directus"
+    )
+    .action(() => {
+      try {
+        const issues = validateConfigReferences();
+        printReferenceIssues(issues);
+        if (issues.length > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error("Validation failed:", error);
+        process.exit(1);
+      }
+    });
+
   program
     .command("add-backup-field")
     .description(
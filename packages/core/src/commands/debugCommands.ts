@@ -1,8 +1,9 @@
 // Debug and environment check CLI commands
 import { Command } from "commander";
-import { printConfig, client } from "../helper";
+import { printConfig, createDirectusClient } from "../helper";
 import { readMe } from "@directus/sdk";
 import checkEnvironment from "../utils/checkEnv";
+import { getActiveEnvironment } from "../utils/environments";
 
 export function registerDebugCommands(program: Command) {
   program
@@ -12,10 +13,9 @@ export function registerDebugCommands(program: Command) {
       try {
         printConfig();
         console.log("Performing additional diagnostics...");
+        const environment = getActiveEnvironment();
         try {
-          const response = await fetch(
-            `${process.env.DCT_API_URL}/server/ping`
-          );
+          const response = await fetch(`${environment.url}/server/ping`);
           if (response.ok) {
             console.log("✅ Connection successful");
           } else {
@@ -29,7 +29,7 @@ export function registerDebugCommands(program: Command) {
           return;
         }
         try {
-          await client.request(readMe());
+          await createDirectusClient(environment).request(readMe());
           console.log(
             "✅ Authentication works - successfully retrieved current user"
           );
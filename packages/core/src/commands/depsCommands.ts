@@ -0,0 +1,108 @@
+// Dependency graph CLI commands
+import { Command } from "commander";
+import { getActiveEnvironment } from "../utils/environments";
+import { readSchemaSnapshot } from "../utils/schemaLayout";
+import { FlowsManager } from "../flows";
+
+export function registerDepsCommands(program: Command) {
+  program
+    .command("deps")
+    .description(
+      "Print the dependency graph of a config type and flag dangling references"
+    )
+    .argument("<type>", "Type of configuration to inspect (flows)")
+    .action(async (type: string) => {
+      if (type !== "flows") {
+        console.error(
+          `Dependency graph is not available for type: ${type}. Supported types are: flows`
+        );
+        process.exit(1);
+      }
+
+      try {
+        const flowsManager = new FlowsManager();
+        const { flows, operations } = flowsManager.readLocalConfig();
+
+        // Collections come from the exported schema when it is available
+        const { configPath } = getActiveEnvironment();
+        const schema = readSchemaSnapshot(configPath);
+        let collections: string[] | undefined;
+        if (schema) {
+          collections = (schema.collections ?? []).map(
+            (c: any) => c.collection
+          );
+        } else {
+          console.warn(
+            `⚠️  No schema found in ${configPath}, trigger collections will not be checked`
+          );
+        }
+
+        const dependencies = flowsManager.buildDependencyGraph(
+          flows,
+          operations
+        );
+        const dangling = new Set(
+          flowsManager.findDanglingDependencies(
+            dependencies,
+            flows,
+            operations,
+            collections
+          )
+        );
+
+        const flowNames = new Map(flows.map((f) => [f.id, f.name]));
+        const operationNames = new Map(
+          operations.map((op) => [op.id, op.name || op.key])
+        );
+        const label = (id: string, names: Map<string, string>) =>
+          names.has(id) ? `${names.get(id)} (${id})` : id;
+
+        for (const flow of flows) {
+          console.log(`\n🔀 ${label(flow.id, flowNames)}`);
+
+          const flowOperationIds = new Set(
+            operations.filter((op) => op.flow === flow.id).map((op) => op.id)
+          );
+          const edges = dependencies.filter(
+            (d) =>
+              d.sourceId === flow.id ||
+              (d.type.startsWith("operations->") &&
+                flowOperationIds.has(d.sourceId))
+          );
+
+          if (edges.length === 0) {
+            console.log("   (no dependencies)");
+          }
+
+          for (const edge of edges) {
+            const source = edge.type.startsWith("flows->")
+              ? "flow"
+              : label(edge.sourceId, operationNames);
+            const target =
+              edge.type === "flows->collections"
+                ? edge.targetId
+                : edge.type === "operations->flows"
+                ? label(edge.targetId, flowNames)
+                : label(edge.targetId, operationNames);
+            const marker = dangling.has(edge) ? "❌" : "  ";
+            console.log(
+              `   ${marker} ${source} --${edge.relationship}--> ${target}`
+            );
+          }
+        }
+
+        console.log(`\n📊 Dependency Summary:`);
+        console.log(`   Flows: ${flows.length}`);
+        console.log(`   Operations: ${operations.length}`);
+        console.log(`   Dependencies: ${dependencies.length}`);
+        console.log(`   Dangling references: ${dangling.size}`);
+
+        if (dangling.size > 0) {
+          process.exit(1);
+        }
+      } catch (error: any) {
+        console.error(`Failed to build dependency graph: ${error.message}`);
+        process.exit(1);
+      }
+    });
+}
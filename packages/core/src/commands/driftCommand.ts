@@ -0,0 +1,92 @@
+// Drift CLI command: detect remote changes made outside of the committed config
+import { Command } from "commander";
+import { writeFileSync } from "fs";
+import { ConfigType } from "../types/generic";
+import {
+  DriftReport,
+  detectDrift,
+  formatDriftJUnit,
+  printDriftReport,
+} from "../utils/drift";
+import { withLogsOnStderr } from "../utils/importPlan";
+import {
+  OPT_IN_TYPES,
+  parseTypeList,
+  syncSequence,
+  validateType,
+} from "../utils/supportedTypes";
+
+/** Exit code when the remote differs from the committed config */
+const DRIFT_EXIT_CODE = 2;
+
+async function collectDriftReports(
+  types: ConfigType[]
+): Promise<DriftReport[]> {
+  const reports: DriftReport[] = [];
+  for (const type of types) {
+    console.log(`Checking ${type} for drift...`);
+    reports.push(await detectDrift(type));
+  }
+  return reports;
+}
+
+export function registerDriftCommand(program: Command) {
+  program
+    .command("drift")
+    .description(
+      "Compare the remote with the committed config. Exits 0 when in sync, 2 on drift, 1 on errors"
+    )
+    .argument(
+      "<type>",
+      "Type of configuration to check, or 'all' for every type",
+      (value: string) => (value === "all" ? value : validateType(value))
+    )
+    .option("--json", "Print the drift reports as JSON on stdout")
+    .option("--junit <file>", "Also write the results as a JUnit XML report")
+    .option(
+      "--include <types>",
+      `Also handle these opt-in types, comma-separated: ${OPT_IN_TYPES.join(
+        ", "
+      )}`,
+      parseTypeList
+    )
+    .action(async (type: ConfigType | "all", options) => {
+      const types = type === "all" ? syncSequence(options.include) : [type];
+
+      let reports: DriftReport[];
+      if (options.json) {
+        reports = await withLogsOnStderr(() => collectDriftReports(types));
+        console.log(JSON.stringify(reports, null, 2));
+      } else {
+        reports = await collectDriftReports(types);
+        reports.forEach(printDriftReport);
+      }
+
+      if (options.junit) {
+        try {
+          writeFileSync(options.junit, formatDriftJUnit(reports));
+          console.error(`JUnit report written to ${options.junit}`);
+        } catch (error: any) {
+          console.error(`Failed to write JUnit report: ${error.message}`);
+          process.exit(1);
+        }
+      }
+
+      const errors = reports.filter((r) => r.error).length;
+      const drifted = reports.filter((r) => r.drifted).length;
+      if (!options.json) {
+        console.log(
+          `\nDrift check: ${drifted} of ${reports.length} types drifted${
+            errors ? `, ${errors} failed` : ""
+          }`
+        );
+      }
+
+      if (errors > 0) {
+        process.exit(1);
+      }
+      if (drifted > 0) {
+        process.exit(DRIFT_EXIT_CODE);
+      }
+    });
+}
@@ -0,0 +1,43 @@
+// Lint CLI commands: offline checks of the exported config
+import { Command } from "commander";
+import {
+  hasFindingsAtLeast,
+  lintPermissions,
+  parseLintSeverity,
+  printLintFindings,
+} from "../utils/permissionLint";
+
+export function registerLintCommands(program: Command) {
+  const lint = program
+    .command("lint")
+    .description("Check the exported config without contacting Directus");
+
+  lint
+    .command("permissions")
+    .description(
+      "Cross-check permissions.json with the schema. Exits 1 on findings at or above --fail-on"
+    )
+    .option(
+      "--fail-on <severity>",
+      "Lowest severity that fails the check: error or warning",
+      parseLintSeverity,
+      "error"
+    )
+    .option("--json", "Print the findings as JSON")
+    .action((options) => {
+      try {
+        const findings = lintPermissions();
+        if (options.json) {
+          console.log(JSON.stringify(findings, null, 2));
+        } else {
+          printLintFindings(findings);
+        }
+        if (hasFindingsAtLeast(findings, options.failOn)) {
+          process.exit(1);
+        }
+      } catch (error: any) {
+        console.error("Permission lint failed:", error.message);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,80 @@
+// Plan CLI command: dry-run imports and report what they would change
+import { Command } from "commander";
+import { ImportPlan, ImportResult } from "../base-config-manager";
+import { ConfigType } from "../types/generic";
+import { printImportPlan, withLogsOnStderr } from "../utils/importPlan";
+import {
+  createManager,
+  OPT_IN_TYPES,
+  parseTypeList,
+  syncSequence,
+  validateType,
+} from "../utils/supportedTypes";
+
+/**
+ * Dry-run the import of each type and collect the resulting plans
+ */
+async function collectPlans(
+  types: ConfigType[],
+  force = false
+): Promise<ImportPlan[]> {
+  const plans: ImportPlan[] = [];
+  for (const type of types) {
+    console.log(`Planning ${type}...`);
+    const manager = createManager(type);
+    // Schema imports take the force flag as a second argument
+    const result =
+      type === "schema"
+        ? await manager.importSchema?.(true, force)
+        : await manager.importConfig(true);
+    const { status, message, plan } = result as ImportResult;
+    if (status === "failure" || !plan) {
+      throw new Error(`Failed to plan ${type}: ${message}`);
+    }
+    plans.push(plan);
+  }
+  return plans;
+}
+
+export function registerPlanCommand(program: Command) {
+  program
+    .command("plan")
+    .description(
+      "Show what importing the local configuration would change, without applying it"
+    )
+    .argument(
+      "<type>",
+      "Type of configuration to plan, or 'all' for the full sequence",
+      (value: string) => (value === "all" ? value : validateType(value))
+    )
+    .option("--json", "Print the plans as JSON on stdout (logs go to stderr)")
+    .option(
+      "--force",
+      "Force schema diff, bypassing version and vendor checks (schema only)"
+    )
+    .option(
+      "--include <types>",
+      `Also handle these opt-in types, comma-separated: ${OPT_IN_TYPES.join(
+        ", "
+      )}`,
+      parseTypeList
+    )
+    .action(async (type: ConfigType | "all", options) => {
+      const types = type === "all" ? syncSequence(options.include) : [type];
+      try {
+        if (options.json) {
+          const plans = await withLogsOnStderr(() =>
+            collectPlans(types, options.force)
+          );
+          console.log(JSON.stringify(plans, null, 2));
+          return;
+        }
+
+        const plans = await collectPlans(types, options.force);
+        plans.forEach(printImportPlan);
+      } catch (error: any) {
+        console.error(error.message || error);
+        process.exit(1);
+      }
+    });
+}
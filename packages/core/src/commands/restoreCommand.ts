@@ -0,0 +1,73 @@
+// Restore CLI command: roll an instance back to an audited snapshot
+import { Command } from "commander";
+import { AuditManager } from "../audit";
+import { ConfigType } from "../types/generic";
+import { validateType } from "../utils/supportedTypes";
+import {
+  findSnapshotId,
+  importSnapshotData,
+  loadSnapshotForRestore,
+} from "../utils/snapshotImport";
+
+export function registerRestoreCommand(program: Command) {
+  program
+    .command("restore")
+    .description(
+      "Restore a config type to an audited snapshot (see 'audit list')"
+    )
+    .argument("<type>", "Type of configuration to restore", validateType)
+    .argument("<snapshot>", "Snapshot id or index from 'audit list'")
+    .option("--dry-run", "Show the diff against the current remote only")
+    .option(
+      "--allow-destructive",
+      "Let a schema restore delete collections or fields or lose data"
+    )
+    .action(async (type: ConfigType, snapshot: string, options) => {
+      const auditManager = new AuditManager();
+      try {
+        const snapshotId = (await findSnapshotId(type, snapshot)) ?? snapshot;
+
+        console.log(`Loading snapshot ${snapshotId} for ${type}...`);
+        const data = await loadSnapshotForRestore(type, snapshotId);
+
+        const result = await importSnapshotData(
+          type,
+          data,
+          options.dryRun,
+          options.allowDestructive
+        );
+        if (result.status === "failure") {
+          throw new Error(result.message);
+        }
+
+        if (options.dryRun) {
+          await auditManager.printImportDiffs(type);
+          console.log(
+            `\n[Dry Run] Restore preview complete. Run without --dry-run to restore ${snapshotId}.`
+          );
+          return;
+        }
+
+        await auditManager.log({
+          operation: "rollback",
+          manager: "restore",
+          itemType: type,
+          status: "success",
+          message: `Restored ${type} to ${snapshotId}`,
+        });
+        console.log(`✅ Restored ${type} to ${snapshotId}`);
+      } catch (error: any) {
+        if (!options.dryRun) {
+          await auditManager.log({
+            operation: "rollback",
+            manager: "restore",
+            itemType: type,
+            status: "failure",
+            message: `Restore of ${type} to ${snapshot} failed: ${error.message}`,
+          });
+        }
+        console.error("Restore failed:", error.message || error);
+        process.exit(1);
+      }
+    });
+}
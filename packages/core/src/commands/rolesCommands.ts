@@ -0,0 +1,144 @@
+// Roles CLI commands: overviews of the exported roles and permissions
+import { Command } from "commander";
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getActiveEnvironment } from "../utils/environments";
+import { readSchemaSnapshot } from "../utils/schemaLayout";
+import {
+  findSnapshotId,
+  loadSnapshotForRestore,
+} from "../utils/snapshotImport";
+import {
+  buildPermissionMatrix,
+  diffPermissionMatrices,
+  matrixTable,
+  parseMatrixFormat,
+  renderMatrixTable,
+} from "../utils/permissionMatrix";
+
+interface PermissionConfig {
+  permissions: Record<string, any>[];
+  policies: Record<string, any>[];
+}
+
+const readConfigFile = (configPath: string, filename: string): any[] => {
+  const filePath = join(configPath, filename);
+  if (!existsSync(filePath)) {
+    throw new Error(
+      `${filename} not found in ${configPath}. Run 'dct export roles' first.`
+    );
+  }
+  return JSON.parse(readFileSync(filePath, "utf8"));
+};
+
+/**
+ * Permissions and policies of a roles snapshot (id or index from
+ * 'audit list') or, when there is no such snapshot, of a git ref
+ */
+async function readPermissionsAt(
+  configPath: string,
+  ref: string
+): Promise<PermissionConfig> {
+  const snapshotId = await findSnapshotId("roles", ref);
+  if (snapshotId) {
+    console.error(`Comparing against roles snapshot ${snapshotId}`);
+    const data = await loadSnapshotForRestore("roles", snapshotId);
+    return {
+      permissions: data.permissions ?? [],
+      policies: data.policies ?? [],
+    };
+  }
+
+  // Paths starting with ./ are resolved against the working directory
+  const show = (filename: string) => {
+    try {
+      return JSON.parse(
+        execFileSync("git", ["show", `${ref}:./${filename}`], {
+          cwd: configPath,
+          encoding: "utf8",
+          stdio: ["ignore", "pipe", "pipe"],
+        })
+      );
+    } catch (error: any) {
+      throw new Error(
+        `"${ref}" is neither a roles snapshot nor a git ref with ${filename}: ${
+          error.stderr?.toString().trim() || error.message
+        }`
+      );
+    }
+  };
+  console.error(`Comparing against git ref ${ref}`);
+  return {
+    permissions: show("permissions.json"),
+    policies: show("policies.json"),
+  };
+}
+
+export function registerRolesCommands(program: Command) {
+  const roles = program
+    .command("roles")
+    .description("Inspect the exported roles and permissions");
+
+  roles
+    .command("matrix")
+    .description(
+      "Print a policy × collection × action matrix of the exported permissions"
+    )
+    .option(
+      "--format <format>",
+      "Output format: markdown, csv or html",
+      parseMatrixFormat,
+      "markdown"
+    )
+    .option("--output <file>", "Write the matrix to a file instead of stdout")
+    .option(
+      "--diff <ref>",
+      "Only show cells changed since a git ref or a roles snapshot (id or index from 'audit list')"
+    )
+    .action(async (options) => {
+      try {
+        const { configPath } = getActiveEnvironment();
+        const permissions = readConfigFile(configPath, "permissions.json");
+        const policies = readConfigFile(configPath, "policies.json");
+        const schema = readSchemaSnapshot(configPath);
+        const collections: Record<string, any>[] | undefined = schema
+          ? schema.collections ?? []
+          : undefined;
+
+        const matrix = buildPermissionMatrix(
+          permissions,
+          policies,
+          collections
+        );
+        let table = matrixTable(matrix);
+        if (options.diff) {
+          const before = await readPermissionsAt(configPath, options.diff);
+          // Policies deleted since then only have a name on the old side
+          const diff = diffPermissionMatrices(
+            buildPermissionMatrix(
+              before.permissions,
+              [...policies, ...before.policies],
+              collections
+            ),
+            matrix
+          );
+          if (diff.length === 0) {
+            console.error(`No permission changes since ${options.diff}`);
+          }
+          table = matrixTable(diff);
+        }
+
+        const output = renderMatrixTable(table, options.format);
+        if (options.output) {
+          writeFileSync(options.output, output + "\n");
+          console.error(`Permission matrix written to ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error: any) {
+        console.error("Error rendering permission matrix:", error.message);
+        process.exit(1);
+      }
+    });
+}
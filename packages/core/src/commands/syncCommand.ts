@@ -0,0 +1,100 @@
+// Sync CLI command: copy configuration between two environment profiles
+import { Command } from "commander";
+import { ConfigType } from "../types/generic";
+import { resolveEnvironment } from "../utils/environments";
+import { syncConfigType } from "../utils/environmentSync";
+import {
+  OPT_IN_TYPES,
+  parseTypeList,
+  syncSequence,
+  validateType,
+} from "../utils/supportedTypes";
+
+export function registerSyncCommand(program: Command) {
+  program
+    .command("sync")
+    .description("Sync configuration directly from one environment to another")
+    .argument(
+      "<type>",
+      "Type of configuration to sync, or 'all' for the full sequence",
+      (value: string) => (value === "all" ? value : validateType(value))
+    )
+    .requiredOption("--from <env>", "Source environment profile")
+    .requiredOption("--to <env>", "Target environment profile")
+    .option("--dry-run", "Preview changes on the target without applying them")
+    .option(
+      "--force",
+      "Force schema sync, bypassing version and vendor checks (schema only)"
+    )
+    .option(
+      "--allow-destructive",
+      "Apply schema changes that delete collections or fields or lose data (schema only)"
+    )
+    .option("--continue-on-error", "Continue syncing if one type fails")
+    .option(
+      "--include <types>",
+      `Also handle these opt-in types, comma-separated: ${OPT_IN_TYPES.join(
+        ", "
+      )}`,
+      parseTypeList
+    )
+    .action(async (type: ConfigType | "all", options) => {
+      let source, target;
+      try {
+        source = resolveEnvironment(options.from);
+        target = resolveEnvironment(options.to);
+      } catch (error: any) {
+        console.error(error.message);
+        process.exit(1);
+      }
+      if (source.url === target.url) {
+        console.error(
+          `Source and target both point at ${source.url}, nothing to sync`
+        );
+        process.exit(1);
+      }
+
+      const types = type === "all" ? syncSequence(options.include) : [type];
+      console.log(
+        `Syncing ${types.join(" -> ")} from ${source.name} to ${target.name}${
+          options.dryRun ? " (dry run)" : ""
+        }`
+      );
+
+      let hasFailures = false;
+      for (const syncType of types) {
+        try {
+          const result = await syncConfigType(syncType, source, target, {
+            dryRun: options.dryRun,
+            force: options.force,
+            allowDestructive: options.allowDestructive,
+          });
+          if (result?.status === "failure") {
+            throw new Error(result.message);
+          }
+          console.log(`✅ Synced ${syncType}`);
+        } catch (error: any) {
+          hasFailures = true;
+          console.error(
+            `❌ Failed to sync ${syncType}:`,
+            error.message || JSON.stringify(error)
+          );
+          if (!options.continueOnError) {
+            process.exit(1);
+          }
+        }
+      }
+
+      if (hasFailures) {
+        console.log(
+          "\nSome types failed to sync. Review logs above for details."
+        );
+        process.exit(1);
+      }
+      console.log(
+        options.dryRun
+          ? "\nDry run complete, no changes were made to the target"
+          : "\nSync completed successfully"
+      );
+    });
+}
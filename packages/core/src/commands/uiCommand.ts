@@ -2,7 +2,7 @@ import { Command } from "commander";
 import { exec, spawn } from "child_process";
 import { resolve } from "path";
 import { existsSync } from "fs";
-import { CONFIG_PATH } from "../helper";
+import { getActiveEnvironment } from "../utils/environments";
 
 export function registerUICommand(program: Command) {
   const uiCommand = program
@@ -55,8 +55,8 @@ export function registerUICommand(program: Command) {
         }
 
         // Set up volume mounts for config and audit directories
-        const configPath = CONFIG_PATH;
-        const auditPath = process.env.DCT_AUDIT_PATH ?? "./audit";
+        const environment = getActiveEnvironment();
+        const { configPath, auditPath } = environment;
 
         // Ensure directories exist
         if (!existsSync(configPath)) {
@@ -72,8 +72,8 @@ export function registerUICommand(program: Command) {
         }
 
         // Get environment variables
-        const API_URL = process.env.DCT_API_URL ?? "http://localhost:8055";
-        const TOKEN = process.env.DCT_TOKEN ?? "admin";
+        const API_URL = environment.url;
+        const TOKEN = environment.token;
         const AUTH_SECRET =
           process.env.DCT_UI_AUTH_SECRET ??
           Buffer.from(
@@ -0,0 +1,420 @@
+import {
+  createDashboard,
+  createPanel,
+  deleteDashboards,
+  deletePanels,
+  readDashboards,
+  readPanels,
+  updateDashboard,
+  updatePanel,
+} from "@directus/sdk";
+import { writeFileSync, readFileSync, existsSync } from "fs";
+import { ensureConfigDirs } from "./helper";
+import _ from "lodash";
+import {
+  BaseConfigManager,
+  DependencyInfo,
+  DriftState,
+  FieldExclusionConfig,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import { createImportPlan, describeReconciliation } from "./utils/importPlan";
+import { matchByName } from "./utils/idMap";
+
+interface DirectusDashboard {
+  id: string;
+  name: string;
+  panels?: DirectusPanel[];
+  [key: string]: any;
+}
+
+interface DirectusPanel {
+  id: string;
+  dashboard: string;
+  name: string | null;
+  [key: string]: any;
+}
+
+interface DashboardsImportPlan {
+  dashboards: {
+    create: DirectusDashboard[];
+    update: DirectusDashboard[];
+    delete: DirectusDashboard[];
+  };
+  panels: {
+    create: DirectusPanel[];
+    update: DirectusPanel[];
+    delete: DirectusPanel[];
+  };
+}
+
+// Fields that differ between environments and never take part in comparisons
+const DASHBOARD_IGNORED_FIELDS = ["date_created", "user_created", "panels"];
+const PANEL_IGNORED_FIELDS = ["date_created", "user_created"];
+
+/**
+ * Manager for Insights dashboards (directus_dashboards) and their panels
+ * (directus_panels), exported to dashboards.json and panels.json
+ */
+export class DashboardsManager extends BaseConfigManager<DirectusDashboard> {
+  protected readonly configType = "dashboards";
+  protected readonly defaultFilename = "dashboards.json";
+
+  private panelsPath: string;
+  private snapshotPanels: DirectusPanel[] = [];
+
+  constructor(options: ManagerOptions = {}) {
+    // Dashboards and panels share the same metadata fields, so one
+    // configuration normalizes both
+    const fieldConfig: FieldExclusionConfig = {
+      nullifyFields: ["user_created", "date_created"],
+      emptyRelationFields: ["panels"],
+    };
+
+    super(fieldConfig, options);
+    this.initializeConfigPath();
+    this.panelsPath = this.configPath.replace("dashboards.json", "panels.json");
+  }
+
+  /**
+   * Each panel depends on the dashboard it is placed on. Uses the panels
+   * fetched alongside the dashboards during export, since normalization
+   * empties the panels relation on the dashboards themselves.
+   */
+  protected detectDependencies(): DependencyInfo[] {
+    return this.snapshotPanels.map((panel) => ({
+      type: "panels->dashboards",
+      sourceId: panel.id,
+      targetId: panel.dashboard,
+      relationship: "placed_on",
+    }));
+  }
+
+  protected async fetchRemoteData(): Promise<DirectusDashboard[]> {
+    const dashboards = await this.client.request(readDashboards({ limit: -1 }));
+    return dashboards as DirectusDashboard[];
+  }
+
+  private async fetchRemotePanels(): Promise<DirectusPanel[]> {
+    const panels = await this.client.request(readPanels({ limit: -1 }));
+    return panels as DirectusPanel[];
+  }
+
+  /**
+   * Read dashboards.json and panels.json from the config directory
+   */
+  private readLocalConfig(): {
+    dashboards: DirectusDashboard[];
+    panels: DirectusPanel[];
+  } {
+    return {
+      dashboards: JSON.parse(readFileSync(this.configPath, "utf8")),
+      panels: existsSync(this.panelsPath)
+        ? JSON.parse(readFileSync(this.panelsPath, "utf8"))
+        : [],
+    };
+  }
+
+  /**
+   * Pair local dashboards missing on the target with the target dashboard
+   * of the same name
+   */
+  private pairDashboards(
+    localDashboards: DirectusDashboard[],
+    remoteDashboards: DirectusDashboard[],
+    dryRun: boolean
+  ) {
+    this.idMapper.replace(
+      "dashboards",
+      matchByName(
+        localDashboards,
+        remoteDashboards,
+        this.idMapper.pairs("dashboards"),
+        "dashboards"
+      )
+    );
+    if (!dryRun) {
+      this.idMapper.save();
+    }
+  }
+
+  /**
+   * Point local dashboards and panels at the ids of paired dashboards on
+   * the target
+   */
+  private mapLocalConfig(config: {
+    dashboards: DirectusDashboard[];
+    panels: DirectusPanel[];
+  }) {
+    return {
+      dashboards: config.dashboards.map((dashboard) =>
+        this.idMapper.remap(dashboard, { id: "dashboards" })
+      ),
+      panels: config.panels.map((panel) =>
+        this.idMapper.remap(panel, { dashboard: "dashboards" })
+      ),
+    };
+  }
+
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    const { dashboards, panels } = this.readLocalConfig();
+    return {
+      dashboards: this.keyItems(this.normalizeItems(dashboards)),
+      panels: this.keyItems(this.normalizePanels(panels)),
+    };
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return {
+      dashboards: this.keyItems(
+        this.normalizeItems(await this.fetchRemoteData())
+      ),
+      panels: this.keyItems(
+        this.normalizePanels(await this.fetchRemotePanels())
+      ),
+    };
+  }
+
+  private normalizePanels(panels: DirectusPanel[]): DirectusPanel[] {
+    return panels.map(
+      (panel) => this.normalizeItem(panel as any) as DirectusPanel
+    );
+  }
+
+  public async exportConfig(): Promise<void> {
+    ensureConfigDirs(this.configDir);
+
+    try {
+      const dashboards = await this.fetchRemoteData();
+      const panels = await this.fetchRemotePanels();
+
+      this.snapshotPanels = this.normalizePanels(panels);
+
+      writeFileSync(
+        this.configPath,
+        JSON.stringify(this.normalizeItems(dashboards), null, 2)
+      );
+      writeFileSync(
+        this.panelsPath,
+        JSON.stringify(this.snapshotPanels, null, 2)
+      );
+
+      const snapshotFile = await this.storeEnhancedSnapshot(dashboards);
+      await this.auditManager.storeSnapshot("panels", this.snapshotPanels);
+      await this.auditManager.log({
+        operation: "export",
+        manager: "DashboardsManager",
+        itemType: "dashboards",
+        status: "success",
+        message: `Exported ${dashboards.length} dashboards and ${panels.length} panels`,
+        snapshotFile,
+      });
+
+      console.log(`Dashboards exported to ${this.configPath}`);
+      console.log(`Panels exported to ${this.panelsPath}`);
+    } catch (error: any) {
+      await this.auditManager.log({
+        operation: "export",
+        manager: "DashboardsManager",
+        itemType: "dashboards",
+        status: "failure",
+        message: error.message,
+      });
+      console.error("Error exporting dashboards:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Work out the changes needed to reconcile remote dashboards and panels
+   * with the local configuration, matching items by id
+   */
+  private planReconciliation(
+    localDashboards: DirectusDashboard[],
+    localPanels: DirectusPanel[],
+    remoteDashboards: DirectusDashboard[],
+    remotePanels: DirectusPanel[]
+  ): DashboardsImportPlan {
+    const reconcile = <I extends { id: string }>(
+      localItems: I[],
+      remoteItems: I[],
+      ignoredFields: string[]
+    ) => {
+      const remoteById = new Map(remoteItems.map((item) => [item.id, item]));
+      const localIds = new Set(localItems.map((item) => item.id));
+      return {
+        create: localItems.filter((item) => !remoteById.has(item.id)),
+        update: localItems.filter((item) => {
+          const existing = remoteById.get(item.id);
+          return (
+            !!existing &&
+            !_.isEqual(
+              _.omit(item, ignoredFields),
+              _.omit(existing, ignoredFields)
+            )
+          );
+        }),
+        delete: remoteItems.filter((item) => !localIds.has(item.id)),
+      };
+    };
+
+    return {
+      dashboards: reconcile(
+        localDashboards,
+        remoteDashboards,
+        DASHBOARD_IGNORED_FIELDS
+      ),
+      panels: reconcile(localPanels, remotePanels, PANEL_IGNORED_FIELDS),
+    };
+  }
+
+  private printReconciliationPlan(plan: DashboardsImportPlan, dryRun: boolean) {
+    const prefix = dryRun ? "[Dry Run] " : "";
+    const { dashboards, panels } = plan;
+    console.log(
+      `${prefix}Dashboards: ${dashboards.create.length} to create, ${dashboards.update.length} to update, ${dashboards.delete.length} to delete`
+    );
+    dashboards.create.forEach((d) => console.log(`  + ${d.name} (${d.id})`));
+    dashboards.update.forEach((d) => console.log(`  ~ ${d.name} (${d.id})`));
+    dashboards.delete.forEach((d) => console.log(`  - ${d.name} (${d.id})`));
+    console.log(
+      `${prefix}Panels: ${panels.create.length} to create, ${panels.update.length} to update, ${panels.delete.length} to delete`
+    );
+  }
+
+  /**
+   * Apply a reconciliation plan: dashboards first so that every panel has a
+   * dashboard to live on, then panels, and finally removal of stale
+   * dashboards once their panels are gone
+   */
+  private async applyReconciliation(plan: DashboardsImportPlan) {
+    for (const dashboard of plan.dashboards.create) {
+      console.log(`Creating dashboard: ${dashboard.name} (${dashboard.id})`);
+      await this.client.request(
+        createDashboard(_.omit(dashboard, DASHBOARD_IGNORED_FIELDS) as any)
+      );
+    }
+
+    for (const dashboard of plan.dashboards.update) {
+      console.log(`Updating dashboard: ${dashboard.name} (${dashboard.id})`);
+      await this.client.request(
+        updateDashboard(
+          dashboard.id,
+          _.omit(dashboard, [...DASHBOARD_IGNORED_FIELDS, "id"]) as any
+        )
+      );
+    }
+
+    if (plan.panels.delete.length > 0) {
+      console.log(`Deleting ${plan.panels.delete.length} panels`);
+      await this.client.request(
+        deletePanels(plan.panels.delete.map((p) => p.id))
+      );
+    }
+
+    for (const panel of plan.panels.create) {
+      await this.client.request(
+        createPanel(_.omit(panel, PANEL_IGNORED_FIELDS) as any)
+      );
+    }
+
+    for (const panel of plan.panels.update) {
+      await this.client.request(
+        updatePanel(
+          panel.id,
+          _.omit(panel, [...PANEL_IGNORED_FIELDS, "id"]) as any
+        )
+      );
+    }
+
+    if (plan.dashboards.delete.length > 0) {
+      console.log(`Deleting ${plan.dashboards.delete.length} dashboards`);
+      await this.client.request(
+        deleteDashboards(plan.dashboards.delete.map((d) => d.id))
+      );
+    }
+  }
+
+  /**
+   * Import dashboards and panels, reconciling each item in place by id
+   */
+  public async importConfig(dryRun = false): Promise<ImportResult> {
+    try {
+      // Config directories exported before dashboards were supported
+      if (!existsSync(this.configPath)) {
+        console.log(`No ${this.configPath} found, skipping dashboards`);
+        return {
+          status: "success",
+          message: "No dashboards.json found, nothing to import.",
+          plan: createImportPlan("dashboards", dryRun),
+        };
+      }
+      const localConfig = this.readLocalConfig();
+      const remoteDashboards = await this.fetchRemoteData();
+      this.pairDashboards(localConfig.dashboards, remoteDashboards, dryRun);
+      const { dashboards: localDashboards, panels: localPanels } =
+        this.mapLocalConfig(localConfig);
+      const remotePanels = await this.fetchRemotePanels();
+      const plan = this.planReconciliation(
+        localDashboards,
+        localPanels,
+        remoteDashboards,
+        remotePanels
+      );
+      this.printReconciliationPlan(plan, dryRun);
+
+      const importPlan = createImportPlan("dashboards", dryRun);
+      describeReconciliation(
+        importPlan,
+        "dashboards",
+        localDashboards,
+        remoteDashboards,
+        new Set(plan.dashboards.update.map((d) => d.id)),
+        DASHBOARD_IGNORED_FIELDS
+      );
+      describeReconciliation(
+        importPlan,
+        "panels",
+        localPanels,
+        remotePanels,
+        new Set(plan.panels.update.map((p) => p.id)),
+        PANEL_IGNORED_FIELDS
+      );
+
+      const result = await this.auditManager.auditImportOperation(
+        "dashboards",
+        "DashboardsManager",
+        { dashboards: localDashboards, panels: localPanels },
+        async () => ({
+          dashboards: this.normalizeItems(await this.fetchRemoteData()),
+          panels: this.normalizePanels(await this.fetchRemotePanels()),
+        }),
+        async () => {
+          await this.applyReconciliation(plan);
+          return {
+            status: "success",
+            message: `Reconciled ${localDashboards.length} dashboards and ${localPanels.length} panels`,
+          };
+        },
+        dryRun
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+
+      return {
+        status: "success",
+        message: "Dashboards imported successfully.",
+        plan: importPlan,
+      };
+    } catch (error: any) {
+      return { status: "failure", message: error.message };
+    }
+  }
+
+  // Wrapper methods for backward compatibility with the command system
+  exportDashboards = () => this.exportConfig();
+  importDashboards = (dryRun?: boolean) => this.importConfig(dryRun);
+}
@@ -0,0 +1,614 @@
+import {
+  createItem,
+  readItems,
+  schemaSnapshot,
+  updateItem,
+} from "@directus/sdk";
+import { writeFileSync, readFileSync, existsSync } from "fs";
+import { join } from "path";
+import fs from "fs-extra";
+import _ from "lodash";
+import {
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import { DataCollectionConfig, getDataCollections } from "./utils/environments";
+import {
+  addImportAction,
+  changedValues,
+  createImportPlan,
+  UNCHANGED,
+} from "./utils/importPlan";
+
+type DataRow = Record<string, any>;
+
+/** Rows of every configured collection, keyed by collection name */
+type CollectionRows = Record<string, DataRow[]>;
+
+type PrimaryKey = string | number;
+
+/**
+ * Primary keys of seeded rows on the target by their primary key in the
+ * config files, per collection
+ */
+export type PrimaryKeyMaps = Record<string, Map<string, PrimaryKey>>;
+
+interface DataImportPlan {
+  collection: string;
+  primaryKey: string;
+  /** The target assigns primary keys, so they are left out on create */
+  autoIncrement: boolean;
+  /** Many-to-one fields pointing at seeded collections */
+  relations: Record<string, string>;
+  /** Rows to create, as in the config files */
+  create: DataRow[];
+  /** Rows to update: target primary key, row as in the config files and changed fields */
+  update: { id: PrimaryKey; row: DataRow; fields: string[] }[];
+}
+
+/**
+ * Order collections so that the targets of many-to-one relations in
+ * schema.json are imported before the collections pointing at them.
+ * Cycles and self references cannot be ordered and keep the configured order.
+ */
+export function orderCollectionsByRelations(
+  collections: string[],
+  relations: { collection: string; related_collection: string | null }[]
+): string[] {
+  const configured = new Set(collections);
+  const dependsOn = new Map(
+    collections.map((collection) => [collection, new Set<string>()])
+  );
+  for (const relation of relations) {
+    const { collection, related_collection } = relation;
+    if (
+      related_collection &&
+      related_collection !== collection &&
+      configured.has(collection) &&
+      configured.has(related_collection)
+    ) {
+      dependsOn.get(collection)!.add(related_collection);
+    }
+  }
+
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (collection: string) => {
+    if (ordered.includes(collection) || visiting.has(collection)) return;
+    visiting.add(collection);
+    dependsOn.get(collection)!.forEach(visit);
+    visiting.delete(collection);
+    ordered.push(collection);
+  };
+  collections.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Point the many-to-one fields of a seeded row at the target rows. Values
+ * that are not primary keys of seeded rows are kept as they are.
+ * @param relations Many-to-one fields and the seeded collection they point at
+ * @param seededKeys Primary keys of the rows in the config files, per collection
+ * @returns The rewritten row and the fields pointing at seeded rows whose
+ * target key is not known yet, because they have not been created
+ */
+export function resolveRelations(
+  row: DataRow,
+  relations: Record<string, string>,
+  primaryKeyMaps: PrimaryKeyMaps,
+  seededKeys: Record<string, Set<string>>
+): { row: DataRow; pending: string[] } {
+  const resolved = { ...row };
+  const pending: string[] = [];
+  for (const [field, related] of Object.entries(relations)) {
+    const value = row[field];
+    if (value === null || value === undefined) continue;
+    if (!seededKeys[related]?.has(String(value))) continue;
+    const target = primaryKeyMaps[related]?.get(String(value));
+    if (target === undefined) {
+      pending.push(field);
+    } else {
+      resolved[field] = target;
+    }
+  }
+  return { row: resolved, pending };
+}
+
+/**
+ * Manager for seed data: rows of the content collections listed under
+ * `dataCollections` in dct.config.json, exported to data/<collection>.json.
+ * Rows are matched between environments on the configured natural key and
+ * upserted; rows that only exist on the target are never deleted.
+ */
+export class DataManager extends BaseConfigManager<DataRow> {
+  protected readonly configType = "data";
+  // Directory holding one file per collection
+  protected readonly defaultFilename = "data";
+
+  private collections: DataCollectionConfig[];
+  private schema?: Record<string, any>;
+
+  constructor(options: ManagerOptions = {}) {
+    // Accountability fields reference users of the source environment
+    const fieldConfig: FieldExclusionConfig = {
+      excludeFields: [
+        "user_created",
+        "user_updated",
+        "date_created",
+        "date_updated",
+      ],
+    };
+
+    super(fieldConfig, options);
+    this.initializeConfigPath();
+    this.collections = getDataCollections();
+  }
+
+  /**
+   * Load the schema of the target once. It is read from the API rather than
+   * schema.json, which is missing from the temporary config directories
+   * sync, restore and rollback import data from.
+   */
+  private async loadSchema(): Promise<Record<string, any>> {
+    if (!this.schema) {
+      const schema = (await this.client.request(schemaSnapshot())) as Record<
+        string,
+        any
+      >;
+      const known = new Set(
+        (schema?.collections ?? []).map((c: any) => c.collection)
+      );
+      const missing = this.collections
+        .map((c) => c.collection)
+        .filter((collection) => !known.has(collection));
+      if (missing.length > 0) {
+        throw new Error(
+          `Data collections missing from the target schema: ${missing.join(
+            ", "
+          )}`
+        );
+      }
+      this.schema = schema;
+    }
+    return this.schema;
+  }
+
+  private loadedSchema(): Record<string, any> {
+    if (!this.schema) {
+      throw new Error("Schema not loaded, call loadSchema() first");
+    }
+    return this.schema;
+  }
+
+  private primaryKeyField(collection: string): Record<string, any> | undefined {
+    return this.loadedSchema().fields?.find(
+      (f: any) => f.collection === collection && f.schema?.is_primary_key
+    );
+  }
+
+  /**
+   * Primary key field of a collection according to the schema
+   */
+  private primaryKeyOf(collection: string): string {
+    return this.primaryKeyField(collection)?.field ?? "id";
+  }
+
+  /**
+   * Many-to-one fields of a collection that point at seeded collections,
+   * with the collection they point at
+   */
+  private relationsOf(collection: string): Record<string, string> {
+    const seeded = new Set(this.collections.map((c) => c.collection));
+    return Object.fromEntries(
+      (this.loadedSchema().relations ?? [])
+        .filter(
+          (relation: any) =>
+            relation.collection === collection &&
+            seeded.has(relation.related_collection)
+        )
+        .map((relation: any) => [relation.field, relation.related_collection])
+    );
+  }
+
+  /**
+   * Alias fields of a collection, such as one-to-many fields. They list ids
+   * of the source environment and are left out of exports and imports.
+   */
+  private aliasFieldsOf(collection: string): string[] {
+    return (this.loadedSchema().fields ?? [])
+      .filter((f: any) => f.collection === collection && f.type === "alias")
+      .map((f: any) => f.field);
+  }
+
+  private keyFieldOf(config: DataCollectionConfig): string {
+    return config.key ?? this.primaryKeyOf(config.collection);
+  }
+
+  /**
+   * Configured collections in import order
+   */
+  private orderedCollections(): DataCollectionConfig[] {
+    const order = orderCollectionsByRelations(
+      this.collections.map((c) => c.collection),
+      this.loadedSchema().relations ?? []
+    );
+    return _.sortBy(this.collections, (c) => order.indexOf(c.collection));
+  }
+
+  private collectionPath(collection: string): string {
+    return join(this.configPath, `${collection}.json`);
+  }
+
+  private async fetchCollectionRows(
+    config: DataCollectionConfig
+  ): Promise<DataRow[]> {
+    await this.loadSchema();
+    const fields = config.fields
+      ? _.uniq([
+          ...config.fields,
+          this.keyFieldOf(config),
+          this.primaryKeyOf(config.collection),
+        ])
+      : ["*"];
+    const rows = await this.client.request(
+      readItems(config.collection as any, {
+        filter: config.filter as any,
+        fields: fields as any,
+        limit: -1,
+      })
+    );
+    const aliases = this.aliasFieldsOf(config.collection);
+    return _.sortBy(
+      this.normalizeItems(rows as DataRow[]).map(
+        (row): DataRow => _.omit(row, aliases)
+      ),
+      (row) => String(row[this.keyFieldOf(config)])
+    );
+  }
+
+  private async fetchAllCollections(): Promise<CollectionRows> {
+    const data: CollectionRows = {};
+    for (const config of this.collections) {
+      data[config.collection] = await this.fetchCollectionRows(config);
+    }
+    return data;
+  }
+
+  // All collections as a single object, matching the export snapshot
+  protected async fetchRemoteData(): Promise<DataRow[]> {
+    return [await this.fetchAllCollections()];
+  }
+
+  private readLocalCollections(): CollectionRows {
+    const data: CollectionRows = {};
+    for (const { collection } of this.collections) {
+      const filePath = this.collectionPath(collection);
+      const rows: DataRow[] = existsSync(filePath)
+        ? JSON.parse(readFileSync(filePath, "utf8"))
+        : [];
+      // Exports made before alias fields were left out may still list them
+      const aliases = this.aliasFieldsOf(collection);
+      data[collection] = rows.map((row) => _.omit(row, aliases));
+    }
+    return data;
+  }
+
+  private toDriftState(data: CollectionRows): DriftState {
+    const state: DriftState = {};
+    for (const config of this.collections) {
+      const keyField = this.keyFieldOf(config);
+      state[config.collection] = this.keyItems(
+        data[config.collection] ?? [],
+        (row) => String(row[keyField])
+      );
+    }
+    return state;
+  }
+
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    await this.loadSchema();
+    return this.toDriftState(this.readLocalCollections());
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return this.toDriftState(await this.fetchAllCollections());
+  }
+
+  public async exportConfig(): Promise<void> {
+    if (this.collections.length === 0) {
+      console.log("No dataCollections configured in dct.config.json, skipping");
+      return;
+    }
+    await fs.ensureDir(this.configPath);
+
+    try {
+      const data = await this.fetchAllCollections();
+      for (const [collection, rows] of Object.entries(data)) {
+        writeFileSync(
+          this.collectionPath(collection),
+          JSON.stringify(rows, null, 2)
+        );
+        console.log(
+          `${rows.length} ${collection} rows exported to ${this.collectionPath(
+            collection
+          )}`
+        );
+      }
+
+      // Single object wrapped in an array, like settings and schema
+      const snapshotFile = await this.storeEnhancedSnapshot([data]);
+      await this.auditManager.log({
+        operation: "export",
+        manager: "DataManager",
+        itemType: "data",
+        status: "success",
+        message: `Exported ${
+          Object.values(data).flat().length
+        } rows from ${Object.keys(data).join(", ")}`,
+        snapshotFile,
+      });
+    } catch (error) {
+      console.error("Error exporting data:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pair the primary keys of local rows with those of the remote rows they
+   * match on the natural key
+   */
+  private matchPrimaryKeys(
+    localData: CollectionRows,
+    remoteData: CollectionRows
+  ): PrimaryKeyMaps {
+    const maps: PrimaryKeyMaps = {};
+    for (const config of this.collections) {
+      const keyField = this.keyFieldOf(config);
+      const primaryKey = this.primaryKeyOf(config.collection);
+      const remoteByKey = new Map(
+        (remoteData[config.collection] ?? []).map((row) => [
+          String(row[keyField]),
+          row,
+        ])
+      );
+      maps[config.collection] = new Map();
+      for (const row of localData[config.collection] ?? []) {
+        const existing = remoteByKey.get(String(row[keyField]));
+        if (existing && row[primaryKey] !== undefined) {
+          maps[config.collection].set(
+            String(row[primaryKey]),
+            existing[primaryKey]
+          );
+        }
+      }
+    }
+    return maps;
+  }
+
+  /**
+   * Match local rows to remote rows on the natural key. Matched rows are
+   * updated without touching the remote primary key; relations are
+   * compared after pointing them at the target rows.
+   */
+  private planCollection(
+    config: DataCollectionConfig,
+    localRows: DataRow[],
+    remoteRows: DataRow[],
+    primaryKeyMaps: PrimaryKeyMaps,
+    seededKeys: Record<string, Set<string>>,
+    importPlan: ImportPlan
+  ): DataImportPlan {
+    const keyField = this.keyFieldOf(config);
+    const primaryKey = this.primaryKeyOf(config.collection);
+    const remoteByKey = new Map(
+      remoteRows.map((row) => [String(row[keyField]), row])
+    );
+    const plan: DataImportPlan = {
+      collection: config.collection,
+      primaryKey,
+      // A primary key used as natural key must be kept to match next time
+      autoIncrement:
+        keyField !== primaryKey &&
+        !!this.primaryKeyField(config.collection)?.schema?.has_auto_increment,
+      relations: this.relationsOf(config.collection),
+      create: [],
+      update: [],
+    };
+
+    for (const row of localRows) {
+      const key = String(row[keyField]);
+      const base = { itemType: config.collection, id: key };
+      if (row[keyField] === undefined || row[keyField] === null) {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: `no value for key field ${keyField}`,
+        });
+        continue;
+      }
+
+      const existing = remoteByKey.get(key);
+      if (!existing) {
+        plan.create.push(row);
+        addImportAction(importPlan, { ...base, action: "create", after: row });
+        continue;
+      }
+
+      const { row: resolved } = resolveRelations(
+        row,
+        plan.relations,
+        primaryKeyMaps,
+        seededKeys
+      );
+      const changes =
+        keyField === primaryKey
+          ? changedValues(existing, resolved)
+          : changedValues(
+              _.omit(existing, primaryKey),
+              _.omit(resolved, primaryKey)
+            );
+      if (Object.keys(changes.after).length > 0) {
+        plan.update.push({
+          id: existing[primaryKey],
+          row,
+          fields: Object.keys(changes.after),
+        });
+        addImportAction(importPlan, { ...base, action: "update", ...changes });
+      } else {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: UNCHANGED,
+        });
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Apply the plans in relational order. Rows are created one by one so the
+   * primary key the target assigns can be recorded, and later rows point
+   * at it. Relations to rows created further on (self references, cycles)
+   * are set once every row exists.
+   */
+  private async applyPlans(
+    plans: DataImportPlan[],
+    primaryKeyMaps: PrimaryKeyMaps,
+    seededKeys: Record<string, Set<string>>
+  ) {
+    const deferred: {
+      plan: DataImportPlan;
+      id: PrimaryKey;
+      row: DataRow;
+      fields: string[];
+    }[] = [];
+    const resolve = (plan: DataImportPlan, row: DataRow) =>
+      resolveRelations(row, plan.relations, primaryKeyMaps, seededKeys);
+
+    for (const plan of plans) {
+      if (plan.create.length > 0) {
+        console.log(`Creating ${plan.create.length} ${plan.collection} rows`);
+      }
+      for (const row of plan.create) {
+        const { row: resolved, pending } = resolve(plan, row);
+        const created = (await this.client.request(
+          createItem(
+            plan.collection as any,
+            _.omit(resolved, [
+              ...pending,
+              ...(plan.autoIncrement ? [plan.primaryKey] : []),
+            ]) as any
+          )
+        )) as DataRow;
+        const id = created[plan.primaryKey];
+        primaryKeyMaps[plan.collection].set(String(row[plan.primaryKey]), id);
+        if (pending.length > 0) {
+          deferred.push({ plan, id, row, fields: pending });
+        }
+      }
+
+      for (const { id, row, fields } of plan.update) {
+        console.log(`Updating ${plan.collection} row ${id}`);
+        const { row: resolved, pending } = resolve(plan, row);
+        const changes = _.pick(resolved, _.difference(fields, pending));
+        if (!_.isEmpty(changes)) {
+          await this.client.request(
+            updateItem(plan.collection as any, id, changes as any)
+          );
+        }
+        const later = _.intersection(fields, pending);
+        if (later.length > 0) {
+          deferred.push({ plan, id, row, fields: later });
+        }
+      }
+    }
+
+    for (const { plan, id, row, fields } of deferred) {
+      const { row: resolved } = resolve(plan, row);
+      await this.client.request(
+        updateItem(plan.collection as any, id, _.pick(resolved, fields) as any)
+      );
+    }
+  }
+
+  /**
+   * Upsert seed data collection by collection, in relational order
+   */
+  public async importConfig(dryRun = false): Promise<ImportResult> {
+    try {
+      const importPlan = createImportPlan("data", dryRun);
+      if (this.collections.length === 0) {
+        return {
+          status: "success",
+          message: "No dataCollections configured, nothing to import.",
+          plan: importPlan,
+        };
+      }
+
+      await this.loadSchema();
+      const localData = this.readLocalCollections();
+      const remoteData = await this.fetchAllCollections();
+      const primaryKeyMaps = this.matchPrimaryKeys(localData, remoteData);
+      const seededKeys = _.mapValues(localData, (rows, collection) => {
+        const primaryKey = this.primaryKeyOf(collection);
+        return new Set(rows.map((row) => String(row[primaryKey])));
+      });
+
+      const plans: DataImportPlan[] = [];
+      for (const config of this.orderedCollections()) {
+        const plan = this.planCollection(
+          config,
+          localData[config.collection],
+          remoteData[config.collection],
+          primaryKeyMaps,
+          seededKeys,
+          importPlan
+        );
+        plans.push(plan);
+        console.log(
+          `${dryRun ? "[Dry Run] " : ""}${config.collection}: ${
+            plan.create.length
+          } to create, ${plan.update.length} to update`
+        );
+      }
+
+      const result = await this.auditManager.auditImportOperation(
+        "data",
+        "DataManager",
+        localData,
+        () => this.fetchAllCollections(),
+        async () => {
+          await this.applyPlans(plans, primaryKeyMaps, seededKeys);
+          return {
+            status: "success",
+            message: `Upserted rows in ${plans
+              .map((p) => p.collection)
+              .join(", ")}`,
+          };
+        },
+        dryRun
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+
+      return {
+        status: "success",
+        message: "Data imported successfully.",
+        plan: importPlan,
+      };
+    } catch (error: any) {
+      return { status: "failure", message: error.message };
+    }
+  }
+
+  // Wrapper methods for backward compatibility with the command system
+  exportData = () => this.exportConfig();
+  importData = (dryRun?: boolean) => this.importConfig(dryRun);
+}
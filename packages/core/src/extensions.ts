@@ -0,0 +1,321 @@
+import { writeFileSync, readFileSync, existsSync } from "fs";
+import { join } from "path";
+import _ from "lodash";
+import { ensureConfigDirs } from "./helper";
+import { readSchemaSnapshot } from "./utils/schemaLayout";
+import {
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import {
+  addImportAction,
+  createImportPlan,
+  UNCHANGED,
+} from "./utils/importPlan";
+
+/**
+ * Inventory entry for an installed extension. Bundle entries are listed
+ * individually, with `bundle` naming the bundle that provides them.
+ */
+export interface InstalledExtension {
+  name: string;
+  type: string;
+  version: string | null;
+  enabled: boolean;
+  bundle: string | null;
+}
+
+/**
+ * An operation type, interface or display used by the exported config
+ */
+export interface ExtensionReference {
+  type: "operation" | "interface" | "display";
+  /** Extension id as referenced in the config */
+  id: string;
+  /** Where the reference comes from, e.g. "articles.body" or an operation name */
+  usedBy: string;
+}
+
+/**
+ * A referenced extension that is not usable on the target
+ */
+export interface ExtensionCompatibilityIssue {
+  extension: InstalledExtension;
+  reason: "missing" | "disabled";
+  references: ExtensionReference[];
+}
+
+const extensionKey = (ext: InstalledExtension) =>
+  ext.bundle ? `${ext.bundle}/${ext.name}` : ext.name;
+
+/**
+ * Flatten the /extensions response into inventory entries. The response
+ * shape differs between Directus versions, so names are looked up in both
+ * the top level and the extension schema.
+ */
+function normalizeExtensions(raw: Record<string, any>[]): InstalledExtension[] {
+  const namesById = new Map(
+    raw.map((ext) => [ext.id, ext.name ?? ext.schema?.name ?? ext.id])
+  );
+  const extensions = raw.map((ext) => ({
+    name: ext.name ?? ext.schema?.name ?? ext.meta?.folder ?? ext.id,
+    type: ext.schema?.type ?? ext.type ?? "unknown",
+    version: ext.schema?.version ?? ext.version ?? null,
+    enabled: ext.meta?.enabled ?? ext.enabled ?? true,
+    bundle: ext.bundle ? namesById.get(ext.bundle) ?? ext.bundle : null,
+  }));
+  return _.sortBy(extensions, [(ext) => ext.bundle ?? "", "name"]);
+}
+
+/**
+ * Collect the operation types used in operations.json and the interfaces
+ * and displays used in schema.json
+ */
+export function findExtensionReferences(
+  configDir: string
+): ExtensionReference[] {
+  const references: ExtensionReference[] = [];
+  const readJson = (filename: string) => {
+    const filePath = join(configDir, filename);
+    return existsSync(filePath)
+      ? JSON.parse(readFileSync(filePath, "utf8"))
+      : undefined;
+  };
+
+  const operations: Record<string, any>[] = readJson("operations.json") ?? [];
+  for (const operation of operations) {
+    if (operation.type) {
+      references.push({
+        type: "operation",
+        id: operation.type,
+        usedBy: `operation ${operation.name ?? operation.key ?? operation.id}`,
+      });
+    }
+  }
+
+  const schema = readSchemaSnapshot(configDir);
+  for (const field of schema?.fields ?? []) {
+    for (const type of ["interface", "display"] as const) {
+      if (field.meta?.[type]) {
+        references.push({
+          type,
+          id: field.meta[type],
+          usedBy: `field ${field.collection}.${field.field}`,
+        });
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Find extensions from the local inventory that the config references and
+ * that are missing or disabled on the target. References to core types
+ * never match a local extension and are ignored.
+ */
+export function checkExtensionCompatibility(
+  localExtensions: InstalledExtension[],
+  targetExtensions: InstalledExtension[],
+  references: ExtensionReference[]
+): ExtensionCompatibilityIssue[] {
+  const targetByKey = new Map(
+    targetExtensions.map((ext) => [extensionKey(ext), ext])
+  );
+  const issues: ExtensionCompatibilityIssue[] = [];
+
+  for (const extension of localExtensions) {
+    const used = references.filter(
+      (ref) => ref.id === extension.name && ref.type === extension.type
+    );
+    if (used.length === 0) continue;
+
+    const target = targetByKey.get(extensionKey(extension));
+    if (!target) {
+      issues.push({ extension, reason: "missing", references: used });
+    } else if (!target.enabled) {
+      issues.push({ extension, reason: "disabled", references: used });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Manager for the installed extensions inventory. Extensions cannot be
+ * installed through the API, so importing only compares the inventory with
+ * the target and reports extensions the config depends on.
+ */
+export class ExtensionsManager extends BaseConfigManager<InstalledExtension> {
+  protected readonly configType = "extensions";
+  protected readonly defaultFilename = "extensions.json";
+
+  constructor(options: ManagerOptions = {}) {
+    const fieldConfig: FieldExclusionConfig = {};
+
+    super(fieldConfig, options);
+    this.initializeConfigPath();
+  }
+
+  protected async fetchRemoteData(): Promise<InstalledExtension[]> {
+    const extensions = await this.callAPI<Record<string, any>[]>(
+      "extensions",
+      "GET"
+    );
+    return normalizeExtensions(extensions ?? []);
+  }
+
+  private readLocalExtensions(): InstalledExtension[] {
+    return JSON.parse(readFileSync(this.configPath, "utf8"));
+  }
+
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    return {
+      extensions: this.keyItems(this.readLocalExtensions(), extensionKey),
+    };
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return {
+      extensions: this.keyItems(await this.fetchRemoteData(), extensionKey),
+    };
+  }
+
+  public async exportConfig(): Promise<void> {
+    ensureConfigDirs(this.configDir);
+
+    try {
+      const extensions = await this.fetchRemoteData();
+      writeFileSync(this.configPath, JSON.stringify(extensions, null, 2));
+
+      const snapshotFile = await this.storeEnhancedSnapshot(extensions);
+      await this.auditManager.log({
+        operation: "export",
+        manager: "ExtensionsManager",
+        itemType: "extensions",
+        status: "success",
+        message: `Exported inventory of ${extensions.length} extensions`,
+        snapshotFile,
+      });
+
+      console.log(
+        `${extensions.length} extensions recorded in ${this.configPath}`
+      );
+    } catch (error) {
+      console.error("Error exporting extensions:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Compare the local inventory with the target. Referenced extensions that
+   * are missing or disabled are always reported; with `check` they also
+   * fail the import so later flows and schema imports are not attempted.
+   */
+  public async importConfig(
+    dryRun = false,
+    check = false
+  ): Promise<ImportResult> {
+    try {
+      // Config directories exported before extensions were supported
+      if (!existsSync(this.configPath)) {
+        console.log(`No ${this.configPath} found, skipping extensions`);
+        return {
+          status: "success",
+          message: "No extensions.json found, nothing to check.",
+          plan: createImportPlan("extensions", dryRun),
+        };
+      }
+      const localExtensions = this.readLocalExtensions();
+      const targetExtensions = await this.fetchRemoteData();
+      const targetByKey = new Map(
+        targetExtensions.map((ext) => [extensionKey(ext), ext])
+      );
+
+      // Nothing is ever written, every extension is recorded as a skip
+      const importPlan = createImportPlan("extensions", dryRun);
+      for (const extension of localExtensions) {
+        const target = targetByKey.get(extensionKey(extension));
+        addImportAction(importPlan, {
+          action: "skip",
+          itemType: "extensions",
+          id: extensionKey(extension),
+          name: extension.name,
+          reason: !target
+            ? "not installed on the target"
+            : !target.enabled
+            ? "disabled on the target"
+            : target.version !== extension.version
+            ? `version ${target.version} on the target, ${extension.version} locally`
+            : UNCHANGED,
+        });
+      }
+
+      const issues = checkExtensionCompatibility(
+        localExtensions,
+        targetExtensions,
+        findExtensionReferences(this.configDir)
+      );
+      this.printCompatibilityIssues(issues);
+
+      const failed = check && issues.length > 0;
+      await this.auditManager.log({
+        operation: "import",
+        manager: "ExtensionsManager",
+        itemType: "extensions",
+        status: failed ? "failure" : "success",
+        message:
+          issues.length > 0
+            ? `${issues.length} referenced extensions unavailable on the target`
+            : "All referenced extensions are available on the target",
+      });
+
+      if (failed) {
+        throw new Error(
+          `${issues.length} extensions used by the config are not available on the target`
+        );
+      }
+
+      return {
+        status: "success",
+        message: "Extensions checked successfully.",
+        plan: importPlan,
+      };
+    } catch (error: any) {
+      return { status: "failure", message: error.message };
+    }
+  }
+
+  private printCompatibilityIssues(issues: ExtensionCompatibilityIssue[]) {
+    if (issues.length === 0) {
+      console.log("✅ All extensions referenced by the config are available");
+      return;
+    }
+
+    console.log(
+      `⚠️  ${issues.length} extensions referenced by the config are not available on the target:`
+    );
+    for (const { extension, reason, references } of issues) {
+      console.log(
+        `   - ${extension.type} ${extension.name}${
+          extension.bundle ? ` (bundle ${extension.bundle})` : ""
+        } is ${reason}, used by:`
+      );
+      references
+        .slice(0, 5)
+        .forEach((ref) => console.log(`       ${ref.usedBy}`));
+      if (references.length > 5) {
+        console.log(`       ...and ${references.length - 5} more`);
+      }
+    }
+  }
+
+  // Wrapper methods for backward compatibility with the command system
+  exportExtensions = () => this.exportConfig();
+  importExtensions = (dryRun?: boolean, check?: boolean) =>
+    this.importConfig(dryRun, check);
+}
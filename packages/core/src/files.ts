@@ -1,23 +1,38 @@
 import {
   createFolder,
   deleteFiles,
-  deleteFolders,
+  deleteFolder,
   readFieldsByCollection,
   readFiles,
   readFolders,
+  updateFile,
   updateFolder,
 } from "@directus/sdk";
-import { writeFileSync, readFileSync, createReadStream } from "fs";
+import { writeFileSync, readFileSync, createReadStream, existsSync } from "fs";
 import { join } from "path";
 import {
-  client,
   downloadFile,
   ensureConfigDirs,
+  extractErrorMessage,
   restFileUpload,
 } from "./helper";
 import _ from "lodash";
 import FormData from "form-data";
-import { BaseConfigManager, FieldExclusionConfig } from "./base-config-manager";
+import {
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import {
+  addImportAction,
+  changedValues,
+  createImportPlan,
+  UNCHANGED,
+} from "./utils/importPlan";
+import { matchByKey } from "./utils/idMap";
 
 interface DirectusFile {
   id: string;
@@ -40,6 +55,19 @@ interface DirectusFolder {
   [key: string]: any;
 }
 
+interface FilesImportPlan {
+  folders: {
+    create: DirectusFolder[];
+    update: DirectusFolder[];
+  };
+  files: {
+    upload: DirectusFile[];
+    update: { file: DirectusFile; changes: Partial<DirectusFile> }[];
+    delete: DirectusFile[];
+    missingAssets: DirectusFile[];
+  };
+}
+
 export class FilesManager extends BaseConfigManager<DirectusFile> {
   protected readonly configType = "files";
   protected readonly defaultFilename = "files.json";
@@ -49,14 +77,14 @@ export class FilesManager extends BaseConfigManager<DirectusFile> {
   private immutableFields = ["filename_disk", "filename_download"];
   private backupField: string | null = null;
 
-  constructor() {
+  constructor(options: ManagerOptions = {}) {
     // Files have specific field handling requirements
     const fieldConfig: FieldExclusionConfig = {
       // Immutable fields that should be preserved exactly
       immutableFields: ["filename_disk", "filename_download"],
     };
 
-    super(fieldConfig);
+    super(fieldConfig, options);
     this.initializeConfigPath();
     this.folderPath = this.configPath.replace("files.json", "folders.json");
     this.assetPath = this.configPath.replace("files.json", "assets");
@@ -65,7 +93,9 @@ export class FilesManager extends BaseConfigManager<DirectusFile> {
   public getBackupField = async (
     collection: "directus_files" | "directus_folders"
   ) => {
-    const result = await client.request(readFieldsByCollection(collection));
+    const result = await this.client.request(
+      readFieldsByCollection(collection)
+    );
     const backupField = result.find(({ field }) => {
       return field === "shouldBackup" || field === "should_backup";
     });
@@ -105,7 +135,7 @@ export class FilesManager extends BaseConfigManager<DirectusFile> {
     await this.getBackupField("directus_files");
 
     // Fetch files based on backup filter
-    const files = await client.request(
+    const files = await this.client.request(
       readFiles({
         filter: this.getBackupFilter(),
         fields: ["*"], // Ensure all fields are returned for filtering
@@ -130,8 +160,8 @@ export class FilesManager extends BaseConfigManager<DirectusFile> {
   private async fetchRemoteFolders(): Promise<DirectusFolder[]> {
     await this.getBackupField("directus_folders");
 
-    const folders = await client.request(
-      readFolders({ filter: this.getBackupFilter() })
+    const folders = await this.client.request(
+      readFolders({ filter: this.getBackupFilter(), limit: -1 })
     );
 
     return folders.map((folder) =>
@@ -139,6 +169,27 @@ export class FilesManager extends BaseConfigManager<DirectusFile> {
     ) as DirectusFolder[];
   }
 
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    return {
+      files: this.keyItems(JSON.parse(readFileSync(this.configPath, "utf8"))),
+      folders: this.keyItems<DirectusFolder>(
+        existsSync(this.folderPath)
+          ? JSON.parse(readFileSync(this.folderPath, "utf8"))
+          : []
+      ),
+    };
+  }
+
+  // Compared against the files.json written by the export, so the
+  // backup filter and tracked fields are the same on both sides
+  public async fetchRemoteState(): Promise<DriftState> {
+    return {
+      files: this.keyItems(await this.fetchRemoteData()),
+      folders: this.keyItems(await this.fetchRemoteFolders()),
+    };
+  }
+
   // Override normalizeItem to handle files specific logic
   public normalizeItem(item: DirectusFile): DirectusFile {
     // Use the base normalization
@@ -156,7 +207,7 @@ export class FilesManager extends BaseConfigManager<DirectusFile> {
   }
 
   public async exportConfig(): Promise<void> {
-    ensureConfigDirs();
+    ensureConfigDirs(this.configDir);
 
     try {
       const files = await this.fetchRemoteData();
@@ -168,11 +219,14 @@ export class FilesManager extends BaseConfigManager<DirectusFile> {
       // Export folders
       writeFileSync(this.folderPath, JSON.stringify(folders, null, 2));
 
-      // Store enhanced snapshots
+      // Store enhanced snapshots, folders alongside so a restore has both
       await this.storeEnhancedSnapshot(files);
+      await this.auditManager.storeSnapshot("folders", folders);
 
       // Download assets (simplified version)
-      const downloadPromises = files.map((file) => downloadFile(file));
+      const downloadPromises = files.map((file) =>
+        downloadFile(file, 3, this.assetPath, this.connection)
+      );
       await Promise.all(downloadPromises);
 
       console.log(`Files exported to ${this.configPath}`);
@@ -186,44 +240,491 @@ export class FilesManager extends BaseConfigManager<DirectusFile> {
     }
   }
 
+  /**
+   * Build the list of creates/updates/deletes needed to bring the remote
+   * files and folders in line with files.json and folders.json, recording
+   * each decision in the structured import plan
+   */
+  private async planImport(
+    localFiles: DirectusFile[],
+    localFolders: DirectusFolder[],
+    importPlan: ImportPlan,
+    prune = false
+  ): Promise<FilesImportPlan> {
+    await this.getBackupField("directus_files");
+    const remoteFiles = (await this.client.request(
+      readFiles({ fields: ["*"], limit: -1 })
+    )) as DirectusFile[];
+    const remoteFolders = (await this.client.request(
+      readFolders({ limit: -1 })
+    )) as DirectusFolder[];
+
+    localFolders = this.pairFolders(localFolders, remoteFolders);
+    // Files uploaded on both sides under the same storage name are the same
+    this.idMapper.replace(
+      "files",
+      matchByKey(
+        localFiles,
+        remoteFiles,
+        this.idMapper.pairs("files"),
+        "files",
+        (file) => file.filename_disk,
+        "filename_disk"
+      )
+    );
+    localFiles = localFiles.map((file) =>
+      this.idMapper.remap(file, { id: "files", folder: "folders" })
+    );
+
+    const remoteFilesById = new Map(remoteFiles.map((f) => [f.id, f]));
+    const remoteFoldersById = new Map(remoteFolders.map((f) => [f.id, f]));
+
+    const plan: FilesImportPlan = {
+      folders: { create: [], update: [] },
+      files: { upload: [], update: [], delete: [], missingAssets: [] },
+    };
+
+    for (const folder of this.sortFoldersParentFirst(localFolders)) {
+      const existing = remoteFoldersById.get(folder.id);
+      const base = { itemType: "folders", id: folder.id, name: folder.name };
+      if (!existing) {
+        plan.folders.create.push(folder);
+        addImportAction(importPlan, {
+          ...base,
+          action: "create",
+          after: folder,
+        });
+      } else if (
+        existing.name !== folder.name ||
+        (existing.parent ?? null) !== (folder.parent ?? null)
+      ) {
+        plan.folders.update.push(folder);
+        addImportAction(importPlan, {
+          ...base,
+          action: "update",
+          ...changedValues(
+            { name: existing.name, parent: existing.parent ?? null },
+            { name: folder.name, parent: folder.parent ?? null }
+          ),
+        });
+      } else {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: UNCHANGED,
+        });
+      }
+    }
+
+    const trackedFields = [
+      "title",
+      "type",
+      "folder",
+      ...(this.backupField ? [this.backupField] : []),
+    ];
+
+    for (const file of localFiles) {
+      const existing = remoteFilesById.get(file.id);
+      const base = {
+        itemType: "files",
+        id: file.id,
+        name: file.filename_download,
+      };
+      if (!existing) {
+        if (existsSync(this.getAssetFilePath(file))) {
+          plan.files.upload.push(file);
+          addImportAction(importPlan, {
+            ...base,
+            action: "create",
+            after: file,
+          });
+        } else {
+          plan.files.missingAssets.push(file);
+          addImportAction(importPlan, {
+            ...base,
+            action: "skip",
+            reason: `asset missing from ${this.assetPath}`,
+          });
+        }
+        continue;
+      }
+
+      const changes = _.pickBy(
+        _.pick(file, trackedFields),
+        (value, key) => !_.isEqual(value ?? null, existing[key] ?? null)
+      );
+      if (!_.isEmpty(changes)) {
+        plan.files.update.push({ file, changes });
+        addImportAction(importPlan, {
+          ...base,
+          action: "update",
+          before: _.pick(existing, Object.keys(changes)),
+          after: changes,
+        });
+      } else {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: UNCHANGED,
+        });
+      }
+    }
+
+    // Only files explicitly marked for backup are candidates for deletion,
+    // anything else on the remote is not managed by DCT
+    if (prune && this.backupField) {
+      const localIds = new Set(localFiles.map((f) => f.id));
+      plan.files.delete = remoteFiles.filter(
+        (f) => f[this.backupField!] === true && !localIds.has(f.id)
+      );
+      plan.files.delete.forEach((file) =>
+        addImportAction(importPlan, {
+          action: "delete",
+          itemType: "files",
+          id: file.id,
+          name: file.filename_download,
+          before: file,
+        })
+      );
+    }
+
+    return plan;
+  }
+
+  /**
+   * Map local folders to their ids on the target. Folders missing on the
+   * target are paired with a target folder of the same name under the same
+   * parent, so folder trees created on both sides are not duplicated.
+   */
+  private pairFolders(
+    localFolders: DirectusFolder[],
+    remoteFolders: DirectusFolder[]
+  ): DirectusFolder[] {
+    const remoteIds = new Set(remoteFolders.map((f) => f.id));
+    const localIds = new Set(localFolders.map((f) => f.id));
+
+    // Parents first, so children are compared with their paired parent
+    return this.sortFoldersParentFirst(localFolders).map((folder) => {
+      const remapped = this.idMapper.remap(folder, {
+        id: "folders",
+        parent: "folders",
+      });
+      if (remoteIds.has(remapped.id)) return remapped;
+
+      const paired = new Set(this.idMapper.pairs("folders").values());
+      const match = remoteFolders.find(
+        (remote) =>
+          remote.name === remapped.name &&
+          (remote.parent ?? null) === (remapped.parent ?? null) &&
+          !localIds.has(remote.id) &&
+          !paired.has(remote.id)
+      );
+      if (!match) return remapped;
+
+      console.log(
+        `Pairing folder "${folder.name}" with the target folder: ${folder.id} -> ${match.id}`
+      );
+      this.idMapper.register("folders", folder.id, match.id);
+      return { ...remapped, id: match.id };
+    });
+  }
+
+  /**
+   * Order folders so that every parent is created before its children
+   */
+  private sortFoldersParentFirst(folders: DirectusFolder[]): DirectusFolder[] {
+    const folderMap = new Map(folders.map((f) => [f.id, f]));
+    const sorted: DirectusFolder[] = [];
+    const visited = new Set<string>();
+
+    const visit = (folder: DirectusFolder) => {
+      if (visited.has(folder.id)) return;
+      visited.add(folder.id);
+      const parent = folder.parent ? folderMap.get(folder.parent) : undefined;
+      if (parent) visit(parent);
+      sorted.push(folder);
+    };
+
+    folders.forEach(visit);
+    return sorted;
+  }
+
+  /**
+   * Resolve the on-disk asset path, using the same filename sanitization as downloadFile
+   */
+  private getAssetFilePath(file: DirectusFile): string {
+    const safeDiskName = file.filename_disk.replace(/[<>:"/\\|?*]/g, "_");
+    return join(this.assetPath, safeDiskName);
+  }
+
+  private printImportPlan(plan: FilesImportPlan, dryRun: boolean) {
+    const prefix = dryRun ? "[Dry Run] " : "";
+    console.log(
+      `${prefix}Folders: ${plan.folders.create.length} to create, ${plan.folders.update.length} to update`
+    );
+    plan.folders.create.forEach((f) =>
+      console.log(`  + folder ${f.name} (${f.id})`)
+    );
+    plan.folders.update.forEach((f) =>
+      console.log(`  ~ folder ${f.name} (${f.id})`)
+    );
+
+    console.log(
+      `${prefix}Files: ${plan.files.upload.length} to upload, ${plan.files.update.length} to update, ${plan.files.delete.length} to delete`
+    );
+    plan.files.upload.forEach((f) =>
+      console.log(`  + ${f.filename_download} (${f.id})`)
+    );
+    plan.files.update.forEach(({ file, changes }) =>
+      console.log(
+        `  ~ ${file.filename_download} (${file.id}): ${Object.keys(
+          changes
+        ).join(", ")}`
+      )
+    );
+    plan.files.delete.forEach((f) =>
+      console.log(`  - ${f.filename_download} (${f.id})`)
+    );
+
+    if (plan.files.missingAssets.length > 0) {
+      console.warn(
+        `${plan.files.missingAssets.length} files are missing from ${this.assetPath} and will be skipped:`
+      );
+      plan.files.missingAssets.forEach((f) =>
+        console.warn(`  ! ${f.filename_download} (${f.id})`)
+      );
+    }
+  }
+
+  private async applyImportPlan(plan: FilesImportPlan) {
+    const stats = { created: 0, updated: 0, deleted: 0, errors: 0 };
+
+    for (const folder of plan.folders.create) {
+      try {
+        await this.client.request(
+          createFolder(
+            _.pick(folder, [
+              "id",
+              "name",
+              "parent",
+              ...(this.backupField ? [this.backupField] : []),
+            ])
+          )
+        );
+        stats.created++;
+      } catch (error: any) {
+        console.error(
+          `Error creating folder ${folder.name} (${
+            folder.id
+          }): ${extractErrorMessage(error)}`
+        );
+        stats.errors++;
+      }
+    }
+
+    for (const folder of plan.folders.update) {
+      try {
+        await this.client.request(
+          updateFolder(folder.id, {
+            name: folder.name,
+            parent: folder.parent ?? null,
+          })
+        );
+        stats.updated++;
+      } catch (error: any) {
+        console.error(
+          `Error updating folder ${folder.name} (${
+            folder.id
+          }): ${extractErrorMessage(error)}`
+        );
+        stats.errors++;
+      }
+    }
+
+    for (const file of plan.files.upload) {
+      try {
+        const formData = new FormData();
+        // Metadata fields must precede the file part in the multipart body
+        formData.append("id", file.id);
+        if (file.title) formData.append("title", file.title);
+        if (file.type) formData.append("type", file.type);
+        if (file.folder) formData.append("folder", file.folder);
+        if (this.backupField && file[this.backupField] !== undefined) {
+          formData.append(this.backupField, String(file[this.backupField]));
+        }
+        formData.append("file", createReadStream(this.getAssetFilePath(file)), {
+          filename: file.filename_download,
+          contentType: file.type,
+        });
+        await restFileUpload(formData, undefined, 3, this.connection);
+        stats.created++;
+      } catch (error: any) {
+        console.error(
+          `Error uploading file ${file.filename_download} (${
+            file.id
+          }): ${extractErrorMessage(error)}`
+        );
+        stats.errors++;
+      }
+    }
+
+    for (const { file, changes } of plan.files.update) {
+      try {
+        await this.client.request(updateFile(file.id, changes));
+        stats.updated++;
+      } catch (error: any) {
+        console.error(
+          `Error updating file ${file.filename_download} (${
+            file.id
+          }): ${extractErrorMessage(error)}`
+        );
+        stats.errors++;
+      }
+    }
+
+    if (plan.files.delete.length > 0) {
+      try {
+        await this.client.request(
+          deleteFiles(plan.files.delete.map((f) => f.id))
+        );
+        stats.deleted = plan.files.delete.length;
+      } catch (error: any) {
+        console.error(`Error deleting files: ${extractErrorMessage(error)}`);
+        stats.errors++;
+      }
+    }
+
+    console.log(
+      `Files import complete: ${stats.created} created, ${stats.updated} updated, ${stats.deleted} deleted, ${stats.errors} errors`
+    );
+
+    if (stats.errors > 0) {
+      throw new Error(`Files import finished with ${stats.errors} errors`);
+    }
+  }
+
+  /**
+   * Undo an import from its plan: restore the previous values of updated
+   * files and folders, then delete the files and folders it created.
+   * The remote_before snapshot cannot do this, since it only holds files
+   * marked for backup. Items the import did not get to are left alone.
+   */
+  public async revertImport(plan: ImportPlan): Promise<void> {
+    const actions = (action: string, itemType: string) =>
+      plan.actions.filter(
+        (a) => a.action === action && a.itemType === itemType
+      );
+
+    for (const { id, before } of actions("update", "files")) {
+      await this.client.request(updateFile(id, before));
+    }
+    for (const { id, before } of actions("update", "folders")) {
+      await this.client.request(updateFolder(id, before));
+    }
+
+    const createdFiles = actions("create", "files").map((a) => a.id);
+    if (createdFiles.length > 0) {
+      const uploaded = await this.client.request(
+        readFiles({
+          filter: { id: { _in: createdFiles } },
+          fields: ["id"],
+          limit: -1,
+        })
+      );
+      if (uploaded.length > 0) {
+        console.log(`Deleting ${uploaded.length} uploaded files`);
+        await this.client.request(deleteFiles(uploaded.map((f) => f.id)));
+      }
+    }
+
+    const createdFolders = actions("create", "folders").map((a) => a.id);
+    if (createdFolders.length > 0) {
+      const existing = new Set(
+        (
+          await this.client.request(
+            readFolders({
+              filter: { id: { _in: createdFolders } },
+              fields: ["id"],
+              limit: -1,
+            })
+          )
+        ).map((f) => f.id)
+      );
+      // Folders are created parents first, so delete children first
+      for (const id of [...createdFolders].reverse()) {
+        if (!existing.has(id)) continue;
+        console.log(`Deleting folder ${id}`);
+        await this.client.request(deleteFolder(id));
+      }
+    }
+  }
+
   public async importConfig(
-    dryRun = false
-  ): Promise<{ status: "success" | "failure"; message?: string }> {
+    dryRun = false,
+    prune = false
+  ): Promise<ImportResult> {
+    // Created outside the try, so a failed import still reports what it
+    // planned and an atomic import-all can undo it
+    const importPlan = createImportPlan("files", dryRun);
     try {
-      if (dryRun) {
-        console.log(
-          "[Dry Run] Files import preview - would import files from configuration"
-        );
-        return {
-          status: "success",
-          message: "Files import preview completed.",
-        };
+      const localFiles: DirectusFile[] = existsSync(this.configPath)
+        ? JSON.parse(readFileSync(this.configPath, "utf8"))
+        : [];
+      const localFolders: DirectusFolder[] = existsSync(this.folderPath)
+        ? JSON.parse(readFileSync(this.folderPath, "utf8"))
+        : [];
+
+      const plan = await this.planImport(
+        localFiles,
+        localFolders,
+        importPlan,
+        prune
+      );
+      this.printImportPlan(plan, dryRun);
+      if (!dryRun) {
+        this.idMapper.save();
       }
 
-      // Simple import implementation - delegate to existing complex logic
-      await this.importFiles(dryRun);
-      return { status: "success", message: "Files imported successfully." };
+      const result = await this.auditManager.auditImportOperation(
+        "files",
+        "FilesManager",
+        { files: localFiles, folders: localFolders },
+        async () => ({
+          files: await this.fetchRemoteData(),
+          folders: await this.fetchRemoteFolders(),
+        }),
+        async () => {
+          await this.applyImportPlan(plan);
+          return {
+            status: "success",
+            message: "Files imported successfully.",
+          };
+        },
+        dryRun
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+
+      if (dryRun) {
+        console.log("[Dry Run] Import preview complete. No changes applied.");
+      }
+      return {
+        status: "success",
+        message: "Files imported successfully.",
+        plan: importPlan,
+      };
     } catch (error: any) {
       console.error("Error importing files:", error);
-      return { status: "failure", message: error.message };
+      return { status: "failure", message: error.message, plan: importPlan };
     }
   }
 
-  // Legacy method names for backward compatibility - delegate to existing complex implementation
+  // Legacy method names for backward compatibility
   exportFiles = async () => {
     return this.exportConfig();
   };
 
-  importFiles = async (dryRun = false) => {
-    // This is a placeholder - the existing implementation is very complex
-    // For now, just log what would happen
-    console.log(
-      `${
-        dryRun ? "[Dry Run] " : ""
-      }Files import - complex implementation needed`
-    );
-    if (!dryRun) {
-      console.log("Files import completed successfully.");
-    }
-  };
+  importFiles = (dryRun?: boolean, prune?: boolean) =>
+    this.importConfig(dryRun, prune);
 }
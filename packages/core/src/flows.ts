@@ -6,15 +6,22 @@ import {
   readFlows,
   readOperations,
   updateFlow,
+  updateOperation,
 } from "@directus/sdk";
-import { writeFileSync, readFileSync } from "fs";
-import { client, ensureConfigDirs } from "./helper";
+import { writeFileSync, readFileSync, existsSync } from "fs";
+import { ensureConfigDirs } from "./helper";
 import _ from "lodash";
 import {
   BaseConfigManager,
   DependencyInfo,
+  DriftState,
   FieldExclusionConfig,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
 } from "./base-config-manager";
+import { createImportPlan, describeReconciliation } from "./utils/importPlan";
+import { matchByKey } from "./utils/idMap";
 
 interface DirectusOperation {
   id: string;
@@ -31,6 +38,27 @@ interface DirectusFlow {
   [key: string]: any;
 }
 
+interface OperationsImportPlan {
+  create: DirectusOperation[];
+  update: DirectusOperation[];
+  delete: DirectusOperation[];
+  /** Operations whose resolve/reject links must be (re)written after all operations exist */
+  relink: DirectusOperation[];
+}
+
+interface FlowsImportPlan {
+  create: DirectusFlow[];
+  update: DirectusFlow[];
+  delete: DirectusFlow[];
+  /** Flows whose entry point operation must be set once operations are in place */
+  entryPoints: DirectusFlow[];
+  operations: OperationsImportPlan;
+}
+
+// Fields that differ between environments and never take part in comparisons
+const OPERATION_IGNORED_FIELDS = ["date_created", "user_created"];
+const FLOW_IGNORED_FIELDS = ["date_created", "user_created", "operations"];
+
 /**
  * Operations Manager for handling Directus operations
  */
@@ -38,17 +66,17 @@ class OperationsManager extends BaseConfigManager<DirectusOperation> {
   protected readonly configType = "operations";
   protected readonly defaultFilename = "operations.json";
 
-  constructor() {
+  constructor(options: ManagerOptions = {}) {
     const fieldConfig: FieldExclusionConfig = {
       nullifyFields: ["user_created"],
     };
 
-    super(fieldConfig);
+    super(fieldConfig, options);
     this.initializeConfigPath();
   }
 
   protected async fetchRemoteData(): Promise<DirectusOperation[]> {
-    const operations = await client.request(readOperations());
+    const operations = await this.client.request(readOperations({ limit: -1 }));
     return operations as DirectusOperation[];
   }
 
@@ -64,14 +92,176 @@ class OperationsManager extends BaseConfigManager<DirectusOperation> {
     await this.storeEnhancedSnapshot(operations);
   }
 
-  public async importConfig(
-    dryRun?: boolean
-  ): Promise<{ status: "success" | "failure"; message?: string }> {
-    // Implementation for operations import
-    return {
-      status: "success",
-      message: "Operations import not implemented yet",
+  /**
+   * Strip fields that are environment specific or handled in a separate pass
+   */
+  private comparableOperation(operation: DirectusOperation) {
+    return _.omit(operation, [
+      ...OPERATION_IGNORED_FIELDS,
+      "resolve",
+      "reject",
+    ]);
+  }
+
+  /**
+   * Work out which operations must be created, updated, deleted or relinked,
+   * matching local and remote operations by id
+   */
+  public planReconciliation(
+    localOperations: DirectusOperation[],
+    remoteOperations: DirectusOperation[]
+  ): OperationsImportPlan {
+    const remoteById = new Map(remoteOperations.map((op) => [op.id, op]));
+    const localIds = new Set(localOperations.map((op) => op.id));
+    const plan: OperationsImportPlan = {
+      create: [],
+      update: [],
+      delete: remoteOperations.filter((op) => !localIds.has(op.id)),
+      relink: [],
     };
+
+    for (const operation of localOperations) {
+      const existing = remoteById.get(operation.id);
+      if (!existing) {
+        plan.create.push(operation);
+        if (operation.resolve || operation.reject) {
+          plan.relink.push(operation);
+        }
+        continue;
+      }
+
+      if (
+        !_.isEqual(
+          this.comparableOperation(operation),
+          this.comparableOperation(existing)
+        )
+      ) {
+        plan.update.push(operation);
+      }
+      if (
+        (operation.resolve ?? null) !== (existing.resolve ?? null) ||
+        (operation.reject ?? null) !== (existing.reject ?? null)
+      ) {
+        plan.relink.push(operation);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Apply an operations plan. Operations are created without their
+   * resolve/reject links first, and the links are patched in a second pass
+   * once every operation they can point at exists. The flows referenced by
+   * the operations must already exist on the remote.
+   */
+  public async applyReconciliation(plan: OperationsImportPlan): Promise<void> {
+    const createdIds = new Set(plan.create.map((op) => op.id));
+
+    // resolve/reject are unique, so clear the links that are about to change
+    // before anything else to avoid constraint violations while rewiring
+    for (const operation of plan.relink) {
+      if (createdIds.has(operation.id)) continue;
+      await this.client.request(
+        updateOperation(operation.id, { resolve: null, reject: null } as any)
+      );
+    }
+
+    if (plan.delete.length > 0) {
+      console.log(`Deleting ${plan.delete.length} operations`);
+      await this.client.request(
+        deleteOperations(plan.delete.map((op) => op.id))
+      );
+    }
+
+    for (const operation of plan.create) {
+      console.log(`Creating operation: ${operation.name} (${operation.id})`);
+      await this.client.request(
+        createOperation({
+          ..._.omit(operation, OPERATION_IGNORED_FIELDS),
+          resolve: null,
+          reject: null,
+        } as any)
+      );
+    }
+
+    for (const operation of plan.update) {
+      console.log(`Updating operation: ${operation.name} (${operation.id})`);
+      await this.client.request(
+        updateOperation(
+          operation.id,
+          _.omit(operation, [
+            ...OPERATION_IGNORED_FIELDS,
+            "id",
+            "resolve",
+            "reject",
+          ]) as any
+        )
+      );
+    }
+
+    for (const operation of plan.relink) {
+      await this.client.request(
+        updateOperation(operation.id, {
+          resolve: operation.resolve ?? null,
+          reject: operation.reject ?? null,
+        } as any)
+      );
+    }
+  }
+
+  public async importConfig(dryRun = false): Promise<ImportResult> {
+    // Created outside the try, so a failed import still reports what it
+    // planned
+    const importPlan = createImportPlan("operations", dryRun);
+    try {
+      const localOperations: DirectusOperation[] = JSON.parse(
+        readFileSync(this.configPath, "utf8")
+      );
+      const remoteOperations = await this.fetchRemoteData();
+      const plan = this.planReconciliation(localOperations, remoteOperations);
+      describeReconciliation(
+        importPlan,
+        "operations",
+        localOperations,
+        remoteOperations,
+        new Set([...plan.update, ...plan.relink].map((op) => op.id)),
+        OPERATION_IGNORED_FIELDS
+      );
+      console.log(
+        `${dryRun ? "[Dry Run] " : ""}Operations: ${
+          plan.create.length
+        } to create, ${plan.update.length} to update, ${
+          plan.delete.length
+        } to delete, ${plan.relink.length} to relink`
+      );
+
+      const result = await this.auditManager.auditImportOperation(
+        "operations",
+        "OperationsManager",
+        localOperations,
+        async () => this.normalizeItems(await this.fetchRemoteData()),
+        async () => {
+          await this.applyReconciliation(plan);
+          return {
+            status: "success",
+            message: `Reconciled ${localOperations.length} operations`,
+          };
+        },
+        dryRun
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+
+      return {
+        status: "success",
+        message: "Operations imported successfully.",
+        plan: importPlan,
+      };
+    } catch (error: any) {
+      return { status: "failure", message: error.message, plan: importPlan };
+    }
   }
 }
 
@@ -86,88 +276,219 @@ export class FlowsManager extends BaseConfigManager<DirectusFlow> {
   private operationPath: string;
   private operationsManager: OperationsManager;
 
-  constructor() {
+  constructor(options: ManagerOptions = {}) {
     // Configure field exclusion patterns for flows
     const fieldConfig: FieldExclusionConfig = {
       nullifyFields: ["user_created"],
       emptyRelationFields: ["operations"], // Many-to-many relationship
     };
 
-    super(fieldConfig);
+    super(fieldConfig, options);
     this.initializeConfigPath();
     this.operationPath = this.configPath.replace(
       "flows.json",
       "operations.json"
     );
-    this.operationsManager = new OperationsManager();
+    this.operationsManager = new OperationsManager(options);
   }
 
   /**
    * Detect dependencies within flows configuration
-   * Maps flow -> operation relationships and operation -> operation chains
+   * Uses the operations in the local operations.json
    */
   protected detectDependencies(flows: DirectusFlow[]): DependencyInfo[] {
-    const dependencies: DependencyInfo[] = [];
-
-    // This would require loading operations data as well
-    // For now, return empty array - will be enhanced in Phase 2
-    return dependencies;
+    const operations: DirectusOperation[] = existsSync(this.operationPath)
+      ? JSON.parse(readFileSync(this.operationPath, "utf8"))
+      : [];
+    return this.buildDependencyGraph(flows, operations);
   }
 
   /**
-   * Enhanced dependency sorting for operations
-   * Handles operation -> operation trigger relationships
+   * Build the dependency graph between flows, operations and collections:
+   * - flow -> entry operation
+   * - operation -> resolve/reject operation
+   * - operation -> flow ("trigger flow" operations)
+   * - flow -> collection (event and manual trigger scopes)
    */
-  private sortOperationsByDependency(
+  public buildDependencyGraph(
+    flows: DirectusFlow[],
     operations: DirectusOperation[]
-  ): DirectusOperation[] {
-    const operationMap = new Map<string, DirectusOperation>();
-    const sortedOperations: DirectusOperation[] = [];
-    const processed = new Set<string>();
-    const processing = new Set<string>(); // For circular dependency detection
+  ): DependencyInfo[] {
+    const dependencies: DependencyInfo[] = [];
 
-    // Build operation map
-    operations.forEach((op) => operationMap.set(op.id, op));
+    for (const flow of flows) {
+      if (flow.operation) {
+        dependencies.push({
+          type: "flows->operations",
+          sourceId: flow.id,
+          targetId: flow.operation,
+          relationship: "entry_point",
+        });
+      }
 
-    const processOperation = (operationId: string): void => {
-      if (processed.has(operationId)) return;
+      const collections: string[] = Array.isArray(flow.options?.collections)
+        ? flow.options.collections
+        : [];
+      for (const collection of collections) {
+        dependencies.push({
+          type: "flows->collections",
+          sourceId: flow.id,
+          targetId: collection,
+          relationship: `${flow.trigger}_trigger`,
+        });
+      }
+    }
 
-      if (processing.has(operationId)) {
-        console.warn(
-          `Circular dependency detected in operations involving: ${operationId}`
-        );
-        return;
+    for (const operation of operations) {
+      for (const link of ["resolve", "reject"] as const) {
+        if (operation[link]) {
+          dependencies.push({
+            type: "operations->operations",
+            sourceId: operation.id,
+            targetId: operation[link]!,
+            relationship: link,
+          });
+        }
       }
 
-      const operation = operationMap.get(operationId);
-      if (!operation) return;
+      if (operation.type === "trigger" && operation.options?.flow) {
+        dependencies.push({
+          type: "operations->flows",
+          sourceId: operation.id,
+          targetId: operation.options.flow,
+          relationship: "triggers_flow",
+        });
+      }
+    }
 
-      processing.add(operationId);
+    return dependencies;
+  }
 
-      // Process dependencies first (resolve and reject operations)
-      if (operation.resolve && operationMap.has(operation.resolve)) {
-        processOperation(operation.resolve);
-      }
-      if (operation.reject && operationMap.has(operation.reject)) {
-        processOperation(operation.reject);
+  /**
+   * Return the dependencies whose target no longer exists
+   * @param collections Known collection names; collection edges are not checked when omitted
+   */
+  public findDanglingDependencies(
+    dependencies: DependencyInfo[],
+    flows: DirectusFlow[],
+    operations: DirectusOperation[],
+    collections?: string[]
+  ): DependencyInfo[] {
+    const flowIds = new Set(flows.map((f) => f.id));
+    const operationIds = new Set(operations.map((op) => op.id));
+    const collectionNames = collections ? new Set(collections) : null;
+
+    return dependencies.filter((dependency) => {
+      switch (dependency.type) {
+        case "flows->operations":
+        case "operations->operations":
+          return !operationIds.has(dependency.targetId);
+        case "operations->flows":
+          return !flowIds.has(dependency.targetId);
+        case "flows->collections":
+          // System collections are not part of the schema snapshot
+          return (
+            !!collectionNames &&
+            !dependency.targetId.startsWith("directus_") &&
+            !collectionNames.has(dependency.targetId)
+          );
+        default:
+          return false;
       }
+    });
+  }
 
-      processing.delete(operationId);
-      processed.add(operationId);
-      sortedOperations.push(operation);
+  /**
+   * Read flows.json and operations.json from the config directory
+   */
+  public readLocalConfig(): {
+    flows: DirectusFlow[];
+    operations: DirectusOperation[];
+  } {
+    return {
+      flows: JSON.parse(readFileSync(this.configPath, "utf8")),
+      operations: JSON.parse(readFileSync(this.operationPath, "utf8")),
     };
+  }
+
+  /**
+   * Pair local flows missing on the target with the target flow of the same
+   * name and trigger
+   */
+  private pairFlows(
+    localFlows: DirectusFlow[],
+    remoteFlows: DirectusFlow[],
+    dryRun: boolean
+  ) {
+    this.idMapper.replace(
+      "flows",
+      matchByKey(
+        localFlows,
+        remoteFlows,
+        this.idMapper.pairs("flows"),
+        "flows",
+        (flow) => `${flow.name} (${flow.trigger})`,
+        "name and trigger"
+      )
+    );
+    if (!dryRun) {
+      this.idMapper.save();
+    }
+  }
 
-    // Process all operations
-    operations.forEach((op) => processOperation(op.id));
+  /**
+   * Point local flows, operations and trigger operations at the ids of
+   * paired flows on the target
+   */
+  private mapLocalConfig(config: {
+    flows: DirectusFlow[];
+    operations: DirectusOperation[];
+  }) {
+    return {
+      flows: config.flows.map((flow) =>
+        this.idMapper.remap(flow, { id: "flows" })
+      ),
+      operations: config.operations.map((operation) => {
+        const remapped = this.idMapper.remap(operation, { flow: "flows" });
+        return operation.type === "trigger" && operation.options?.flow
+          ? {
+              ...remapped,
+              options: this.idMapper.remap(operation.options, {
+                flow: "flows",
+              }),
+            }
+          : remapped;
+      }),
+    };
+  }
 
-    return sortedOperations;
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    const { flows, operations } = this.readLocalConfig();
+    return {
+      flows: this.keyItems(this.normalizeItems(flows)),
+      operations: this.keyItems(
+        this.operationsManager.normalizeItems(operations)
+      ),
+    };
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return {
+      flows: this.keyItems(this.normalizeItems(await this.fetchRemoteData())),
+      operations: this.keyItems(
+        this.operationsManager.normalizeItems(
+          await this.fetchRemoteOperations()
+        )
+      ),
+    };
   }
 
   /**
    * Fetch remote flows data from Directus
    */
   protected async fetchRemoteData(): Promise<DirectusFlow[]> {
-    const flows = await client.request(readFlows());
+    const flows = await this.client.request(readFlows({ limit: -1 }));
     return flows as DirectusFlow[];
   }
 
@@ -175,7 +496,7 @@ export class FlowsManager extends BaseConfigManager<DirectusFlow> {
    * Fetch remote operations data from Directus
    */
   private async fetchRemoteOperations(): Promise<DirectusOperation[]> {
-    const operations = await client.request(readOperations());
+    const operations = await this.client.request(readOperations({ limit: -1 }));
     return operations as DirectusOperation[];
   }
 
@@ -183,7 +504,7 @@ export class FlowsManager extends BaseConfigManager<DirectusFlow> {
    * Export flows and operations configuration with enhanced audit
    */
   public async exportConfig(): Promise<void> {
-    ensureConfigDirs();
+    ensureConfigDirs(this.configDir);
 
     try {
       // Fetch operations first (flows depend on operations)
@@ -247,89 +568,185 @@ export class FlowsManager extends BaseConfigManager<DirectusFlow> {
   }
 
   /**
-   * Import flows and operations configuration with enhanced validation
+   * Strip fields that are environment specific or handled in a separate pass
    */
-  public async importConfig(
-    dryRun = false
-  ): Promise<{ status: "success" | "failure"; message?: string }> {
+  private comparableFlow(flow: DirectusFlow) {
+    return _.omit(flow, [...FLOW_IGNORED_FIELDS, "operation"]);
+  }
+
+  /**
+   * Work out the changes needed to reconcile remote flows and operations
+   * with the local configuration, matching items by id
+   */
+  private planReconciliation(
+    localFlows: DirectusFlow[],
+    localOperations: DirectusOperation[],
+    remoteFlows: DirectusFlow[],
+    remoteOperations: DirectusOperation[]
+  ): FlowsImportPlan {
+    const remoteById = new Map(remoteFlows.map((flow) => [flow.id, flow]));
+    const localIds = new Set(localFlows.map((flow) => flow.id));
+    const plan: FlowsImportPlan = {
+      create: [],
+      update: [],
+      delete: remoteFlows.filter((flow) => !localIds.has(flow.id)),
+      entryPoints: [],
+      operations: this.operationsManager.planReconciliation(
+        localOperations,
+        remoteOperations
+      ),
+    };
+
+    for (const flow of localFlows) {
+      const existing = remoteById.get(flow.id);
+      if (!existing) {
+        plan.create.push(flow);
+        if (flow.operation) plan.entryPoints.push(flow);
+        continue;
+      }
+
+      if (
+        !_.isEqual(this.comparableFlow(flow), this.comparableFlow(existing))
+      ) {
+        plan.update.push(flow);
+      }
+      if ((flow.operation ?? null) !== (existing.operation ?? null)) {
+        plan.entryPoints.push(flow);
+      }
+    }
+
+    return plan;
+  }
+
+  private printReconciliationPlan(plan: FlowsImportPlan, dryRun: boolean) {
+    const prefix = dryRun ? "[Dry Run] " : "";
+    console.log(
+      `${prefix}Flows: ${plan.create.length} to create, ${plan.update.length} to update, ${plan.delete.length} to delete`
+    );
+    plan.create.forEach((f) => console.log(`  + ${f.name} (${f.id})`));
+    plan.update.forEach((f) => console.log(`  ~ ${f.name} (${f.id})`));
+    plan.delete.forEach((f) => console.log(`  - ${f.name} (${f.id})`));
+    console.log(
+      `${prefix}Operations: ${plan.operations.create.length} to create, ${plan.operations.update.length} to update, ${plan.operations.delete.length} to delete, ${plan.operations.relink.length} to relink`
+    );
+  }
+
+  /**
+   * Apply a reconciliation plan in an order that keeps every reference valid:
+   * flows first (operations belong to a flow), then operations and their
+   * links, then flow entry points, and finally removal of stale flows
+   */
+  private async applyReconciliation(plan: FlowsImportPlan): Promise<void> {
+    for (const flow of plan.create) {
+      console.log(`Creating flow: ${flow.name} (${flow.id})`);
+      await this.client.request(
+        createFlow({
+          ..._.omit(flow, FLOW_IGNORED_FIELDS),
+          operation: null,
+        } as any)
+      );
+    }
+
+    for (const flow of plan.update) {
+      console.log(`Updating flow: ${flow.name} (${flow.id})`);
+      await this.client.request(
+        updateFlow(
+          flow.id,
+          _.omit(flow, [...FLOW_IGNORED_FIELDS, "id", "operation"]) as any
+        )
+      );
+    }
+
+    await this.operationsManager.applyReconciliation(plan.operations);
+
+    for (const flow of plan.entryPoints) {
+      await this.client.request(
+        updateFlow(flow.id, { operation: flow.operation ?? null } as any)
+      );
+    }
+
+    if (plan.delete.length > 0) {
+      console.log(`Deleting ${plan.delete.length} flows`);
+      await this.client.request(deleteFlows(plan.delete.map((f) => f.id)));
+    }
+  }
+
+  /**
+   * Import flows and operations configuration, reconciling each item in
+   * place so ids and the links between operations are preserved
+   */
+  public async importConfig(dryRun = false): Promise<ImportResult> {
+    // Created outside the try, so a failed import still reports what it
+    // planned
+    const importPlan = createImportPlan("flows", dryRun);
     try {
       // Load local configuration
-      const localFlows: DirectusFlow[] = JSON.parse(
-        readFileSync(this.configPath, "utf8")
+      const localConfig = this.readLocalConfig();
+      const remoteFlows = await this.fetchRemoteData();
+      this.pairFlows(localConfig.flows, remoteFlows, dryRun);
+      const { flows: localFlows, operations: localOperations } =
+        this.mapLocalConfig(localConfig);
+
+      const remoteOperations = await this.fetchRemoteOperations();
+      const plan = this.planReconciliation(
+        localFlows,
+        localOperations,
+        remoteFlows,
+        remoteOperations
       );
-      const localOperations: DirectusOperation[] = JSON.parse(
-        readFileSync(this.operationPath, "utf8")
+      this.printReconciliationPlan(plan, dryRun);
+
+      describeReconciliation(
+        importPlan,
+        "flows",
+        localFlows,
+        remoteFlows,
+        new Set([...plan.update, ...plan.entryPoints].map((f) => f.id)),
+        FLOW_IGNORED_FIELDS
+      );
+      describeReconciliation(
+        importPlan,
+        "operations",
+        localOperations,
+        remoteOperations,
+        new Set(
+          [...plan.operations.update, ...plan.operations.relink].map(
+            (op) => op.id
+          )
+        ),
+        OPERATION_IGNORED_FIELDS
       );
-
-      // Sort operations by dependency to ensure proper import order
-      const sortedOperations = this.sortOperationsByDependency(localOperations);
 
       // Use audit manager for comprehensive import tracking
-      return new Promise((resolve) => {
-        this.auditManager
-          .auditImportOperation(
-            "flows",
-            "FlowsManager",
-            { flows: localFlows, operations: localOperations },
-            async () => {
-              const flows = await this.fetchRemoteData();
-              const operations = await this.fetchRemoteOperations();
-              return { flows, operations };
-            },
-            async () => {
-              if (dryRun) {
-                return {
-                  status: "success" as const,
-                  message: "Dry run completed - no changes applied",
-                };
-              }
-
-              // Delete existing flows and operations
-              const existingFlows = await this.fetchRemoteData();
-              if (existingFlows.length > 0) {
-                await client.request(
-                  deleteFlows(existingFlows.map((f) => f.id))
-                );
-              }
-
-              const existingOperations = await this.fetchRemoteOperations();
-              if (existingOperations.length > 0) {
-                await client.request(
-                  deleteOperations(existingOperations.map((op) => op.id))
-                );
-              }
-
-              // Import operations first (in dependency order)
-              for (const operation of sortedOperations) {
-                const { id, ...operationData } = operation;
-                await client.request(createOperation(operationData));
-              }
-
-              // Import flows
-              for (const flow of localFlows) {
-                const { id, ...flowData } = flow;
-                await client.request(createFlow(flowData));
-              }
-
-              return {
-                status: "success" as const,
-                message: `Imported ${localFlows.length} flows and ${sortedOperations.length} operations`,
-              };
-            },
-            dryRun
-          )
-          .then(() => {
-            resolve({
-              status: "success",
-              message: "Import operation completed successfully",
-            });
-          })
-          .catch((error) => {
-            resolve({ status: "failure", message: error.message });
-          });
-      });
+      const result = await this.auditManager.auditImportOperation(
+        "flows",
+        "FlowsManager",
+        { flows: localFlows, operations: localOperations },
+        async () => {
+          const flows = await this.fetchRemoteData();
+          const operations = await this.fetchRemoteOperations();
+          return { flows, operations };
+        },
+        async () => {
+          await this.applyReconciliation(plan);
+          return {
+            status: "success" as const,
+            message: `Reconciled ${localFlows.length} flows and ${localOperations.length} operations`,
+          };
+        },
+        dryRun
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+
+      return {
+        status: "success",
+        message: "Import operation completed successfully",
+        plan: importPlan,
+      };
     } catch (error: any) {
-      return { status: "failure", message: error.message };
+      return { status: "failure", message: error.message, plan: importPlan };
     }
   }
 
@@ -1,34 +1,40 @@
 import { createDirectus, rest, staticToken } from "@directus/sdk";
 import axios from "axios";
+import type FormData from "form-data";
 import { createWriteStream, existsSync, mkdirSync } from "fs";
 import { join } from "path";
+import { getActiveEnvironment } from "./utils/environments";
 
-const API_URL = process.env.DCT_API_URL ?? "http://localhost:8055";
-const TOKEN = process.env.DCT_TOKEN ?? "admin";
+/**
+ * URL and token of a Directus instance
+ */
+export interface DirectusConnection {
+  url: string;
+  token: string;
+}
 
-export const CONFIG_PATH = process.env.DCT_CONFIG_PATH ?? "./config";
-export const AUDIT_PATH = process.env.DCT_AUDIT_PATH ?? "./audit";
+export const createDirectusClient = ({ url, token }: DirectusConnection) =>
+  createDirectus(url).with(staticToken(token)).with(rest());
 
-export const client = createDirectus(API_URL)
-  .with(staticToken(TOKEN))
-  .with(rest());
+export type DirectusRestClient = ReturnType<typeof createDirectusClient>;
 
 // Utility function for REST calls using Axios
 export const callDirectusAPI = async <T>(
   endpoint: string,
   method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
   data?: any,
-  retries = 3
+  retries = 3,
+  connection: DirectusConnection = getActiveEnvironment()
 ) => {
   let lastError;
 
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
       const { data: res } = await axios({
-        url: `${API_URL}/${endpoint}`,
+        url: `${connection.url}/${endpoint}`,
         method,
         headers: {
-          Authorization: `Bearer ${TOKEN}`,
+          Authorization: `Bearer ${connection.token}`,
           "Content-Type": "application/json",
         },
         data,
@@ -64,23 +70,29 @@ export const callDirectusAPI = async <T>(
   throw lastError;
 };
 
-export const ensureConfigDirs = () => {
-  if (!existsSync(CONFIG_PATH)) {
-    mkdirSync(CONFIG_PATH, { recursive: true });
+export const ensureConfigDirs = (
+  configPath = getActiveEnvironment().configPath
+) => {
+  if (!existsSync(configPath)) {
+    mkdirSync(configPath, { recursive: true });
   }
-  const assetsPath = join(CONFIG_PATH, "assets");
+  const assetsPath = join(configPath, "assets");
   if (!existsSync(assetsPath)) {
     mkdirSync(assetsPath, { recursive: true });
   }
 };
 
-export const downloadFile = async (file: Record<string, any>, retries = 3) => {
-  const url = `${API_URL}/assets/${file.id}?download`;
-  const filePath = join(CONFIG_PATH, "assets", file.filename_disk);
+export const downloadFile = async (
+  file: Record<string, any>,
+  retries = 3,
+  assetsPath = join(getActiveEnvironment().configPath, "assets"),
+  connection: DirectusConnection = getActiveEnvironment()
+) => {
+  const url = `${connection.url}/assets/${file.id}?download`;
 
   // Ensure the filename is valid for the filesystem
   const safeDiskName = file.filename_disk.replace(/[<>:"/\\|?*]/g, "_");
-  const safeFilePath = join(CONFIG_PATH, "assets", safeDiskName);
+  const safeFilePath = join(assetsPath, safeDiskName);
 
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
@@ -90,7 +102,7 @@ export const downloadFile = async (file: Record<string, any>, retries = 3) => {
 
       const response = await axios.get(url, {
         responseType: "stream",
-        headers: { Authorization: `Bearer ${TOKEN}` },
+        headers: { Authorization: `Bearer ${connection.token}` },
         timeout: 30000, // 30 seconds timeout
       });
 
@@ -132,12 +144,15 @@ export const downloadFile = async (file: Record<string, any>, retries = 3) => {
  * and connection information for debugging
  */
 export function printConfig() {
+  const { name, url, token, configPath, auditPath } = getActiveEnvironment();
   console.log("=== Directus Config Toolkit Configuration ===");
-  console.log(`API URL: ${API_URL}`);
+  console.log(`Environment: ${name}`);
+  console.log(`API URL: ${url}`);
   console.log(
-    `Token: ${TOKEN.substring(0, 4)}...${TOKEN.substring(TOKEN.length - 4)}`
+    `Token: ${token.substring(0, 4)}...${token.substring(token.length - 4)}`
   );
-  console.log(`Config path: ${CONFIG_PATH}`);
+  console.log(`Config path: ${configPath}`);
+  console.log(`Audit path: ${auditPath}`);
 
   // Show environment variables
   console.log("\nEnvironment Variables:");
@@ -153,11 +168,11 @@ export function printConfig() {
   // Test connection
   console.log("\nTesting connection...");
   axios({
-    url: `${API_URL}/server/ping`,
+    url: `${url}/server/ping`,
     method: "GET",
     timeout: 5000, // 5 second timeout
     headers: {
-      Authorization: `Bearer ${TOKEN}`,
+      Authorization: `Bearer ${token}`,
     },
   })
     .then(() => {
@@ -176,10 +191,13 @@ export function printConfig() {
 export const restFileUpload = async (
   formData: FormData,
   update?: string,
-  retries = 3
+  retries = 3,
+  connection: DirectusConnection = getActiveEnvironment()
 ) => {
   const method = update ? "patch" : "post";
-  const url = update ? `${API_URL}/files/${update}` : `${API_URL}/files`;
+  const url = update
+    ? `${connection.url}/files/${update}`
+    : `${connection.url}/files`;
   let lastError;
 
   for (let attempt = 1; attempt <= retries; attempt++) {
@@ -192,7 +210,7 @@ export const restFileUpload = async (
 
       const { data } = await axios[method](url, formData, {
         headers: {
-          Authorization: `Bearer ${TOKEN}`,
+          Authorization: `Bearer ${connection.token}`,
           "Content-Type": "multipart/form-data",
         },
         timeout: 60000, // 60 seconds timeout
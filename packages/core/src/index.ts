@@ -7,7 +7,26 @@ export { RolesManager } from "./roles";
 export { SettingsManager } from "./settings";
 export { FilesManager } from "./files";
 export { SchemaManager } from "./schema";
+export { DashboardsManager } from "./dashboards";
+export { PresetsManager } from "./presets";
+export { TranslationsManager } from "./translations";
+export { ExtensionsManager } from "./extensions";
+export { UsersManager } from "./users";
+export { DataManager } from "./data";
 export { AuditManager } from "./audit";
+export type { SchemaDiffReport } from "./utils/schemaChanges";
+export type {
+  ImportAction,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+export {
+  resolveEnvironment,
+  type DataCollectionConfig,
+  type DctEnvironment,
+  type ServiceUsersConfig,
+} from "./utils/environments";
 
 export function getVersion() {
   return pkg.version;
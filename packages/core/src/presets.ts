@@ -0,0 +1,441 @@
+import {
+  createPreset,
+  deletePresets,
+  readPresets,
+  readRoles,
+  readUsers,
+  updatePreset,
+} from "@directus/sdk";
+import { writeFileSync, readFileSync, existsSync } from "fs";
+import { ensureConfigDirs } from "./helper";
+import _ from "lodash";
+import {
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import {
+  addImportAction,
+  changedValues,
+  createImportPlan,
+  UNCHANGED,
+} from "./utils/importPlan";
+
+interface DirectusPreset {
+  id?: number;
+  bookmark: string | null;
+  /** User id on the instance, user email in presets.json */
+  user: string | null;
+  role: string | null;
+  collection: string;
+  [key: string]: any;
+}
+
+interface PresetsImportPlan {
+  create: DirectusPreset[];
+  update: { id: number; preset: DirectusPreset }[];
+  delete: DirectusPreset[];
+}
+
+/**
+ * Stable key for a preset. Preset ids are auto-incremented per environment,
+ * so presets are matched on their scope, collection and bookmark name.
+ * Per-user presets are scoped by email, see withUserEmails.
+ */
+function presetKey(preset: DirectusPreset): string {
+  const scope = preset.user
+    ? `user:${preset.user}`
+    : preset.role
+    ? `role:${preset.role}`
+    : "global";
+  return `${scope}/${preset.collection}/${preset.bookmark ?? ""}`;
+}
+
+function presetLabel(preset: DirectusPreset): string {
+  return preset.bookmark
+    ? `${preset.collection} "${preset.bookmark}"`
+    : `${preset.collection} layout`;
+}
+
+/**
+ * Manager for collection presets and bookmarks (directus_presets).
+ * Global and role presets are managed by default; per-user presets are only
+ * exported and imported when explicitly included.
+ */
+export class PresetsManager extends BaseConfigManager<DirectusPreset> {
+  protected readonly configType = "presets";
+  protected readonly defaultFilename = "presets.json";
+
+  constructor(options: ManagerOptions = {}) {
+    // Preset ids are environment specific
+    const fieldConfig: FieldExclusionConfig = {
+      excludeFields: ["id"],
+    };
+
+    super(fieldConfig, options);
+    this.initializeConfigPath();
+  }
+
+  protected async fetchRemoteData(
+    includeUserPresets = false
+  ): Promise<DirectusPreset[]> {
+    const presets = await this.client.request(
+      readPresets({
+        limit: -1,
+        ...(includeUserPresets ? {} : { filter: { user: { _null: true } } }),
+      })
+    );
+    return this.withUserEmails(presets as DirectusPreset[]);
+  }
+
+  /**
+   * Replace user ids with user emails. User ids differ per environment,
+   * while users are matched by email everywhere (see UsersManager).
+   */
+  private async withUserEmails(
+    presets: DirectusPreset[]
+  ): Promise<DirectusPreset[]> {
+    const ids = _.uniq(presets.map((p) => p.user).filter(Boolean));
+    if (ids.length === 0) return presets;
+    const users = await this.client.request(
+      readUsers({
+        filter: { id: { _in: ids } },
+        fields: ["id", "email"],
+        limit: -1,
+      })
+    );
+    const emails = new Map(users.map((u) => [u.id, u.email]));
+    return presets.map((preset) =>
+      preset.user && emails.get(preset.user)
+        ? { ...preset, user: emails.get(preset.user)! }
+        : preset
+    );
+  }
+
+  /**
+   * Read presets.json, leaving out per-user presets unless included
+   */
+  private readLocalPresets(includeUserPresets = false): DirectusPreset[] {
+    const presets: DirectusPreset[] = JSON.parse(
+      readFileSync(this.configPath, "utf8")
+    );
+    return includeUserPresets ? presets : presets.filter((p) => !p.user);
+  }
+
+  // Drift only covers global and role presets
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    return {
+      presets: this.keyItems(
+        this.normalizeItems(this.readLocalPresets()),
+        presetKey
+      ),
+    };
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return {
+      presets: this.keyItems(
+        this.normalizeItems(await this.fetchRemoteData()),
+        presetKey
+      ),
+    };
+  }
+
+  public async exportConfig(includeUserPresets = false): Promise<void> {
+    ensureConfigDirs(this.configDir);
+
+    try {
+      const presets = await this.fetchRemoteData(includeUserPresets);
+      const normalizedPresets = _.sortBy(
+        this.normalizeItems(presets),
+        presetKey
+      );
+
+      writeFileSync(
+        this.configPath,
+        JSON.stringify(normalizedPresets, null, 2)
+      );
+
+      const snapshotFile = await this.storeEnhancedSnapshot(presets);
+      await this.auditManager.log({
+        operation: "export",
+        manager: "PresetsManager",
+        itemType: "presets",
+        status: "success",
+        message: `Exported ${presets.length} presets${
+          includeUserPresets ? " including per-user presets" : ""
+        }`,
+        snapshotFile,
+      });
+
+      console.log(
+        `${presets.length} presets exported to ${this.configPath}${
+          includeUserPresets ? "" : " (per-user presets skipped)"
+        }`
+      );
+    } catch (error) {
+      console.error("Error exporting presets:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map role ids in the local presets to the target environment through
+   * the id mapper, which also pairs the Public role
+   */
+  private async remapRoles(
+    presets: DirectusPreset[]
+  ): Promise<{ presets: DirectusPreset[]; missingRoles: Set<string> }> {
+    await this.registerSpecialRoles();
+    const existingRoles = await this.client.request(readRoles({ limit: -1 }));
+    const existingRoleIds = new Set(existingRoles.map((r) => r.id));
+
+    const remapped = presets.map((preset) =>
+      this.idMapper.remap(preset, { role: "roles" })
+    );
+    const missingRoles = new Set(
+      remapped
+        .map((preset) => preset.role)
+        .filter((role): role is string => !!role && !existingRoleIds.has(role))
+    );
+    return { presets: remapped, missingRoles };
+  }
+
+  /**
+   * Target users of per-user presets, by the email in presets.json. Files
+   * exported before users were stored by email hold user ids, which are
+   * only found when they are the same on the target.
+   */
+  private async fetchTargetUsers(
+    presets: DirectusPreset[]
+  ): Promise<Map<string, { id: string; email: string }>> {
+    const values = _.uniq(presets.map((p) => p.user).filter(Boolean));
+    const [emails, ids] = _.partition(values, (value) => value!.includes("@"));
+    const users = [
+      ...(emails.length > 0
+        ? await this.client.request(
+            readUsers({
+              filter: { email: { _in: emails } },
+              fields: ["id", "email"],
+              limit: -1,
+            })
+          )
+        : []),
+      ...(ids.length > 0
+        ? await this.client.request(
+            readUsers({
+              filter: { id: { _in: ids } },
+              fields: ["id", "email"],
+              limit: -1,
+            })
+          )
+        : []),
+    ];
+    const byValue = new Map<string, { id: string; email: string }>();
+    for (const user of users as { id: string; email: string }[]) {
+      byValue.set(user.email, user);
+      byValue.set(user.id, user);
+    }
+    return byValue;
+  }
+
+  /**
+   * Diff local presets against the remote, recording every decision in the
+   * structured import plan. Remote presets in the managed scope that are
+   * missing locally are deleted.
+   */
+  private async planImport(
+    localPresets: DirectusPreset[],
+    remotePresets: DirectusPreset[],
+    importPlan: ImportPlan
+  ): Promise<PresetsImportPlan> {
+    const { presets, missingRoles } = await this.remapRoles(localPresets);
+    const targetUsers = await this.fetchTargetUsers(presets);
+    const plan: PresetsImportPlan = { create: [], update: [], delete: [] };
+
+    // Only the first remote preset per key is kept, the others are deleted
+    const remoteByKey = new Map<string, DirectusPreset>();
+    const remoteDuplicates: DirectusPreset[] = [];
+    for (const preset of remotePresets) {
+      const key = presetKey(preset);
+      if (remoteByKey.has(key)) {
+        remoteDuplicates.push(preset);
+      } else {
+        remoteByKey.set(key, preset);
+      }
+    }
+
+    const localKeys = new Set<string>();
+    for (const localPreset of presets) {
+      const user = localPreset.user
+        ? targetUsers.get(localPreset.user)
+        : undefined;
+      const preset = user ? { ...localPreset, user: user.email } : localPreset;
+      const key = presetKey(preset);
+      const base = { itemType: "presets", id: key, name: presetLabel(preset) };
+      if (preset.role && missingRoles.has(preset.role)) {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: `role ${preset.role} does not exist on the target`,
+        });
+        continue;
+      }
+      if (preset.user && !user) {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: `user ${preset.user} does not exist on the target`,
+        });
+        continue;
+      }
+      if (localKeys.has(key)) {
+        console.warn(
+          `⚠️  Several presets for ${presetLabel(
+            preset
+          )} in the same scope, keeping the first`
+        );
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: "duplicate of another preset with the same scope and name",
+        });
+        continue;
+      }
+      localKeys.add(key);
+      // Requests take the user id on the target
+      const payload = user ? { ...preset, user: user.id } : preset;
+
+      const existing = remoteByKey.get(key);
+      if (!existing) {
+        plan.create.push(payload);
+        addImportAction(importPlan, {
+          ...base,
+          action: "create",
+          after: preset,
+        });
+        continue;
+      }
+
+      const changes = changedValues(this.normalizeItem(existing), preset);
+      if (Object.keys(changes.after).length > 0) {
+        plan.update.push({ id: existing.id!, preset: payload });
+        addImportAction(importPlan, { ...base, action: "update", ...changes });
+      } else {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: UNCHANGED,
+        });
+      }
+    }
+
+    for (const preset of remotePresets) {
+      const key = presetKey(preset);
+      if (!localKeys.has(key) || remoteDuplicates.includes(preset)) {
+        plan.delete.push(preset);
+        addImportAction(importPlan, {
+          itemType: "presets",
+          id: key,
+          name: presetLabel(preset),
+          action: "delete",
+          before: this.normalizeItem(preset),
+        });
+      }
+    }
+
+    return plan;
+  }
+
+  private async applyImportPlan(plan: PresetsImportPlan) {
+    for (const preset of plan.create) {
+      console.log(`Creating preset: ${presetLabel(preset)}`);
+      await this.client.request(createPreset(preset as any));
+    }
+
+    for (const { id, preset } of plan.update) {
+      console.log(`Updating preset: ${presetLabel(preset)}`);
+      await this.client.request(updatePreset(id, preset as any));
+    }
+
+    if (plan.delete.length > 0) {
+      console.log(`Deleting ${plan.delete.length} presets`);
+      await this.client.request(deletePresets(plan.delete.map((p) => p.id!)));
+    }
+  }
+
+  public async importConfig(
+    dryRun = false,
+    includeUserPresets = false
+  ): Promise<ImportResult> {
+    try {
+      // Config directories exported before presets were supported
+      if (!existsSync(this.configPath)) {
+        console.log(`No ${this.configPath} found, skipping presets`);
+        return {
+          status: "success",
+          message: "No presets.json found, nothing to import.",
+          plan: createImportPlan("presets", dryRun),
+        };
+      }
+      const localPresets = this.normalizeItems(
+        this.readLocalPresets(includeUserPresets)
+      );
+      const remotePresets = await this.fetchRemoteData(includeUserPresets);
+
+      const importPlan = createImportPlan("presets", dryRun);
+      const plan = await this.planImport(
+        localPresets,
+        remotePresets,
+        importPlan
+      );
+      console.log(
+        `${dryRun ? "[Dry Run] " : ""}Presets: ${
+          plan.create.length
+        } to create, ${plan.update.length} to update, ${
+          plan.delete.length
+        } to delete`
+      );
+
+      const result = await this.auditManager.auditImportOperation(
+        "presets",
+        "PresetsManager",
+        { presets: localPresets },
+        async () => ({
+          presets: this.normalizeItems(
+            await this.fetchRemoteData(includeUserPresets)
+          ),
+        }),
+        async () => {
+          await this.applyImportPlan(plan);
+          return {
+            status: "success",
+            message: `Reconciled ${localPresets.length} presets`,
+          };
+        },
+        dryRun
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+
+      return {
+        status: "success",
+        message: "Presets imported successfully.",
+        plan: importPlan,
+      };
+    } catch (error: any) {
+      return { status: "failure", message: error.message };
+    }
+  }
+
+  // Wrapper methods for backward compatibility with the command system
+  exportPresets = (includeUserPresets?: boolean) =>
+    this.exportConfig(includeUserPresets);
+  importPresets = (dryRun?: boolean, includeUserPresets?: boolean) =>
+    this.importConfig(dryRun, includeUserPresets);
+}
@@ -10,18 +10,33 @@ import {
   readPolicies,
   readRole,
   readRoles,
+  updatePermission,
   updatePolicy,
   updateRole,
 } from "@directus/sdk";
 import { writeFileSync, readFileSync } from "fs";
 import _ from "lodash";
+import { ensureConfigDirs, retryOperation } from "./helper";
 import {
-  callDirectusAPI,
-  client,
-  ensureConfigDirs,
-  retryOperation,
-} from "./helper";
-import { BaseConfigManager, FieldExclusionConfig } from "./base-config-manager";
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import {
+  addImportAction,
+  changedValues,
+  createImportPlan,
+  UNCHANGED,
+} from "./utils/importPlan";
+import {
+  findPublicRole,
+  mapSpecialRoles,
+  matchByName,
+  MatchBy,
+} from "./utils/idMap";
 
 interface DirectusRole {
   id: string;
@@ -37,6 +52,10 @@ interface DirectusRole {
   [key: string]: any;
 }
 
+// Permission rules compared and patched on import; a permission's identity
+// is its policy, collection and action
+const PERMISSION_RULES = ["permissions", "validation", "presets", "fields"];
+
 /**
  * Find the Public policy in a list of policies
  * In Directus, the Public policy has special translation key '$t:public_label'
@@ -45,28 +64,6 @@ export function findPublicPolicy(policies: any[]): any | undefined {
   return policies.find((policy) => policy.name === "$t:public_label");
 }
 
-/**
- * Find the Public role in a list of roles
- * In Directus, while Public is mainly a policy, there might still be a role named "Public"
- * This is for backward compatibility with existing code
- */
-export function findPublicRole(
-  roles: Record<string, any>[]
-): Record<string, any> | undefined {
-  // Look for role with public characteristics
-  return roles.find((role) => {
-    // Check if name contains "Public" (case insensitive) or has special translation key
-    const isPublicName =
-      role.name?.toLowerCase().includes("public") ||
-      role.name?.startsWith("$t:public");
-
-    // Public role often has specific characteristics, like an icon "public"
-    const hasPublicIcon = role.icon === "public";
-
-    return isPublicName || hasPublicIcon;
-  });
-}
-
 interface Defaults {
   defaultRole: string;
   adminRoleIds: string[];
@@ -84,13 +81,13 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
   private accessPath: string;
   private permissionsPath: string;
 
-  constructor() {
+  constructor(options: ManagerOptions = {}) {
     // Roles have specific field handling requirements
     const fieldConfig: FieldExclusionConfig = {
       emptyRelationFields: ["policies", "users"], // Many-to-many relationships
     };
 
-    super(fieldConfig);
+    super(fieldConfig, options);
     this.initializeConfigPath();
     this.policiesPath = this.configPath.replace("roles.json", "policies.json");
     this.accessPath = this.configPath.replace("roles.json", "access.json");
@@ -157,7 +154,7 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
   }
 
   private async exportRolesData(defaults: Defaults) {
-    const roles = await client.request(readRoles());
+    const roles = await this.client.request(readRoles({ limit: -1 }));
 
     // Filter out admin roles and default role
     const rolesToExclude = [...defaults.adminRoleIds];
@@ -190,7 +187,7 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
   }
 
   private async exportPoliciesData(defaults: Defaults) {
-    const policies = await client.request(readPolicies());
+    const policies = await this.client.request(readPolicies({ limit: -1 }));
     const filteredPolicies = policies.filter(
       (p) => !defaults.defaultPolicy.includes(p.id)
     );
@@ -201,8 +198,8 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
   }
 
   private async exportAccessData(defaults: Defaults) {
-    const access = await callDirectusAPI<Record<string, any>[]>(
-      "access?filter[user][_null]=true",
+    const access = await this.callAPI<Record<string, any>[]>(
+      "access?filter[user][_null]=true&limit=-1",
       "GET"
     );
     const filteredAccess = access.filter(
@@ -293,7 +290,7 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
   }
 
   exportRoles = async () => {
-    ensureConfigDirs();
+    ensureConfigDirs(this.configDir);
     try {
       const defaults = await this.retrieveDefaults();
       await this.exportRolesData(defaults);
@@ -315,40 +312,87 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
   };
 
   /**
-   * Handle role mapping specially for roles like Public that may have different IDs
-   * between environments but need to be treated as the same role
+   * Pair local roles and policies with target ones of another id in the id
+   * mapper: pairs recorded by earlier imports, the Public role and, when
+   * matching by name, roles and policies with the same name. New pairs are
+   * recorded so later imports keep updating the same items.
    */
-  private mapSpecialRoles(
-    incomingRoles: Record<string, any>[],
-    existingRoles: Record<string, any>[]
-  ): Map<string, string> {
-    const roleMap = new Map<string, string>();
-
-    // Handle Public role mapping
-    const incomingPublicRole = findPublicRole(incomingRoles);
-    const existingPublicRole = findPublicRole(existingRoles);
-
-    if (
-      incomingPublicRole &&
-      existingPublicRole &&
-      incomingPublicRole.id !== existingPublicRole.id
-    ) {
-      console.log(
-        `Mapping Public role: ${incomingPublicRole.id} -> ${existingPublicRole.id}`
+  private async resolveIdMaps(matchBy: MatchBy, dryRun = false) {
+    const incomingRoles = JSON.parse(readFileSync(this.configPath, "utf8"));
+    const incomingPolicies = JSON.parse(
+      readFileSync(this.policiesPath, "utf8")
+    );
+    const existingRoles = await this.client.request(readRoles({ limit: -1 }));
+    const existingPolicies = await this.client.request(
+      readPolicies({ limit: -1 })
+    );
+
+    // Recorded pairs still apply while the local id is missing on the
+    // target and the target id still exists
+    const currentPairs = (
+      itemType: "roles" | "policies",
+      local: Record<string, any>[],
+      remote: Record<string, any>[]
+    ) =>
+      new Map(
+        [...this.idMapper.pairs(itemType)].filter(
+          ([from, to]) =>
+            local.some((item) => item.id === from) &&
+            !remote.some((item) => item.id === from) &&
+            remote.some((item) => item.id === to)
+        )
+      );
+
+    this.idMapper.replace(
+      "roles",
+      new Map([
+        ...currentPairs("roles", incomingRoles, existingRoles),
+        ...mapSpecialRoles(incomingRoles, existingRoles),
+      ])
+    );
+    this.idMapper.replace(
+      "policies",
+      currentPairs("policies", incomingPolicies, existingPolicies)
+    );
+    if (matchBy === "name") {
+      this.idMapper.replace(
+        "roles",
+        matchByName(
+          incomingRoles,
+          existingRoles,
+          this.idMapper.pairs("roles"),
+          "roles"
+        )
+      );
+      this.idMapper.replace(
+        "policies",
+        matchByName(
+          incomingPolicies,
+          existingPolicies,
+          this.idMapper.pairs("policies"),
+          "policies"
+        )
       );
-      roleMap.set(incomingPublicRole.id, existingPublicRole.id);
     }
 
-    return roleMap;
+    if (!dryRun) {
+      this.idMapper.save();
+    }
   }
 
-  private async handleImportRoles() {
+  private async handleImportRoles(plan: ImportPlan, dryRun = false) {
+    const prefix = dryRun ? "[Dry Run] " : "";
     const defaults = await this.retrieveDefaults();
-    const incomingRoles = JSON.parse(readFileSync(this.configPath, "utf8"));
-    const existingRoles = await client.request(readRoles());
-
-    // Map special roles (like Public) that may have different IDs between environments
-    const roleIdMap = this.mapSpecialRoles(incomingRoles, existingRoles);
+    // Use the target ids of roles paired with a differently-id'd role
+    const incomingRoles = JSON.parse(readFileSync(this.configPath, "utf8")).map(
+      (role: Record<string, any>) =>
+        this.idMapper.remap(role, {
+          id: "roles",
+          parent: "roles",
+          children: "roles",
+        })
+    );
+    const existingRoles = await this.client.request(readRoles({ limit: -1 }));
 
     // Prepare roles like during export
     const preparedIncomingRoles = this.prepareRoles(incomingRoles);
@@ -369,19 +413,22 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
 
     for (const role of incomingRoles) {
       try {
-        // Check if this role is mapped to an existing role with a different ID
-        const targetRoleId = roleIdMap.get(role.id) || role.id;
-
         // Skip if this is an admin role we're trying to import
         const isAdminRole = defaults.adminRoleIds.includes(role.id);
         if (isAdminRole) {
           console.log(`Skipping admin role: ${role.name} (${role.id})`);
+          addImportAction(plan, {
+            action: "skip",
+            itemType: "roles",
+            id: role.id,
+            name: role.name,
+            reason: "admin role",
+          });
           stats.skipped++;
           continue;
         }
 
-        // Look for existing role by target ID
-        const existingRole = existingRoles.find((r) => r.id === targetRoleId);
+        const existingRole = existingRoles.find((r) => r.id === role.id);
 
         if (existingRole) {
           // Compare prepared versions
@@ -393,21 +440,41 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
           );
 
           if (!_.isEqual(preparedExisting, preparedIncoming)) {
-            console.log(`Updating role: ${role.name} (${role.id})`);
-            await client.request(
-              updateRole(targetRoleId, {
-                ...role,
-                id: targetRoleId, // Ensure we're updating with the mapped ID if applicable
-              })
-            );
+            console.log(`${prefix}Updating role: ${role.name} (${role.id})`);
+            if (!dryRun) {
+              await this.client.request(updateRole(role.id, role));
+            }
+            addImportAction(plan, {
+              action: "update",
+              itemType: "roles",
+              id: role.id,
+              name: role.name,
+              ...changedValues(preparedExisting, preparedIncoming),
+            });
             stats.updated++;
           } else {
             console.log(`Role unchanged, skipping: ${role.name} (${role.id})`);
+            addImportAction(plan, {
+              action: "skip",
+              itemType: "roles",
+              id: role.id,
+              name: role.name,
+              reason: UNCHANGED,
+            });
             stats.skipped++;
           }
         } else {
-          console.log(`Creating new role: ${role.name} (${role.id})`);
-          await client.request(createRole(role));
+          console.log(`${prefix}Creating new role: ${role.name} (${role.id})`);
+          if (!dryRun) {
+            await this.client.request(createRole(role));
+          }
+          addImportAction(plan, {
+            action: "create",
+            itemType: "roles",
+            id: role.id,
+            name: role.name,
+            after: role,
+          });
           stats.created++;
         }
       } catch (error: any) {
@@ -431,30 +498,46 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       // Skip admin roles and default roles
       const isAdmin = defaults.adminRoleIds.includes(r.id);
       const isDefault = r.id === defaults.defaultRole;
-      // Skip roles that are targets in the mapping
-      const isMappedRole = Array.from(roleIdMap.values()).includes(r.id);
 
-      return !isAdmin && !isDefault && !isMappedRole;
+      return !isAdmin && !isDefault;
     });
 
     if (rolesToDelete.length) {
       console.log(
-        `Removing ${rolesToDelete.length} roles that are not in source:`
+        `${prefix}Removing ${rolesToDelete.length} roles that are not in source:`
       );
       rolesToDelete.forEach((r) => console.log(`- ${r.name} (${r.id})`));
 
-      await client.request(deleteRoles(rolesToDelete.map((r) => r.id)));
+      if (!dryRun) {
+        await this.client.request(deleteRoles(rolesToDelete.map((r) => r.id)));
+      }
+      this.prepareRoles(rolesToDelete).forEach((r) =>
+        addImportAction(plan, {
+          action: "delete",
+          itemType: "roles",
+          id: r.id,
+          name: r.name,
+          before: r,
+        })
+      );
     } else {
       console.log("No roles to delete");
     }
+
+    return stats.errors;
   }
 
-  private async handleImportPolicies() {
+  private async handleImportPolicies(plan: ImportPlan, dryRun = false) {
+    const prefix = dryRun ? "[Dry Run] " : "";
     const defaults = await this.retrieveDefaults();
     const incomingPolicies = JSON.parse(
       readFileSync(this.policiesPath, "utf8")
+    ).map((policy: Record<string, any>) =>
+      this.idMapper.remap(policy, { id: "policies" })
+    );
+    const existingPolicies = await this.client.request(
+      readPolicies({ limit: -1 })
     );
-    const existingPolicies = await client.request(readPolicies());
 
     // Filter and prepare policies using the same transformations as in export
     const preparedIncomingPolicies = this.preparePolicies(incomingPolicies);
@@ -489,6 +572,13 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
           console.log(
             `Skipping system/admin policy: ${policy.name} (${policy.id})`
           );
+          addImportAction(plan, {
+            action: "skip",
+            itemType: "policies",
+            id: policy.id,
+            name: policy.name,
+            reason: "system or admin policy",
+          });
           stats.skipped++;
           continue;
         }
@@ -505,18 +595,47 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
           );
 
           if (!_.isEqual(preparedExisting, preparedIncoming)) {
-            console.log(`Updating policy: ${policy.name} (${policy.id})`);
-            await client.request(updatePolicy(policy.id, policy));
+            console.log(
+              `${prefix}Updating policy: ${policy.name} (${policy.id})`
+            );
+            if (!dryRun) {
+              await this.client.request(updatePolicy(policy.id, policy));
+            }
+            addImportAction(plan, {
+              action: "update",
+              itemType: "policies",
+              id: policy.id,
+              name: policy.name,
+              ...changedValues(preparedExisting, preparedIncoming),
+            });
             stats.updated++;
           } else {
             console.log(
               `Policy unchanged, skipping: ${policy.name} (${policy.id})`
             );
+            addImportAction(plan, {
+              action: "skip",
+              itemType: "policies",
+              id: policy.id,
+              name: policy.name,
+              reason: UNCHANGED,
+            });
             stats.skipped++;
           }
         } else {
-          console.log(`Creating new policy: ${policy.name} (${policy.id})`);
-          await client.request(createPolicy(policy));
+          console.log(
+            `${prefix}Creating new policy: ${policy.name} (${policy.id})`
+          );
+          if (!dryRun) {
+            await this.client.request(createPolicy(policy));
+          }
+          addImportAction(plan, {
+            action: "create",
+            itemType: "policies",
+            id: policy.id,
+            name: policy.name,
+            after: policy,
+          });
           stats.created++;
         }
       } catch (error: any) {
@@ -547,12 +666,25 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
 
     if (policiesToDelete.length) {
       console.log(
-        `Removing ${policiesToDelete.length} policies that are not in source:`
+        `${prefix}Removing ${policiesToDelete.length} policies that are not in source:`
       );
       policiesToDelete.forEach((p) => console.log(`- ${p.name} (${p.id})`));
 
       try {
-        await client.request(deletePolicies(policiesToDelete.map((p) => p.id)));
+        if (!dryRun) {
+          await this.client.request(
+            deletePolicies(policiesToDelete.map((p) => p.id))
+          );
+        }
+        this.preparePolicies(policiesToDelete).forEach((p) =>
+          addImportAction(plan, {
+            action: "delete",
+            itemType: "policies",
+            id: p.id,
+            name: p.name,
+            before: p,
+          })
+        );
       } catch (error) {
         console.error("Error deleting policies:", error);
         stats.errors++;
@@ -560,20 +692,20 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
     } else {
       console.log("No policies to delete");
     }
+
+    return stats.errors;
   }
 
-  private async handleImportAccess() {
+  private async handleImportAccess(plan: ImportPlan, dryRun = false) {
+    const prefix = dryRun ? "[Dry Run] " : "";
     const defaults = await this.retrieveDefaults();
     const incomingAccess = JSON.parse(readFileSync(this.accessPath, "utf8"));
-    const existingAccess = await callDirectusAPI<Record<string, any>[]>(
-      "access?filter[user][_null]=true",
+    const existingAccess = await this.callAPI<Record<string, any>[]>(
+      "access?filter[user][_null]=true&limit=-1",
       "GET"
     );
 
-    // Get role ID mappings (for Public role etc.)
-    const existingRoles = await client.request(readRoles());
-    const incomingRoles = JSON.parse(readFileSync(this.configPath, "utf8"));
-    const roleIdMap = this.mapSpecialRoles(incomingRoles, existingRoles);
+    const existingRoles = await this.client.request(readRoles({ limit: -1 }));
 
     console.log(
       `Processing ${incomingAccess.length} access entries for import`
@@ -588,20 +720,26 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       errors: 0,
     };
 
-    // Process each access entry with role mapping if needed
+    // Point access entries at paired roles and policies, and pair entries
+    // missing on the target with the target entry linking the same role
+    // and policy
+    const existingIds = new Set(existingAccess.map((a) => a.id));
     const processedIncomingAccess = incomingAccess.map(
       (access: Record<string, any>) => {
-        if (access.role && roleIdMap.has(access.role)) {
-          const mappedRoleId = roleIdMap.get(access.role);
-          console.log(
-            `Mapping access entry role ID: ${access.role} -> ${mappedRoleId}`
-          );
-          return {
-            ...access,
-            role: mappedRoleId,
-          };
-        }
-        return access;
+        const remapped = this.idMapper.remap(access, {
+          role: "roles",
+          policy: "policies",
+        });
+        if (existingIds.has(remapped.id)) return remapped;
+
+        const sameLink = existingAccess.find(
+          (a) =>
+            !a.user &&
+            a.role === remapped.role &&
+            a.policy === remapped.policy &&
+            !incomingAccess.some((i: Record<string, any>) => i.id === a.id)
+        );
+        return sameLink ? { ...remapped, id: sameLink.id } : remapped;
       }
     );
 
@@ -620,6 +758,12 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
         // Skip default access entries
         if (defaults.defaultAccess.includes(access.id)) {
           console.log(`Skipping default access entry: ${access.id}`);
+          addImportAction(plan, {
+            action: "skip",
+            itemType: "access",
+            id: access.id,
+            reason: "default access entry",
+          });
           stats.skipped++;
           continue;
         }
@@ -636,16 +780,38 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
           );
 
           if (!_.isEqual(preparedExisting, preparedIncoming)) {
-            console.log(`Updating access entry: ${access.id}`);
-            await callDirectusAPI(`access/${access.id}`, "PATCH", access);
+            console.log(`${prefix}Updating access entry: ${access.id}`);
+            if (!dryRun) {
+              await this.callAPI(`access/${access.id}`, "PATCH", access);
+            }
+            addImportAction(plan, {
+              action: "update",
+              itemType: "access",
+              id: access.id,
+              ...changedValues(preparedExisting, preparedIncoming),
+            });
             stats.updated++;
           } else {
             console.log(`Access entry unchanged, skipping: ${access.id}`);
+            addImportAction(plan, {
+              action: "skip",
+              itemType: "access",
+              id: access.id,
+              reason: UNCHANGED,
+            });
             stats.skipped++;
           }
         } else {
-          console.log(`Creating new access entry: ${access.id}`);
-          await callDirectusAPI("access", "POST", access);
+          console.log(`${prefix}Creating new access entry: ${access.id}`);
+          if (!dryRun) {
+            await this.callAPI("access", "POST", access);
+          }
+          addImportAction(plan, {
+            action: "create",
+            itemType: "access",
+            id: access.id,
+            after: access,
+          });
           stats.created++;
         }
       } catch (error: any) {
@@ -682,7 +848,7 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
 
     if (accessToDelete.length) {
       console.log(
-        `Removing ${accessToDelete.length} access entries that are not in source`
+        `${prefix}Removing ${accessToDelete.length} access entries that are not in source`
       );
       accessToDelete.forEach((a) => {
         // Format a readable description of what's being deleted
@@ -694,10 +860,20 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       });
 
       try {
-        await callDirectusAPI(
-          "access",
-          "DELETE",
-          accessToDelete.map((a) => a.id)
+        if (!dryRun) {
+          await this.callAPI(
+            "access",
+            "DELETE",
+            accessToDelete.map((a) => a.id)
+          );
+        }
+        accessToDelete.forEach((a) =>
+          addImportAction(plan, {
+            action: "delete",
+            itemType: "access",
+            id: a.id,
+            before: a,
+          })
         );
         stats.deleted = accessToDelete.length;
       } catch (error: any) {
@@ -711,48 +887,36 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
     console.log(
       `Access import complete: ${stats.created} created, ${stats.updated} updated, ${stats.skipped} skipped, ${stats.deleted} deleted, ${stats.errors} errors`
     );
+
+    return stats.errors;
   }
 
   /**
-   * Create a unique key for a permission that can be used for comparison
-   * instead of the auto-incremented ID
+   * Identify a permission by its policy, collection and action. Permission
+   * ids are auto-incremented, so they differ between environments.
    */
   private getPermissionKey(permission: Record<string, any>): string {
-    const { collection, action, policy, role } = permission;
-    let identifier = [
-      collection || "null",
-      action || "null",
-      policy || "null",
-      role || "null",
-    ].join("_");
-
-    // Add hash of permissions object if it exists for more accuracy
-    if (permission.permissions) {
-      const permissionsStr = JSON.stringify(permission.permissions);
-      identifier += "_" + this.hashString(permissionsStr);
-    }
-
-    return identifier;
+    return `${permission.policy}:${permission.collection}:${permission.action}`;
   }
 
   /**
-   * Simple hash function for strings
+   * The rules of a permission that an import applies. Missing rules compare
+   * as null and `fields` is sorted since its order has no meaning.
    */
-  private hashString(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return hash.toString(16); // Convert to hex
+  private comparablePermission(permission: Record<string, any>) {
+    return _.fromPairs(
+      PERMISSION_RULES.map((rule) => {
+        const value = permission[rule] ?? null;
+        return [
+          rule,
+          rule === "fields" && Array.isArray(value) ? [...value].sort() : value,
+        ];
+      })
+    );
   }
 
-  private async handleImportPermissions() {
-    // Get role ID mappings in case we have special roles
-    const existingRoles = await client.request(readRoles());
-    const incomingRoles = JSON.parse(readFileSync(this.configPath, "utf8"));
-    const roleIdMap = this.mapSpecialRoles(incomingRoles, existingRoles);
+  private async handleImportPermissions(plan: ImportPlan, dryRun = false) {
+    const prefix = dryRun ? "[Dry Run] " : "";
 
     const sourcePermissions: Record<string, any>[] = JSON.parse(
       readFileSync(this.permissionsPath, "utf8")
@@ -763,53 +927,104 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       `Processing ${sourcePermissions.length} permissions for import`
     );
 
-    // Map permissions by our custom key for better comparison
+    // Map permissions by policy, collection and action
     const sourcePermissionsByKey = new Map<string, Record<string, any>>();
     const incomingPermissionsByKey = new Map<string, Record<string, any>>();
 
-    // Process source permissions and map role IDs if needed
-    const processedSourcePermissions = sourcePermissions.map((permission) => {
-      // Check if this permission references a role that's been mapped
-      if (permission.role && roleIdMap.has(permission.role)) {
-        return {
-          ...permission,
-          role: roleIdMap.get(permission.role),
-        };
-      }
-      return permission;
-    });
+    // Point source permissions at paired policies and roles
+    const processedSourcePermissions = sourcePermissions.map((permission) =>
+      this.idMapper.remap(permission, { policy: "policies", role: "roles" })
+    );
+
+    const permissionLabel = (permission: Record<string, any>) =>
+      `${permission.collection}:${permission.action}`;
 
     // Build lookup maps
     processedSourcePermissions.forEach((p) => {
-      sourcePermissionsByKey.set(this.getPermissionKey(p), p);
+      const key = this.getPermissionKey(p);
+      if (sourcePermissionsByKey.has(key)) {
+        console.warn(
+          `Duplicate permission ${permissionLabel(p)} for policy ${
+            p.policy
+          } in permissions.json, using the last one`
+        );
+      }
+      sourcePermissionsByKey.set(key, p);
     });
 
+    // Directus allows several permissions for the same policy, collection
+    // and action; only the first one is kept in sync, the others are
+    // reported and left for a person to resolve
+    const duplicatePermissions: Record<string, any>[] = [];
     incomingPermissions.forEach((p) => {
-      incomingPermissionsByKey.set(this.getPermissionKey(p), p);
+      const key = this.getPermissionKey(p);
+      if (incomingPermissionsByKey.has(key)) {
+        duplicatePermissions.push(p);
+      } else {
+        incomingPermissionsByKey.set(key, p);
+      }
     });
 
     // Track stats for reporting
     const stats = {
       created: 0,
+      updated: 0,
+      skipped: 0,
       deleted: 0,
       errors: 0,
     };
 
+    if (duplicatePermissions.length) {
+      console.warn(
+        `Found ${duplicatePermissions.length} duplicate permissions on the target, leaving them untouched:`
+      );
+    }
+    duplicatePermissions.forEach((permission) => {
+      const kept = incomingPermissionsByKey.get(
+        this.getPermissionKey(permission)
+      )!;
+      console.warn(
+        `- ${permissionLabel(permission)} for policy ${permission.policy} (${
+          permission.id
+        }), duplicate of ${kept.id}`
+      );
+      addImportAction(plan, {
+        action: "skip",
+        itemType: "permissions",
+        id: String(permission.id),
+        name: permissionLabel(permission),
+        reason: `duplicate of permission ${kept.id}, remove one of them on the target`,
+      });
+    });
+
     // Delete permissions that exist in destination but not in source
-    const permissionsToDelete = [];
+    const permissionsToDelete: Record<string, any>[] = [];
 
     for (const [key, permission] of incomingPermissionsByKey.entries()) {
       if (!sourcePermissionsByKey.has(key)) {
-        permissionsToDelete.push(permission.id);
+        permissionsToDelete.push(permission);
       }
     }
 
     if (permissionsToDelete.length) {
       console.log(
-        `Deleting ${permissionsToDelete.length} permissions that are not in source`
+        `${prefix}Deleting ${permissionsToDelete.length} permissions that are not in source`
       );
       try {
-        await client.request(deletePermissions(permissionsToDelete));
+        if (!dryRun) {
+          await this.client.request(
+            deletePermissions(permissionsToDelete.map((p) => p.id))
+          );
+        }
+        permissionsToDelete.forEach((permission) =>
+          addImportAction(plan, {
+            action: "delete",
+            itemType: "permissions",
+            id: String(permission.id),
+            name: permissionLabel(permission),
+            before: _.omit(permission, ["id"]),
+          })
+        );
         stats.deleted = permissionsToDelete.length;
       } catch (error) {
         console.error("Error deleting permissions:", error);
@@ -817,13 +1032,25 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       }
     }
 
-    // Create permissions that exist in source but not in destination
+    // Create missing permissions and update changed ones in place so their
+    // ids stay stable
     for (const [key, permission] of sourcePermissionsByKey.entries()) {
-      if (!incomingPermissionsByKey.has(key)) {
+      const existing = incomingPermissionsByKey.get(key);
+
+      if (!existing) {
         try {
           // Omit ID when creating new permissions as they are auto-incremented
           const permissionToCreate = _.omit(permission, ["id"]);
-          await client.request(createPermission(permissionToCreate));
+          if (!dryRun) {
+            await this.client.request(createPermission(permissionToCreate));
+          }
+          addImportAction(plan, {
+            action: "create",
+            itemType: "permissions",
+            id: key,
+            name: permissionLabel(permission),
+            after: permissionToCreate,
+          });
           stats.created++;
         } catch (error: any) {
           console.error(
@@ -831,12 +1058,52 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
           );
           stats.errors++;
         }
+        continue;
+      }
+
+      const changes = changedValues(
+        this.comparablePermission(existing),
+        this.comparablePermission(permission)
+      );
+      if (_.isEmpty(changes.after)) {
+        addImportAction(plan, {
+          action: "skip",
+          itemType: "permissions",
+          id: String(existing.id),
+          name: permissionLabel(permission),
+          reason: UNCHANGED,
+        });
+        stats.skipped++;
+        continue;
+      }
+
+      try {
+        if (!dryRun) {
+          await this.client.request(
+            updatePermission(existing.id, changes.after)
+          );
+        }
+        addImportAction(plan, {
+          action: "update",
+          itemType: "permissions",
+          id: String(existing.id),
+          name: permissionLabel(permission),
+          ...changes,
+        });
+        stats.updated++;
+      } catch (error: any) {
+        console.error(
+          `Error updating permission for ${permission.collection}/${permission.action}: ${error.message}`
+        );
+        stats.errors++;
       }
     }
 
     console.log(
-      `Permission import complete: ${stats.created} created, ${stats.deleted} deleted, ${stats.errors} errors`
+      `${prefix}Permission import complete: ${stats.created} created, ${stats.updated} updated, ${stats.skipped} skipped, ${stats.deleted} deleted, ${stats.errors} errors`
     );
+
+    return stats.errors;
   }
 
   normalizeRole(role: any) {
@@ -897,7 +1164,7 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
     const defaults = await this.retrieveDefaults();
 
     // Get and filter roles the same way as in exportRolesData()
-    const allRoles = await client.request(readRoles());
+    const allRoles = await this.client.request(readRoles({ limit: -1 }));
     const rolesToExclude = [...defaults.adminRoleIds];
     if (defaults.defaultRole) {
       rolesToExclude.push(defaults.defaultRole);
@@ -909,7 +1176,7 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
     const filteredRoles = this.prepareRoles(normalizedRoles);
 
     // Get and filter policies the same way as in exportPoliciesData()
-    const allPolicies = await client.request(readPolicies());
+    const allPolicies = await this.client.request(readPolicies({ limit: -1 }));
     const normalizedPolicies = allPolicies
       .filter((p) => !defaults.defaultPolicy.includes(p.id))
       .map((p) => this.normalizePolicy(p));
@@ -917,8 +1184,8 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
     const filteredPolicies = this.preparePolicies(normalizedPolicies);
 
     // Get and filter access the same way as in exportAccessData()
-    const allAccess = await callDirectusAPI<Record<string, any>[]>(
-      "access?filter[user][_null]=true",
+    const allAccess = await this.callAPI<Record<string, any>[]>(
+      "access?filter[user][_null]=true&limit=-1",
       "GET"
     );
     const filteredAccess = Array.isArray(allAccess)
@@ -938,7 +1205,33 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
     };
   }
 
-  private async auditImport(dryRun = false) {
+  /**
+   * Reconcile roles, policies, access and permissions in dependency order,
+   * recording every action in the plan. Nothing is written on a dry run.
+   */
+  private async handleImport(
+    plan: ImportPlan,
+    dryRun = false,
+    matchBy: MatchBy = "id"
+  ): Promise<number> {
+    await this.resolveIdMaps(matchBy, dryRun);
+    // Each step reports how many of its items failed
+    let errors = await this.handleImportRoles(plan, dryRun);
+    errors += await this.handleImportPolicies(plan, dryRun);
+    errors += await this.handleImportAccess(plan, dryRun);
+    errors += await this.handleImportPermissions(plan, dryRun);
+    return errors;
+  }
+
+  private importErrorsMessage(errors: number) {
+    return `${errors} roles, policies, access entries or permissions failed to import, see the errors above`;
+  }
+
+  /**
+   * Read the local roles, policies, access and permissions files, normalized
+   * with the same transformations as during export
+   */
+  private readLocalRolesAndRelated() {
     // Read local data
     const localRolesRaw = JSON.parse(readFileSync(this.configPath, "utf8"));
     const localPoliciesRaw = JSON.parse(
@@ -969,13 +1262,44 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       ? localPermissionsRaw
       : [];
 
-    // Create a normalized local data object
-    const normalizedLocalData = {
+    return {
       roles: localRoles,
       policies: localPolicies,
       access: localAccess,
       permissions: localPermissions,
     };
+  }
+
+  /**
+   * Key permissions by policy, collection and action since their ids are
+   * not exported
+   */
+  private toDriftState(data: Record<string, Record<string, any>[]>) {
+    return {
+      roles: this.keyItems(data.roles),
+      policies: this.keyItems(data.policies),
+      access: this.keyItems(data.access),
+      permissions: this.keyItems(data.permissions, (p) =>
+        this.getPermissionKey(p)
+      ),
+    };
+  }
+
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    return this.toDriftState(this.readLocalRolesAndRelated());
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return this.toDriftState(await this.fetchRemoteRolesAndRelated());
+  }
+
+  private async auditImport(
+    plan: ImportPlan,
+    dryRun = false,
+    matchBy: MatchBy = "id"
+  ) {
+    const normalizedLocalData = this.readLocalRolesAndRelated();
 
     // Wrap remote fetch to normalize remote data the same way
     const fetchAndNormalizeRemote = async () => {
@@ -989,16 +1313,19 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       };
     };
 
-    await this.auditManager.auditImportOperation(
+    return await this.auditManager.auditImportOperation(
       "roles",
       "RolesManager",
       normalizedLocalData,
       fetchAndNormalizeRemote,
       async () => {
-        await this.handleImportRoles();
-        await this.handleImportPolicies();
-        await this.handleImportAccess();
-        await this.handleImportPermissions();
+        const errors = await this.handleImport(plan, false, matchBy);
+        if (errors > 0) {
+          return {
+            status: "failure",
+            message: this.importErrorsMessage(errors),
+          };
+        }
         return {
           status: "success",
           message:
@@ -1009,27 +1336,20 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
     );
   }
 
-  importRoles = async (dryRun = false) => {
-    await this.auditImport(dryRun);
-    if (!dryRun) {
-      console.log(
-        "Roles, policies, access and permissions imported successfully."
-      );
-    } else {
-      console.log("[Dry Run] Import preview complete. No changes applied.");
-    }
-  };
+  // Legacy method name for backward compatibility
+  importRoles = (dryRun?: boolean, matchBy?: MatchBy) =>
+    this.importConfig(dryRun, matchBy);
 
   // --- Add/restore retrieveDefaults and retrievePermissions as arrow functions ---
   private retrieveDefaults = async () => {
-    const user = await client.request(readMe());
-    const defaultRole = await client.request(readRole(user.role));
-    const rolesList = await client.request(readRoles());
-    const adminPolicyList = await client.request(
-      readPolicies({ filter: { admin_access: { _eq: true } } })
+    const user = await this.client.request(readMe());
+    const defaultRole = await this.client.request(readRole(user.role));
+    const rolesList = await this.client.request(readRoles({ limit: -1 }));
+    const adminPolicyList = await this.client.request(
+      readPolicies({ filter: { admin_access: { _eq: true } }, limit: -1 })
     );
-    const accessEntries = await callDirectusAPI<Record<string, any>[]>(
-      "access?filter[user][_null]=true",
+    const accessEntries = await this.callAPI<Record<string, any>[]>(
+      "access?filter[user][_null]=true&limit=-1",
       "GET"
     );
     let adminRoleIds = new Set<string>();
@@ -1047,14 +1367,14 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       }
     });
     let adminRoles = rolesList.filter((r) => adminRoleIds.has(r.id));
-    const defaultAccess = await callDirectusAPI<Record<string, any>[]>(
+    const defaultAccess = await this.callAPI<Record<string, any>[]>(
       `access?filter=${encodeURIComponent(
         JSON.stringify({ id: { _in: defaultRole.policies } })
       )}`,
       "GET"
     );
-    const systemPolicies = await client.request(
-      readPolicies({ filter: { name: { _starts_with: "$" } } })
+    const systemPolicies = await this.client.request(
+      readPolicies({ filter: { name: { _starts_with: "$" } }, limit: -1 })
     );
     const allDefaultPolicies = [
       ...defaultAccess.map((p) => p.policy),
@@ -1062,7 +1382,7 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
       ...systemPolicies.map((p) => p.id),
     ];
     const uniqueDefaultPolicies = [...new Set(allDefaultPolicies)];
-    const allPolicies = await client.request(readPolicies());
+    const allPolicies = await this.client.request(readPolicies({ limit: -1 }));
     const publicPolicy = findPublicPolicy(allPolicies);
     const publicRole = findPublicRole(rolesList);
     return {
@@ -1078,8 +1398,8 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
   private retrievePermissions = async (omitId = true) => {
     const permissions = await retryOperation(
       async () => {
-        return client.request(
-          readPermissions({ filter: { id: { _nnull: true } } })
+        return this.client.request(
+          readPermissions({ filter: { id: { _nnull: true } }, limit: -1 })
         );
       },
       3,
@@ -1091,7 +1411,7 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
   };
 
   protected async fetchRemoteData(): Promise<DirectusRole[]> {
-    const roles = await client.request(readRoles());
+    const roles = await this.client.request(readRoles({ limit: -1 }));
     return roles.map((role) => this.normalizeItem(role as DirectusRole));
   }
 
@@ -1099,14 +1419,42 @@ export class RolesManager extends BaseConfigManager<DirectusRole> {
     return this.exportRoles();
   }
 
+  /**
+   * Import roles, policies, access and permissions
+   * @param matchBy Pair roles and policies missing on the target by name
+   */
   public async importConfig(
-    dryRun = false
-  ): Promise<{ status: "success" | "failure"; message?: string }> {
+    dryRun = false,
+    matchBy: MatchBy = "id"
+  ): Promise<ImportResult> {
+    // Created outside the try, so a failed import still reports what it
+    // planned
+    const plan = createImportPlan("roles", dryRun);
     try {
-      await this.importRoles(dryRun);
-      return { status: "success", message: "Roles imported successfully." };
+      if (dryRun) {
+        const errors = await this.handleImport(plan, true, matchBy);
+        if (errors > 0) {
+          throw new Error(this.importErrorsMessage(errors));
+        }
+      }
+      const result = await this.auditImport(plan, dryRun, matchBy);
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+      if (!dryRun) {
+        console.log(
+          "Roles, policies, access and permissions imported successfully."
+        );
+      } else {
+        console.log("[Dry Run] Import preview complete. No changes applied.");
+      }
+      return {
+        status: "success",
+        message: "Roles imported successfully.",
+        plan,
+      };
     } catch (error: any) {
-      return { status: "failure", message: error.message };
+      return { status: "failure", message: error.message, plan };
     }
   }
 }
@@ -1,8 +1,39 @@
-import { schemaApply, schemaDiff, schemaSnapshot } from "@directus/sdk";
-import { writeFileSync, readFileSync } from "fs";
-import { client, ensureConfigDirs, callDirectusAPI } from "./helper";
+import {
+  schemaApply,
+  schemaDiff,
+  schemaSnapshot,
+  SchemaSnapshotOutput,
+} from "@directus/sdk";
+import { writeFileSync, existsSync, rmSync } from "fs";
+import { ensureConfigDirs } from "./helper";
 import _ from "lodash";
-import { BaseConfigManager, FieldExclusionConfig } from "./base-config-manager";
+import {
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import { addImportAction, createImportPlan } from "./utils/importPlan";
+import {
+  buildSchemaDiffReport,
+  classifySchemaDiff,
+  formatSchemaDiffReport,
+  printSchemaChangeSummary,
+  SchemaDiffReport,
+} from "./utils/schemaChanges";
+import {
+  findCrossingRelations,
+  mergeSchemaSnapshots,
+  printCrossingRelations,
+} from "./utils/schemaFilter";
+import {
+  hasSplitSchema,
+  readSchemaSnapshot,
+  SPLIT_SCHEMA_DIR,
+  writeSplitSchema,
+} from "./utils/schemaLayout";
 
 interface DirectusSchema {
   collections?: any[];
@@ -11,20 +42,50 @@ interface DirectusSchema {
   [key: string]: any;
 }
 
+/**
+ * A single deep-diff change as returned by /schema/diff
+ */
+export interface SchemaDiffChange {
+  /** N = new, D = deleted, E = edited, A = array change */
+  kind: "N" | "D" | "E" | "A";
+  path?: (string | number)[];
+  lhs?: any;
+  rhs?: any;
+  index?: number;
+  item?: SchemaDiffChange;
+}
+
+/**
+ * Response of /schema/diff (empty when the schemas match)
+ */
+export interface SchemaDiff {
+  hash: string;
+  diff: {
+    collections: { collection: string; diff: SchemaDiffChange[] }[];
+    fields: { collection: string; field: string; diff: SchemaDiffChange[] }[];
+    relations: {
+      collection: string;
+      field: string;
+      related_collection: string | null;
+      diff: SchemaDiffChange[];
+    }[];
+  };
+}
+
 export class SchemaManager extends BaseConfigManager<DirectusSchema> {
   protected readonly configType = "schema";
   protected readonly defaultFilename = "schema.json";
 
-  constructor() {
+  constructor(options: ManagerOptions = {}) {
     // Schema typically doesn't need field exclusions
     const fieldConfig: FieldExclusionConfig = {};
 
-    super(fieldConfig);
+    super(fieldConfig, options);
     this.initializeConfigPath();
   }
 
   protected async fetchRemoteData(): Promise<DirectusSchema[]> {
-    const snapshot = await client.request(schemaSnapshot());
+    const snapshot = await this.client.request(schemaSnapshot());
     // Schema is a single object, but we wrap it in an array for consistency with BaseConfigManager
     return [snapshot];
   }
@@ -43,30 +104,84 @@ export class SchemaManager extends BaseConfigManager<DirectusSchema> {
     });
   }
 
-  public async exportConfig(): Promise<void> {
-    ensureConfigDirs();
+  /**
+   * Read the exported schema from schema.json or the split layout
+   */
+  private readLocalSchema(): DirectusSchema {
+    const schema = readSchemaSnapshot(this.configDir);
+    if (!schema) {
+      throw new Error(
+        `No schema config found in ${this.configDir} (schema.json or ${SPLIT_SCHEMA_DIR}/meta.json), run an export first`
+      );
+    }
+    return schema;
+  }
+
+  protected assertLocalConfig() {
+    this.readLocalSchema();
+  }
+
+  /**
+   * Export the remote schema. With collection patterns only the matching
+   * collections, their fields and relations are replaced in schema.json.
+   * With `split`, or when the config already uses it, the schema is written
+   * as schema/meta.json plus one schema/collections/<name>.json per collection.
+   */
+  public async exportConfig(
+    collections?: string[],
+    split = false
+  ): Promise<void> {
+    ensureConfigDirs(this.configDir);
     try {
       const schemas = await this.fetchRemoteData();
-      const schema = schemas[0]; // Schema is always a single object
+      let schema = schemas[0]; // Schema is always a single object
 
-      writeFileSync(this.configPath, JSON.stringify(schema, null, 2));
+      if (collections?.length) {
+        printCrossingRelations(
+          findCrossingRelations(schema, collections),
+          collections
+        );
+        schema = mergeSchemaSnapshots(
+          readSchemaSnapshot(this.configDir) ?? schema,
+          schema,
+          collections
+        );
+      }
+
+      if (split || hasSplitSchema(this.configDir)) {
+        writeSplitSchema(this.configDir, schema);
+        // A leftover schema.json would no longer match the split files
+        if (existsSync(this.configPath)) {
+          rmSync(this.configPath);
+        }
+        console.log(
+          `Schema exported to ${this.configDir}/${SPLIT_SCHEMA_DIR}/ (split layout)`
+        );
+      } else {
+        writeFileSync(this.configPath, JSON.stringify(schema, null, 2));
+        console.log(`Schema exported to ${this.configPath}`);
+      }
       await this.auditExport(schema);
-      console.log(`Schema exported to ${this.configPath}`);
     } catch (error) {
       console.error("Error exporting schema:", error);
       throw error;
     }
   }
 
-  private async auditImport(dryRun = false, force = false) {
-    const localSchema = JSON.parse(readFileSync(this.configPath, "utf8"));
-    await this.auditManager.auditImportOperation(
+  private async auditImport(
+    localSchema: DirectusSchema,
+    diffSchema: SchemaDiff | undefined,
+    dryRun = false,
+    force = false,
+    allowDestructive = false
+  ) {
+    return await this.auditManager.auditImportOperation(
       "schema",
       "SchemaManager",
       localSchema,
       async () => await this.fetchRemoteSchema(),
       async () => {
-        await this.handleImporSchema(force);
+        await this.handleImporSchema(diffSchema, force, allowDestructive);
         return {
           status: "success",
           message: "Schema imported successfully.",
@@ -76,76 +191,268 @@ export class SchemaManager extends BaseConfigManager<DirectusSchema> {
     );
   }
 
+  /**
+   * Import schema.json. With collection patterns only the matching
+   * collections, their fields and relations are taken from schema.json;
+   * everything else is left as it is on the remote.
+   */
   public async importConfig(
     dryRun = false,
-    force = false
-  ): Promise<{ status: "success" | "failure"; message?: string }> {
+    force = false,
+    allowDestructive = false,
+    collections?: string[]
+  ): Promise<ImportResult> {
     try {
-      await this.auditImport(dryRun, force);
+      const localSchema = await this.resolveTargetSchema(collections);
+      const diffSchema = await this.fetchSchemaDiff(localSchema, force);
+      const plan = this.describeSchemaDiff(diffSchema, dryRun);
+
+      const changes = classifySchemaDiff(diffSchema);
+      printSchemaChangeSummary(changes);
+      if (dryRun) {
+        formatSchemaDiffReport(buildSchemaDiffReport(diffSchema)).forEach(
+          (line) => console.log(line)
+        );
+      }
+      if (dryRun && !allowDestructive && changes.some((c) => c.destructive)) {
+        console.log(
+          "[Dry Run] The destructive changes above would be refused without --allow-destructive."
+        );
+      }
+
+      const result = await this.auditImport(
+        localSchema,
+        diffSchema,
+        dryRun,
+        force,
+        allowDestructive
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
       if (!dryRun) {
         console.log("Schema imported successfully.");
       } else {
         console.log("[Dry Run] Import preview complete. No changes applied.");
       }
-      return { status: "success", message: "Schema imported successfully." };
+      return {
+        status: "success",
+        message: "Schema imported successfully.",
+        plan,
+      };
     } catch (error: any) {
       console.error("Error importing schema:", error);
       return { status: "failure", message: error.message };
     }
   }
 
+  /**
+   * Readable report of what importing schema.json would change on the remote
+   */
+  public async getDiffReport(force = false): Promise<SchemaDiffReport> {
+    return buildSchemaDiffReport(
+      await this.fetchSchemaDiff(this.readLocalSchema(), force)
+    );
+  }
+
   // Legacy method names for backward compatibility
-  exportSchema = () => this.exportConfig();
-  importSchema = (dryRun?: boolean, force?: boolean) => this.importConfig(dryRun, force);
+  exportSchema = (collections?: string[], split?: boolean) =>
+    this.exportConfig(collections, split);
+  importSchema = (
+    dryRun?: boolean,
+    force?: boolean,
+    allowDestructive?: boolean,
+    collections?: string[]
+  ) => this.importConfig(dryRun, force, allowDestructive, collections);
 
-  private async handleImporSchema(force = false) {
-    try {
-      const vcSchema = JSON.parse(readFileSync(this.configPath, "utf8"));
+  /**
+   * The snapshot the remote should end up with: schema.json, or with
+   * collection patterns the remote schema with the matching collections
+   * taken from schema.json
+   */
+  private async resolveTargetSchema(
+    collections?: string[]
+  ): Promise<DirectusSchema> {
+    const localSchema = this.readLocalSchema();
+    if (!collections?.length) return localSchema;
+
+    printCrossingRelations(
+      findCrossingRelations(localSchema, collections),
+      collections
+    );
+    const remoteSchema = (await this.fetchRemoteData())[0];
+    return mergeSchemaSnapshots(remoteSchema, localSchema, collections);
+  }
 
+  /**
+   * Ask Directus for the changes that bring the remote schema in line with a snapshot
+   */
+  private async fetchSchemaDiff(
+    vcSchema: DirectusSchema,
+    force = false
+  ): Promise<SchemaDiff | undefined> {
+    try {
       console.log("Checking schema differences...");
-      // check schema differences
-      let diffSchema: any;
       if (force) {
         // When force is enabled, use axios to get diff with force query parameter
-        diffSchema = await callDirectusAPI("schema/diff?force=true", "POST", vcSchema);
+        return await this.callAPI<SchemaDiff>(
+          "schema/diff?force=true",
+          "POST",
+          vcSchema
+        );
+      }
+      return (await this.client.request(
+        schemaDiff(vcSchema as SchemaSnapshotOutput)
+      )) as SchemaDiff | undefined;
+    } catch (error: any) {
+      this.reportRequestError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn a schema diff into an import plan with one action per collection,
+   * field and relation. Deep-diff paths are flattened into dotted keys.
+   */
+  private describeSchemaDiff(
+    diffSchema: SchemaDiff | undefined,
+    dryRun: boolean
+  ): ImportPlan {
+    const plan = createImportPlan("schema", dryRun);
+    if (_.isEmpty(diffSchema)) return plan;
+
+    const entries: {
+      itemType: string;
+      id: string;
+      diff: SchemaDiffChange[];
+    }[] = [
+      ...(diffSchema!.diff.collections ?? []).map((c) => ({
+        itemType: "collections",
+        id: c.collection,
+        diff: c.diff,
+      })),
+      ...(diffSchema!.diff.fields ?? []).map((f) => ({
+        itemType: "fields",
+        id: `${f.collection}.${f.field}`,
+        diff: f.diff,
+      })),
+      ...(diffSchema!.diff.relations ?? []).map((r) => ({
+        itemType: "relations",
+        id: `${r.collection}.${r.field}`,
+        diff: r.diff,
+      })),
+    ];
+
+    for (const { itemType, id, diff } of entries) {
+      // A change without a path applies to the whole item
+      const whole = diff.find((change) => !change.path);
+      if (whole?.kind === "N") {
+        addImportAction(plan, {
+          action: "create",
+          itemType,
+          id,
+          after: whole.rhs,
+        });
+      } else if (whole?.kind === "D") {
+        addImportAction(plan, {
+          action: "delete",
+          itemType,
+          id,
+          before: whole.lhs,
+        });
       } else {
-        diffSchema = await client.request(schemaDiff(vcSchema));
+        const before: Record<string, any> = {};
+        const after: Record<string, any> = {};
+        for (const change of diff) {
+          const key = (change.path ?? []).join(".");
+          if (change.kind === "A") {
+            before[`${key}[${change.index}]`] = change.item?.lhs;
+            after[`${key}[${change.index}]`] = change.item?.rhs;
+          } else {
+            before[key] = change.lhs;
+            after[key] = change.rhs;
+          }
+        }
+        addImportAction(plan, {
+          action: "update",
+          itemType,
+          id,
+          before,
+          after,
+        });
       }
+    }
+
+    return plan;
+  }
 
+  /**
+   * Apply a schema diff. Diffs that delete collections or fields, or change
+   * fields in ways that lose data, are refused unless explicitly allowed.
+   */
+  private async handleImporSchema(
+    diffSchema: SchemaDiff | undefined,
+    force = false,
+    allowDestructive = false
+  ) {
+    try {
       if (_.isEmpty(diffSchema)) {
         console.log("No schema differences found.");
         return;
       }
 
+      const destructive = classifySchemaDiff(diffSchema).filter(
+        (change) => change.destructive
+      );
+      if (destructive.length > 0 && !allowDestructive) {
+        throw new Error(
+          `Refusing to apply ${destructive.length} destructive schema changes (${destructive
+            .map((change) => change.id)
+            .join(", ")}). Review the summary above and pass --allow-destructive to apply them.`
+        );
+      }
+      if (destructive.length > 0) {
+        console.log(
+          `Applying ${destructive.length} destructive schema changes (--allow-destructive).`
+        );
+      }
+
       console.log("Applying schema differences...");
       if (force) {
         console.log("Using --force flag to bypass version and vendor checks.");
         // When force is enabled, use axios to apply schema with force query parameter
-        await callDirectusAPI("schema/apply?force=true", "POST", diffSchema);
+        await this.callAPI("schema/apply?force=true", "POST", diffSchema);
       } else {
         // Normal schema apply without force
-        await client.request(schemaApply(diffSchema));
+        await this.client.request(schemaApply(diffSchema));
       }
     } catch (error: any) {
-      // Handle connection errors with detailed messages
-      if (
-        error.message?.includes("ECONNREFUSED") ||
-        error.code === "ECONNREFUSED"
-      ) {
-        console.error(
-          `Connection refused - check that the Directus server is running at ${
-            process.env.DCT_API_URL || "http://localhost:8055"
-          }`
-        );
-      } else if (error.response?.status === 403) {
-        console.error(
-          "Permission denied - check that your token has proper permissions"
-        );
-      }
+      this.reportRequestError(error);
       throw error;
     }
   }
 
+  /**
+   * Print hints for connection and permission errors
+   */
+  private reportRequestError(error: any) {
+    // Handle connection errors with detailed messages
+    if (
+      error.message?.includes("ECONNREFUSED") ||
+      error.code === "ECONNREFUSED"
+    ) {
+      console.error(
+        `Connection refused - check that the Directus server is running at ${
+          this.connection.url
+        }`
+      );
+    } else if (error.response?.status === 403) {
+      console.error(
+        "Permission denied - check that your token has proper permissions"
+      );
+    }
+  }
+
   normalizeSchemaItem(item: any) {
     // Nullify user_created and any other environment-specific fields
     const i = { ...item };
@@ -155,7 +462,7 @@ export class SchemaManager extends BaseConfigManager<DirectusSchema> {
 
   private async fetchRemoteSchema() {
     // You may need to adjust this if schema is more complex
-    const schema = await client.request(schemaSnapshot());
+    const schema = await this.client.request(schemaSnapshot());
     // If schema is an object with collections/fields arrays, normalize each
     if (schema.collections)
       schema.collections = schema.collections.map((c: any) =>
@@ -167,4 +474,36 @@ export class SchemaManager extends BaseConfigManager<DirectusSchema> {
       );
     return schema;
   }
+
+  /**
+   * Key collections, fields and relations individually so drift is reported
+   * per item rather than for the snapshot as a whole
+   */
+  private toDriftState(schema: DirectusSchema): DriftState {
+    const normalize = (items: any[] = []) =>
+      items.map((item) => this.normalizeSchemaItem(item));
+    return {
+      collections: this.keyItems(
+        normalize(schema.collections),
+        (c) => c.collection
+      ),
+      fields: this.keyItems(
+        normalize(schema.fields),
+        (f) => `${f.collection}.${f.field}`
+      ),
+      relations: this.keyItems(
+        normalize(schema.relations),
+        (r) => `${r.collection}.${r.field}`
+      ),
+    };
+  }
+
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    return this.toDriftState(this.readLocalSchema());
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return this.toDriftState(await this.fetchRemoteSchema());
+  }
 }
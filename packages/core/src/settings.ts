@@ -1,22 +1,25 @@
 import { join } from "path";
-import { client, ensureConfigDirs } from "./helper";
-import {
-  readRole,
-  readSettings,
-  updateSettings,
-  readRoles,
-} from "@directus/sdk";
+import { ensureConfigDirs } from "./helper";
+import { readRole, readSettings, updateSettings } from "@directus/sdk";
 import { readFileSync, writeFileSync } from "fs";
-import { findPublicRole } from "./roles";
+import _ from "lodash";
 import { v4 as uuidv4 } from "uuid";
-import { BaseConfigManager, FieldExclusionConfig } from "./base-config-manager";
+import {
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import {
+  addImportAction,
+  changedValues,
+  createImportPlan,
+  UNCHANGED,
+} from "./utils/importPlan";
 import { ConfigType } from "./types/generic";
-
-interface Role {
-  id: string;
-  name?: string;
-  icon?: string;
-}
+import { IdMapType } from "./utils/idMap";
 
 interface DirectusSettings {
   id?: string;
@@ -97,6 +100,16 @@ const FOREIGN_KEY_FIELDS = [
   "public_favicon",
 ];
 
+// Settings holding ids of items whose ids may differ between environments
+const ID_FIELDS: Record<string, IdMapType> = {
+  project_logo: "files",
+  public_foreground: "files",
+  public_background: "files",
+  public_favicon: "files",
+  storage_default_folder: "folders",
+  public_registration_role: "roles",
+};
+
 // Define additional fields supported by the API but not in the SDK types
 const UNSUPPORTED_FIELDS = [
   "public_registration",
@@ -110,18 +123,18 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
   protected readonly configType = "settings";
   protected readonly defaultFilename = "settings.json";
 
-  constructor() {
+  constructor(options: ManagerOptions = {}) {
     // Settings typically exclude ID field for export/import
     const fieldConfig: FieldExclusionConfig = {
       excludeFields: ["id"],
     };
 
-    super(fieldConfig);
+    super(fieldConfig, options);
     this.initializeConfigPath();
   }
 
   protected async fetchRemoteData(): Promise<DirectusSettings[]> {
-    const settings = await client.request(readSettings());
+    const settings = await this.client.request(readSettings());
     // Settings is a single object, but we wrap it in an array for consistency
     return [settings];
   }
@@ -139,7 +152,7 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
   }
 
   public async exportConfig(): Promise<void> {
-    ensureConfigDirs();
+    ensureConfigDirs(this.configDir);
 
     try {
       const settingsArray = await this.fetchRemoteData();
@@ -175,7 +188,7 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
 
     try {
       // Use callDirectusAPI to check if role exists
-      const role = await client.request(readRole(roleId));
+      const role = await this.client.request(readRole(roleId));
 
       return !!role;
     } catch (error: any) {
@@ -192,9 +205,20 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
     }
   }
 
+  /**
+   * Read settings.json with file, folder and role ids mapped to the target
+   */
+  private async readMappedSettings(): Promise<Record<string, any>> {
+    await this.registerSpecialRoles();
+    return this.idMapper.remap(
+      JSON.parse(readFileSync(this.configPath, "utf8")),
+      ID_FIELDS
+    );
+  }
+
   private async auditImport(dryRun = false) {
     const localSettings = JSON.parse(readFileSync(this.configPath, "utf8"));
-    await this.auditManager.auditImportOperation(
+    return await this.auditManager.auditImportOperation(
       "settings",
       "SettingsManager",
       localSettings,
@@ -210,17 +234,69 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
     );
   }
 
-  public async importConfig(
-    dryRun = false
-  ): Promise<{ status: "success" | "failure"; message?: string }> {
+  /**
+   * Compare settings.json with the remote settings. Settings are a single
+   * item, so the plan holds either one update or one skip.
+   */
+  private async planImport(dryRun: boolean): Promise<ImportPlan> {
+    const plan = createImportPlan("settings", dryRun);
+    const remoteSettings = await this.client.request(readSettings());
+    if (remoteSettings.id === null) {
+      addImportAction(plan, {
+        action: "skip",
+        itemType: "settings",
+        id: "settings",
+        reason: "settings have not been initialized on the remote",
+      });
+      return plan;
+    }
+
+    // Only fields the import writes can change
+    const localSettings = _.pick(await this.readMappedSettings(), [
+      ...SDK_SUPPORTED_FIELDS,
+      ...UNSUPPORTED_FIELDS,
+    ]);
+    const { before, after } = changedValues(
+      _.pick(remoteSettings, Object.keys(localSettings)),
+      localSettings
+    );
+    addImportAction(
+      plan,
+      _.isEmpty(after)
+        ? {
+            action: "skip",
+            itemType: "settings",
+            id: "settings",
+            reason: UNCHANGED,
+          }
+        : {
+            action: "update",
+            itemType: "settings",
+            id: "settings",
+            before,
+            after,
+          }
+    );
+    return plan;
+  }
+
+  public async importConfig(dryRun = false): Promise<ImportResult> {
     try {
-      await this.auditImport(dryRun);
+      const plan = await this.planImport(dryRun);
+      const result = await this.auditImport(dryRun);
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
       if (!dryRun) {
         console.log("Settings import completed successfully.");
       } else {
         console.log("[Dry Run] Import preview complete. No changes applied.");
       }
-      return { status: "success", message: "Settings imported successfully." };
+      return {
+        status: "success",
+        message: "Settings imported successfully.",
+        plan,
+      };
     } catch (error: any) {
       console.error("Error importing settings:", error);
       return { status: "failure", message: error.message };
@@ -233,7 +309,7 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
   private async handleImportSettings() {
     try {
       console.log("Importing settings...");
-      const destinationSettings = await client.request(readSettings());
+      const destinationSettings = await this.client.request(readSettings());
       if (destinationSettings.id === null) {
         return console.warn(
           "Settings have not been initialized yet. Save settings in the Directus admin panel first."
@@ -241,7 +317,7 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
       }
 
       console.log("Reading settings from file...");
-      const settings = JSON.parse(readFileSync(this.configPath, "utf8"));
+      const settings = await this.readMappedSettings();
 
       // Check for references that might cause foreign key constraints
       // Get field lists
@@ -279,7 +355,7 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
 
       // First update all safe settings that don't have foreign key references
       console.log("Updating base settings...");
-      await client.request(updateSettings(safeSettings));
+      await this.client.request(updateSettings(safeSettings));
       console.log("Base settings updated successfully.");
 
       // Handle each foreign key field separately to avoid constraint issues
@@ -292,7 +368,7 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
           try {
             // Safe cast since we've confirmed these fields are in the SDK
             const updateData = { [field]: value } as any;
-            await client.request(updateSettings(updateData));
+            await this.client.request(updateSettings(updateData));
             console.log(`Successfully updated ${field}`);
           } catch (error: any) {
             console.warn(`Failed to update ${field}: ${error.message}`);
@@ -303,63 +379,14 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
       // Handle special case for public_registration_role
       if (extendedSettings.public_registration_role) {
         console.log("Processing public_registration_role via direct API...");
-        let roleId = extendedSettings.public_registration_role;
+        const roleId = extendedSettings.public_registration_role;
 
         try {
-          // First check direct ID match
-          let roleExists = await this.roleExists(roleId);
-
-          // If role doesn't exist by direct ID, check if it might be the Public role with a different ID
-          if (!roleExists) {
-            console.log(
-              `Role ${roleId} not found directly. Checking if this is a Public role...`
-            );
-
-            // Read the source and destination roles to look for Public role mapping
-            try {
-              // Get existing roles in destination
-              const existingRoles = await client.request(readRoles());
-
-              // Read the source roles from file
-              const rolePath = this.configPath.replace(
-                "settings.json",
-                "roles.json"
-              );
-              const incomingRoles = JSON.parse(readFileSync(rolePath, "utf8"));
-
-              // Find the source role that was referenced
-              const sourceRole: Role | undefined = (
-                incomingRoles as Role[]
-              ).find((r: Role) => r.id === roleId);
-
-              if (sourceRole) {
-                // Check if this is a Public role
-                if (
-                  sourceRole.name?.toLowerCase().includes("public") ||
-                  sourceRole.name?.startsWith("$t:public") ||
-                  sourceRole.icon === "public"
-                ) {
-                  // Find equivalent Public role in destination
-                  const destPublicRole = findPublicRole(existingRoles);
-
-                  if (destPublicRole) {
-                    console.log(
-                      `Found matching Public role in destination: ${destPublicRole.name} (${destPublicRole.id})`
-                    );
-                    roleId = destPublicRole.id;
-                    roleExists = true;
-                  }
-                }
-              }
-            } catch (e) {
-              console.warn("Failed to perform advanced role mapping:", e);
-              // Continue with original roleId
-            }
-          }
+          const roleExists = await this.roleExists(roleId);
 
           if (roleExists) {
             // Use direct API call instead of SDK for unsupported fields
-            await client.request({
+            await this.client.request({
               method: "PATCH",
               path: "/settings",
               body: {
@@ -389,7 +416,7 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
         console.log("Processing other extended fields via direct API...");
 
         try {
-          await client.request({
+          await this.client.request({
             method: "PATCH",
             path: "/settings",
             body: otherExtendedFields,
@@ -413,7 +440,18 @@ export class SettingsManager extends BaseConfigManager<DirectusSettings> {
   }
 
   private async fetchRemoteSettings() {
-    const settings = await client.request(readSettings());
+    const settings = await this.client.request(readSettings());
     return this.normalizeSettings(settings);
   }
+
+  // Settings are a single object rather than a list of items
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    const settings = JSON.parse(readFileSync(this.configPath, "utf8"));
+    return { settings: { settings: this.normalizeSettings(settings) } };
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return { settings: { settings: await this.fetchRemoteSettings() } };
+  }
 }
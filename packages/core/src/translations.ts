@@ -0,0 +1,236 @@
+import {
+  createTranslations,
+  readTranslations,
+  updateTranslation,
+} from "@directus/sdk";
+import { writeFileSync, readFileSync, existsSync } from "fs";
+import { ensureConfigDirs } from "./helper";
+import _ from "lodash";
+import {
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import {
+  addImportAction,
+  createImportPlan,
+  UNCHANGED,
+} from "./utils/importPlan";
+
+interface DirectusTranslation {
+  id?: string;
+  language: string;
+  key: string;
+  value: string;
+}
+
+/** translations.json layout: language -> key -> value */
+export type GroupedTranslations = Record<string, Record<string, string>>;
+
+/**
+ * Group translation rows by language, sorting languages and keys so the
+ * exported file diffs cleanly
+ */
+export function groupTranslations(
+  translations: DirectusTranslation[]
+): GroupedTranslations {
+  const grouped: GroupedTranslations = {};
+  for (const t of _.sortBy(translations, ["language", "key"])) {
+    grouped[t.language] = grouped[t.language] ?? {};
+    grouped[t.language][t.key] = t.value;
+  }
+  return grouped;
+}
+
+/**
+ * Flatten grouped translations back into rows
+ */
+export function flattenTranslations(
+  grouped: GroupedTranslations
+): DirectusTranslation[] {
+  return Object.entries(grouped).flatMap(([language, keys]) =>
+    Object.entries(keys).map(([key, value]) => ({ language, key, value }))
+  );
+}
+
+// Translation ids are random UUIDs, so rows are matched on language and key
+const translationKey = (t: DirectusTranslation) => `${t.language}:${t.key}`;
+
+/**
+ * Manager for custom translation strings (directus_translations) used by
+ * `$t:` keys, exported to translations.json grouped by language
+ */
+export class TranslationsManager extends BaseConfigManager<DirectusTranslation> {
+  protected readonly configType = "translations";
+  protected readonly defaultFilename = "translations.json";
+
+  constructor(options: ManagerOptions = {}) {
+    const fieldConfig: FieldExclusionConfig = {
+      excludeFields: ["id"],
+    };
+
+    super(fieldConfig, options);
+    this.initializeConfigPath();
+  }
+
+  protected async fetchRemoteData(): Promise<DirectusTranslation[]> {
+    const translations = await this.client.request(
+      readTranslations({ limit: -1 })
+    );
+    return translations as DirectusTranslation[];
+  }
+
+  private readLocalTranslations(): DirectusTranslation[] {
+    return flattenTranslations(
+      JSON.parse(readFileSync(this.configPath, "utf8"))
+    );
+  }
+
+  public async readLocalState(): Promise<DriftState> {
+    this.assertLocalConfig();
+    return {
+      translations: this.keyItems(this.readLocalTranslations(), translationKey),
+    };
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return {
+      translations: this.keyItems(
+        this.normalizeItems(await this.fetchRemoteData()),
+        translationKey
+      ),
+    };
+  }
+
+  public async exportConfig(): Promise<void> {
+    ensureConfigDirs(this.configDir);
+
+    try {
+      const translations = this.normalizeItems(await this.fetchRemoteData());
+      const grouped = groupTranslations(translations);
+
+      writeFileSync(this.configPath, JSON.stringify(grouped, null, 2));
+
+      const snapshotFile = await this.storeEnhancedSnapshot(translations);
+      await this.auditManager.log({
+        operation: "export",
+        manager: "TranslationsManager",
+        itemType: "translations",
+        status: "success",
+        message: `Exported ${translations.length} translations in ${
+          Object.keys(grouped).length
+        } languages`,
+        snapshotFile,
+      });
+
+      console.log(
+        `${translations.length} translations exported to ${this.configPath}`
+      );
+    } catch (error) {
+      console.error("Error exporting translations:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upsert translations by language and key. Strings that only exist on
+   * the remote are left untouched, so keys created independently in two
+   * environments are merged rather than duplicated.
+   */
+  public async importConfig(dryRun = false): Promise<ImportResult> {
+    try {
+      // Config directories exported before translations were supported
+      if (!existsSync(this.configPath)) {
+        console.log(`No ${this.configPath} found, skipping translations`);
+        return {
+          status: "success",
+          message: "No translations.json found, nothing to import.",
+          plan: createImportPlan("translations", dryRun),
+        };
+      }
+      const localTranslations = this.readLocalTranslations();
+      const remoteTranslations = await this.fetchRemoteData();
+      const remoteByKey = new Map(
+        remoteTranslations.map((t) => [translationKey(t), t])
+      );
+
+      const importPlan = createImportPlan("translations", dryRun);
+      const toCreate: DirectusTranslation[] = [];
+      const toUpdate: { id: string; value: string }[] = [];
+
+      for (const translation of localTranslations) {
+        const key = translationKey(translation);
+        const existing = remoteByKey.get(key);
+        const base = { itemType: "translations", id: key };
+        if (!existing) {
+          toCreate.push(translation);
+          addImportAction(importPlan, {
+            ...base,
+            action: "create",
+            after: translation,
+          });
+        } else if (existing.value !== translation.value) {
+          toUpdate.push({ id: existing.id!, value: translation.value });
+          addImportAction(importPlan, {
+            ...base,
+            action: "update",
+            before: { value: existing.value },
+            after: { value: translation.value },
+          });
+        } else {
+          addImportAction(importPlan, {
+            ...base,
+            action: "skip",
+            reason: UNCHANGED,
+          });
+        }
+      }
+
+      console.log(
+        `${dryRun ? "[Dry Run] " : ""}Translations: ${
+          toCreate.length
+        } to create, ${toUpdate.length} to update`
+      );
+
+      const result = await this.auditManager.auditImportOperation(
+        "translations",
+        "TranslationsManager",
+        groupTranslations(localTranslations),
+        async () =>
+          groupTranslations(this.normalizeItems(await this.fetchRemoteData())),
+        async () => {
+          if (toCreate.length > 0) {
+            await this.client.request(createTranslations(toCreate));
+          }
+          for (const { id, value } of toUpdate) {
+            await this.client.request(updateTranslation(id, { value }));
+          }
+          return {
+            status: "success",
+            message: `Upserted ${
+              toCreate.length + toUpdate.length
+            } translations`,
+          };
+        },
+        dryRun
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+
+      return {
+        status: "success",
+        message: "Translations imported successfully.",
+        plan: importPlan,
+      };
+    } catch (error: any) {
+      return { status: "failure", message: error.message };
+    }
+  }
+
+  // Wrapper methods for backward compatibility with the command system
+  exportTranslations = () => this.exportConfig();
+  importTranslations = (dryRun?: boolean) => this.importConfig(dryRun);
+}
@@ -1 +1,12 @@
-export type ConfigType = "flows" | "roles" | "settings" | "files" | "schema";
+export type ConfigType =
+  | "flows"
+  | "roles"
+  | "settings"
+  | "files"
+  | "schema"
+  | "dashboards"
+  | "presets"
+  | "translations"
+  | "extensions"
+  | "users"
+  | "data";
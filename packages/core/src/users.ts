@@ -0,0 +1,483 @@
+import {
+  createUser,
+  readPolicies,
+  readRoles,
+  readUsers,
+  updateUser,
+} from "@directus/sdk";
+import { randomBytes } from "crypto";
+import { chmodSync, existsSync, writeFileSync, readFileSync } from "fs";
+import { ensureConfigDirs } from "./helper";
+import _ from "lodash";
+import {
+  BaseConfigManager,
+  DriftState,
+  FieldExclusionConfig,
+  ImportPlan,
+  ImportResult,
+  ManagerOptions,
+} from "./base-config-manager";
+import {
+  getServiceUsersConfig,
+  ServiceUsersConfig,
+} from "./utils/environments";
+import {
+  addImportAction,
+  changedValues,
+  createImportPlan,
+  UNCHANGED,
+} from "./utils/importPlan";
+
+interface DirectusUser {
+  id?: string;
+  email: string;
+  role: string | null;
+  /** Policy ids granted to the user through access entries */
+  policies: string[];
+  [key: string]: any;
+}
+
+interface UserAccess {
+  id: string;
+  user: string;
+  policy: string;
+}
+
+interface UsersImportPlan {
+  create: DirectusUser[];
+  update: { id: string; email: string; changes: Partial<DirectusUser> }[];
+  access: {
+    create: { email: string; policy: string }[];
+    delete: UserAccess[];
+  };
+}
+
+/**
+ * Manager for service users: non-human users selected by the `serviceUsers`
+ * filter in dct.config.json. Users are matched by email, exported without
+ * credentials, and static tokens are injected from environment variables.
+ */
+export class UsersManager extends BaseConfigManager<DirectusUser> {
+  protected readonly configType = "users";
+  protected readonly defaultFilename = "users.json";
+
+  private usersConfig?: ServiceUsersConfig;
+
+  constructor(options: ManagerOptions = {}) {
+    // Ids are environment specific and credentials never leave the instance
+    const fieldConfig: FieldExclusionConfig = {
+      excludeFields: [
+        "id",
+        "password",
+        "token",
+        "tfa_secret",
+        "auth_data",
+        "last_access",
+        "last_page",
+        "avatar",
+      ],
+    };
+
+    super(fieldConfig, options);
+    this.initializeConfigPath();
+    this.usersConfig = getServiceUsersConfig();
+  }
+
+  private async fetchUsers(filter: Record<string, any>) {
+    const users = await this.client.request(
+      readUsers({ filter: filter as any, limit: -1 })
+    );
+    return users as DirectusUser[];
+  }
+
+  private async fetchUserAccess(): Promise<UserAccess[]> {
+    return this.callAPI<UserAccess[]>(
+      "access?filter[user][_nnull]=true&limit=-1",
+      "GET"
+    );
+  }
+
+  /**
+   * Replace the access entry ids Directus returns in `policies` with the
+   * policy ids they grant, so users compare across environments
+   */
+  private withPolicies(
+    users: DirectusUser[],
+    access: UserAccess[]
+  ): DirectusUser[] {
+    return users.map((user) => ({
+      ...user,
+      policies: access
+        .filter((entry) => entry.user === user.id)
+        .map((entry) => entry.policy)
+        .sort(),
+    }));
+  }
+
+  protected async fetchRemoteData(): Promise<DirectusUser[]> {
+    if (!this.usersConfig) return [];
+    const users = await this.fetchUsers(this.usersConfig.filter);
+    return this.withPolicies(users, await this.fetchUserAccess());
+  }
+
+  private readLocalUsers(): DirectusUser[] {
+    return JSON.parse(readFileSync(this.configPath, "utf8"));
+  }
+
+  public async readLocalState(): Promise<DriftState> {
+    // Nothing is exported without serviceUsers, so there is nothing to compare
+    if (!this.usersConfig) return { users: {} };
+    this.assertLocalConfig();
+    return {
+      users: this.keyItems(this.readLocalUsers(), (user) => user.email),
+    };
+  }
+
+  public async fetchRemoteState(): Promise<DriftState> {
+    return {
+      users: this.keyItems(
+        this.normalizeItems(await this.fetchRemoteData()),
+        (user) => user.email
+      ),
+    };
+  }
+
+  public async exportConfig(): Promise<void> {
+    if (!this.usersConfig) {
+      console.log("No serviceUsers configured in dct.config.json, skipping");
+      return;
+    }
+    ensureConfigDirs(this.configDir);
+
+    try {
+      const users = _.sortBy(
+        this.normalizeItems(await this.fetchRemoteData()),
+        "email"
+      );
+      writeFileSync(this.configPath, JSON.stringify(users, null, 2));
+
+      const snapshotFile = await this.storeEnhancedSnapshot(users);
+      await this.auditManager.log({
+        operation: "export",
+        manager: "UsersManager",
+        itemType: "users",
+        status: "success",
+        message: `Exported ${users.length} service users`,
+        snapshotFile,
+      });
+
+      console.log(`${users.length} users exported to ${this.configPath}`);
+    } catch (error) {
+      console.error("Error exporting users:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map role and policy ids to the target environment through the id
+   * mapper, which also pairs the Public role. Unpaired roles and policies
+   * keep their ids and must already exist on the target.
+   */
+  private async remapAccess(users: DirectusUser[]) {
+    await this.registerSpecialRoles();
+    const existingRoles = await this.client.request(readRoles({ limit: -1 }));
+    const existingRoleIds = new Set(existingRoles.map((r) => r.id));
+    const existingPolicyIds = new Set(
+      (await this.client.request(readPolicies({ limit: -1 }))).map((p) => p.id)
+    );
+
+    return users.map((user) => {
+      const remapped = this.idMapper.remap(user, {
+        role: "roles",
+        policies: "policies",
+      });
+      const role = remapped.role;
+      return {
+        user: remapped,
+        missingRole: !!role && !existingRoleIds.has(role) ? role : undefined,
+        missingPolicies: (remapped.policies ?? []).filter(
+          (policy) => !existingPolicyIds.has(policy)
+        ),
+      };
+    });
+  }
+
+  /**
+   * Grant a policy to a user by email, in both the internal and the
+   * reported plan
+   */
+  private planGrant(
+    plan: UsersImportPlan,
+    importPlan: ImportPlan,
+    email: string,
+    policy: string
+  ) {
+    plan.access.create.push({ email, policy });
+    addImportAction(importPlan, {
+      action: "create",
+      itemType: "access",
+      id: `${email}:${policy}`,
+      after: { user: email, policy },
+    });
+  }
+
+  /**
+   * Diff local users against the target by email. Users are never deleted,
+   * since other content may reference them; their access entries are
+   * reconciled with the policies listed in users.json.
+   */
+  private async planImport(
+    localUsers: DirectusUser[],
+    remoteUsers: DirectusUser[],
+    importPlan: ImportPlan
+  ): Promise<UsersImportPlan> {
+    const remoteByEmail = new Map(remoteUsers.map((u) => [u.email, u]));
+    const plan: UsersImportPlan = {
+      create: [],
+      update: [],
+      access: { create: [], delete: [] },
+    };
+    const remoteAccess = await this.fetchUserAccess();
+
+    for (const { user, missingRole, missingPolicies } of await this.remapAccess(
+      localUsers
+    )) {
+      const base = { itemType: "users", id: user.email, name: user.email };
+      if (missingRole) {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: `role ${missingRole} does not exist on the target`,
+        });
+        continue;
+      }
+      if (missingPolicies.length > 0) {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: `policies ${missingPolicies.join(
+            ", "
+          )} do not exist on the target`,
+        });
+        continue;
+      }
+
+      const { policies, ...fields } = user;
+      const existing = remoteByEmail.get(user.email);
+      if (!existing) {
+        plan.create.push(user);
+        addImportAction(importPlan, { ...base, action: "create", after: user });
+        for (const policy of policies) {
+          this.planGrant(plan, importPlan, user.email, policy);
+        }
+        continue;
+      }
+
+      const changes = changedValues(
+        _.omit(this.normalizeItem(existing), "policies"),
+        fields
+      );
+      if (Object.keys(changes.after).length > 0) {
+        plan.update.push({
+          id: existing.id!,
+          email: user.email,
+          changes: changes.after,
+        });
+        addImportAction(importPlan, { ...base, action: "update", ...changes });
+      } else {
+        addImportAction(importPlan, {
+          ...base,
+          action: "skip",
+          reason: UNCHANGED,
+        });
+      }
+
+      const userAccess = remoteAccess.filter((a) => a.user === existing.id);
+      for (const policy of policies) {
+        if (!userAccess.some((a) => a.policy === policy)) {
+          this.planGrant(plan, importPlan, user.email, policy);
+        }
+      }
+      for (const entry of userAccess) {
+        if (!policies.includes(entry.policy)) {
+          plan.access.delete.push(entry);
+          addImportAction(importPlan, {
+            action: "delete",
+            itemType: "access",
+            id: `${user.email}:${entry.policy}`,
+            before: { user: user.email, policy: entry.policy },
+          });
+        }
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Store a generated token in the configured tokens file, readable by the
+   * owner only. Tokens are never logged.
+   */
+  private saveGeneratedToken(file: string, email: string, token: string) {
+    const tokens = existsSync(file)
+      ? JSON.parse(readFileSync(file, "utf8"))
+      : {};
+    tokens[email] = token;
+    writeFileSync(file, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+    // The mode only applies when the file is created
+    chmodSync(file, 0o600);
+  }
+
+  /**
+   * Static token for a user: read from the configured environment variable,
+   * or generated when a tokens file is configured and the user has none yet
+   */
+  private resolveToken(email: string, hasToken: boolean): string | undefined {
+    const variable = this.usersConfig?.tokens?.[email];
+    if (variable) {
+      const token = process.env[variable];
+      if (!token) {
+        console.warn(`⚠️  ${variable} is not set, no token for ${email}`);
+      }
+      return token;
+    }
+    const file = this.usersConfig?.generatedTokensFile;
+    if (file && !hasToken) {
+      const token = randomBytes(32).toString("hex");
+      this.saveGeneratedToken(file, email, token);
+      console.log(`🔑 Generated static token for ${email}, stored in ${file}`);
+      return token;
+    }
+    return undefined;
+  }
+
+  private async applyImportPlan(plan: UsersImportPlan) {
+    for (const user of plan.create) {
+      console.log(`Creating user: ${user.email}`);
+      await this.client.request(createUser(_.omit(user, "policies") as any));
+    }
+
+    for (const { id, changes } of plan.update) {
+      console.log(`Updating user: ${id}`);
+      await this.client.request(updateUser(id, changes as any));
+    }
+
+    if (plan.access.create.length > 0) {
+      // Resolve ids after creation, new users only get one on the target
+      const users = await this.fetchUsers({
+        email: { _in: _.uniq(plan.access.create.map((a) => a.email)) },
+      });
+      const usersByEmail = new Map(users.map((u) => [u.email, u]));
+      for (const { email, policy } of plan.access.create) {
+        const user = usersByEmail.get(email);
+        if (!user) continue;
+        console.log(`Granting policy ${policy} to ${email}`);
+        await this.callAPI("access", "POST", { user: user.id, policy });
+      }
+    }
+    for (const entry of plan.access.delete) {
+      console.log(`Revoking policy ${entry.policy} from user ${entry.user}`);
+      await this.callAPI(`access/${entry.id}`, "DELETE");
+    }
+  }
+
+  /**
+   * Set static tokens from environment variables (or generate them) for
+   * the created or updated users that have no token on the target yet
+   */
+  private async injectTokens(emails: string[]) {
+    if (emails.length === 0) return;
+    const users = await this.fetchUsers({ email: { _in: emails } });
+    for (const user of users) {
+      // Tokens are masked on read, but a set token is never empty
+      const hasToken = !!user.token;
+      const token = this.resolveToken(user.email, hasToken);
+      if (token && !hasToken) {
+        console.log(`Setting static token for ${user.email}`);
+        await this.client.request(updateUser(user.id!, { token } as any));
+      } else if (token) {
+        console.log(`${user.email} already has a static token, keeping it`);
+      }
+    }
+  }
+
+  public async importConfig(dryRun = false): Promise<ImportResult> {
+    try {
+      const importPlan = createImportPlan("users", dryRun);
+      if (!this.usersConfig) {
+        return {
+          status: "success",
+          message: "No serviceUsers configured, nothing to import.",
+          plan: importPlan,
+        };
+      }
+
+      // Config directories exported before users were supported
+      if (!existsSync(this.configPath)) {
+        console.log(`No ${this.configPath} found, skipping users`);
+        return {
+          status: "success",
+          message: "No users.json found, nothing to import.",
+          plan: importPlan,
+        };
+      }
+
+      const localUsers = this.readLocalUsers();
+      // Users outside the filter still match by email, e.g. an integration
+      // user created by hand before its marker field was set
+      const remoteUsers =
+        localUsers.length > 0
+          ? this.withPolicies(
+              await this.fetchUsers({
+                email: { _in: localUsers.map((u) => u.email) },
+              }),
+              await this.fetchUserAccess()
+            )
+          : [];
+      const plan = await this.planImport(localUsers, remoteUsers, importPlan);
+      console.log(
+        `${dryRun ? "[Dry Run] " : ""}Users: ${plan.create.length} to create, ${
+          plan.update.length
+        } to update, ${plan.access.create.length} policies to grant, ${
+          plan.access.delete.length
+        } to revoke`
+      );
+
+      const result = await this.auditManager.auditImportOperation(
+        "users",
+        "UsersManager",
+        { users: localUsers },
+        async () => ({
+          users: this.normalizeItems(await this.fetchRemoteData()),
+        }),
+        async () => {
+          await this.applyImportPlan(plan);
+          await this.injectTokens([
+            ...plan.create.map((u) => u.email),
+            ...plan.update.map((u) => u.email),
+          ]);
+          return {
+            status: "success",
+            message: `Reconciled ${localUsers.length} users`,
+          };
+        },
+        dryRun
+      );
+      if (result.status === "failure") {
+        throw new Error(result.message);
+      }
+
+      return {
+        status: "success",
+        message: "Users imported successfully.",
+        plan: importPlan,
+      };
+    } catch (error: any) {
+      return { status: "failure", message: error.message };
+    }
+  }
+
+  // Wrapper methods for backward compatibility with the command system
+  exportUsers = () => this.exportConfig();
+  importUsers = (dryRun?: boolean) => this.importConfig(dryRun);
+}
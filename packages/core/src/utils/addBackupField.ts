@@ -1,5 +1,6 @@
 import { createField, readFieldsByCollection } from "@directus/sdk";
-import { client } from "../helper";
+import { createDirectusClient } from "../helper";
+import { getActiveEnvironment } from "./environments";
 
 export interface AddBackupFieldOptions {
   fieldName?: string;
@@ -16,6 +17,7 @@ export async function addBackupFieldToCollections({
     );
   }
 
+  const client = createDirectusClient(getActiveEnvironment());
   const collections = ["directus_files", "directus_folders"];
   let successCount = 0;
   let skipCount = 0;
@@ -0,0 +1,194 @@
+// Drift detection: compare the committed config with the live remote state
+import _ from "lodash";
+import { DriftState, ManagerOptions } from "../base-config-manager";
+import { ConfigType } from "../types/generic";
+import { changedValues } from "./importPlan";
+import { createManager } from "./supportedTypes";
+
+/**
+ * How a remote item differs from the committed config
+ * - added: exists on the remote only
+ * - removed: exists in the config only
+ * - modified: exists on both sides with different values
+ */
+export type DriftChange = "added" | "removed" | "modified";
+
+export interface DriftItem {
+  change: DriftChange;
+  /** Kind of item (roles, permissions, fields, ...) */
+  itemType: string;
+  /** Item key (id, or a composite key for items without a portable id) */
+  id: string;
+  name?: string;
+  /** Top-level fields that differ, for modified items */
+  fields?: string[];
+}
+
+export interface DriftReport {
+  configType: ConfigType;
+  drifted: boolean;
+  items: DriftItem[];
+  summary: Record<DriftChange, number>;
+  /** Set when the comparison itself failed */
+  error?: string;
+}
+
+/**
+ * Compare normalized local and remote state item by item
+ */
+export function compareDriftState(
+  configType: ConfigType,
+  local: DriftState,
+  remote: DriftState
+): DriftReport {
+  const items: DriftItem[] = [];
+  const itemTypes = _.union(Object.keys(local), Object.keys(remote));
+
+  for (const itemType of itemTypes) {
+    const localItems = local[itemType] ?? {};
+    const remoteItems = remote[itemType] ?? {};
+    for (const id of _.union(
+      Object.keys(localItems),
+      Object.keys(remoteItems)
+    )) {
+      const localItem = localItems[id];
+      const remoteItem = remoteItems[id];
+      const name = (remoteItem ?? localItem)?.name;
+      const base = {
+        itemType,
+        id,
+        ...(typeof name === "string" ? { name } : {}),
+      };
+
+      if (localItem === undefined) {
+        items.push({ ...base, change: "added" });
+      } else if (remoteItem === undefined) {
+        items.push({ ...base, change: "removed" });
+      } else {
+        const changes = changedValues(localItem, remoteItem);
+        // A field set on one side only is missing from the other's values
+        const fields = _.union(
+          Object.keys(changes.before),
+          Object.keys(changes.after)
+        );
+        if (fields.length > 0) {
+          items.push({ ...base, change: "modified", fields });
+        }
+      }
+    }
+  }
+
+  return {
+    configType,
+    drifted: items.length > 0,
+    items,
+    summary: {
+      added: items.filter((i) => i.change === "added").length,
+      removed: items.filter((i) => i.change === "removed").length,
+      modified: items.filter((i) => i.change === "modified").length,
+    },
+  };
+}
+
+/**
+ * Compare the committed config of one type with the remote. Errors are
+ * captured in the report so that the remaining types can still be checked.
+ */
+export async function detectDrift(
+  type: ConfigType,
+  options: ManagerOptions = {}
+): Promise<DriftReport> {
+  try {
+    const manager = createManager(type, options);
+    const local = await manager.readLocalState();
+    const remote = await manager.fetchRemoteState();
+    return compareDriftState(type, local, remote);
+  } catch (error: any) {
+    return {
+      configType: type,
+      drifted: false,
+      items: [],
+      summary: { added: 0, removed: 0, modified: 0 },
+      error: error.message || String(error),
+    };
+  }
+}
+
+/**
+ * Print a drift report in a CLI-friendly format
+ */
+export function printDriftReport(report: DriftReport) {
+  if (report.error) {
+    console.log(`\n❌ ${report.configType}: ${report.error}`);
+    return;
+  }
+  if (!report.drifted) {
+    console.log(`\n✅ ${report.configType}: no drift`);
+    return;
+  }
+
+  const { added, removed, modified } = report.summary;
+  console.log(
+    `\n⚠️  ${report.configType}: ${added} added, ${removed} removed, ${modified} modified on the remote`
+  );
+  const markers = { added: "+", removed: "-", modified: "~" };
+  for (const item of report.items) {
+    const label = item.name ? `${item.name} (${item.id})` : item.id;
+    const details = item.fields ? `: ${item.fields.join(", ")}` : "";
+    console.log(
+      `   ${markers[item.change]} ${item.itemType} ${label}${details}`
+    );
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render drift reports as a JUnit XML document, one test case per config
+ * type, so CI systems can show drift as failed tests
+ */
+export function formatDriftJUnit(reports: DriftReport[]): string {
+  const failures = reports.filter((r) => !r.error && r.drifted).length;
+  const errors = reports.filter((r) => r.error).length;
+
+  const testCases = reports.map((report) => {
+    const open = `  <testcase classname="dct.drift" name="${escapeXml(
+      report.configType
+    )}">`;
+    if (report.error) {
+      return `${open}\n    <error message="${escapeXml(
+        report.error
+      )}"/>\n  </testcase>`;
+    }
+    if (!report.drifted) {
+      return `${open}</testcase>`;
+    }
+
+    const { added, removed, modified } = report.summary;
+    const details = report.items
+      .map(
+        (item) =>
+          `${item.change} ${item.itemType} ${item.id}${
+            item.fields ? ` (${item.fields.join(", ")})` : ""
+          }`
+      )
+      .join("\n");
+    return `${open}\n    <failure message="${added} added, ${removed} removed, ${modified} modified">${escapeXml(
+      details
+    )}</failure>\n  </testcase>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuite name="dct drift" tests="${reports.length}" failures="${failures}" errors="${errors}">`,
+    ...testCases,
+    `</testsuite>`,
+    "",
+  ].join("\n");
+}
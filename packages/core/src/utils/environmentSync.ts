@@ -0,0 +1,76 @@
+// Environment-to-environment sync through the regular configuration managers
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { ImportResult, ManagerOptions } from "../base-config-manager";
+import { ConfigType } from "../types/generic";
+import { DctEnvironment } from "./environments";
+import { createManager } from "./supportedTypes";
+
+/**
+ * Manager options connecting to an environment, with custom config and
+ * audit directories
+ */
+export function environmentManagerOptions(
+  environment: DctEnvironment,
+  configPath: string = environment.configPath,
+  auditPath: string = environment.auditPath
+): ManagerOptions {
+  return {
+    apiUrl: environment.url,
+    apiToken: environment.token,
+    configPath,
+    auditPath,
+  };
+}
+
+/**
+ * Sync one config type from a source environment into a target environment.
+ * The source is exported with the same normalization as `dct export` into a
+ * temporary config directory, which the target manager then imports from,
+ * so the dry-run diff and the import audit snapshots land on the target side.
+ * The export's own snapshots and log entries go to a temporary audit
+ * directory, leaving the source environment's audit trail untouched.
+ */
+export async function syncConfigType(
+  type: ConfigType,
+  source: DctEnvironment,
+  target: DctEnvironment,
+  options: {
+    dryRun?: boolean;
+    force?: boolean;
+    allowDestructive?: boolean;
+  } = {}
+): Promise<ImportResult> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), `dct-sync-${type}-`));
+  const configDir = path.join(workDir, "config");
+  try {
+    console.log(`Fetching ${type} from ${source.name} (${source.url})...`);
+    await createManager(
+      type,
+      environmentManagerOptions(source, configDir, path.join(workDir, "audit"))
+    ).exportConfig();
+
+    console.log(
+      `${options.dryRun ? "Planning" : "Importing"} ${type} into ${
+        target.name
+      } (${target.url})...`
+    );
+    const manager = createManager(
+      type,
+      environmentManagerOptions(target, configDir)
+    );
+    // Schema imports take the force and allowDestructive flags as well
+    const result =
+      type === "schema"
+        ? await manager.importSchema?.(
+            options.dryRun,
+            options.force,
+            options.allowDestructive
+          )
+        : await manager.importConfig(options.dryRun);
+    return result as ImportResult;
+  } finally {
+    await fs.remove(workDir);
+  }
+}
@@ -0,0 +1,227 @@
+// Named environment profiles loaded from dct.config.json / .dctrc
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+
+/** Files searched (in order) for environment profiles */
+export const PROFILE_FILENAMES = ["dct.config.json", ".dctrc"];
+
+/**
+ * An environment as declared in the profile file
+ */
+export interface EnvironmentProfile {
+  /** Directus URL */
+  url: string;
+  /** Static token (prefer tokenEnv to keep secrets out of the file) */
+  token?: string;
+  /** Name of the environment variable holding the token */
+  tokenEnv?: string;
+  /** Config directory (defaults to ./config) */
+  configPath?: string;
+  /** Audit directory (defaults to ./audit/<name>) */
+  auditPath?: string;
+}
+
+/**
+ * A content collection whose rows are exported as seed data
+ */
+export interface DataCollectionConfig {
+  collection: string;
+  /** Directus filter selecting the rows to export */
+  filter?: Record<string, any>;
+  /** Fields to export (defaults to all fields) */
+  fields?: string[];
+  /** Natural key field used to match rows between environments (defaults to the primary key) */
+  key?: string;
+}
+
+/**
+ * Non-human users (integrations, automation) managed by the users manager
+ */
+export interface ServiceUsersConfig {
+  /** Directus filter selecting the users to export, e.g. on email domain */
+  filter: Record<string, any>;
+  /** Environment variable holding the static token, keyed by user email */
+  tokens?: Record<string, string>;
+  /**
+   * Generate a static token for users without one and no token variable,
+   * and store it in this file (created with mode 0600), keyed by email
+   */
+  generatedTokensFile?: string;
+}
+
+/**
+ * Shape of dct.config.json / .dctrc
+ */
+export interface ProfileFile {
+  /** Environment used when --env is not passed */
+  defaultEnv?: string;
+  environments: Record<string, EnvironmentProfile>;
+  /** Collections exported and imported by the data manager */
+  dataCollections?: DataCollectionConfig[];
+  /** Users exported and imported by the users manager */
+  serviceUsers?: ServiceUsersConfig;
+}
+
+/**
+ * A fully resolved environment a manager can connect to
+ */
+export interface DctEnvironment {
+  /** Profile name, or "default" when resolved from DCT_* variables */
+  name: string;
+  url: string;
+  token: string;
+  configPath: string;
+  auditPath: string;
+}
+
+let activeEnvironment: DctEnvironment | undefined;
+
+// A profile file must define at least one of these
+const PROFILE_SECTIONS: (keyof ProfileFile)[] = [
+  "environments",
+  "dataCollections",
+  "serviceUsers",
+];
+
+/**
+ * Locate and parse the profile file in the given directory
+ * @returns The parsed profiles and the file they came from, or undefined
+ */
+export function loadProfileFile(
+  cwd: string = process.cwd()
+): { file: string; profiles: ProfileFile } | undefined {
+  for (const filename of PROFILE_FILENAMES) {
+    const file = join(cwd, filename);
+    if (!existsSync(file)) continue;
+
+    let profiles: ProfileFile;
+    try {
+      profiles = JSON.parse(readFileSync(file, "utf8"));
+    } catch (error: any) {
+      throw new Error(`Failed to parse ${file}: ${error.message}`);
+    }
+    if (!PROFILE_SECTIONS.some((section) => profiles?.[section])) {
+      throw new Error(
+        `${file} defines none of ${PROFILE_SECTIONS.map((s) => `"${s}"`).join(
+          ", "
+        )}`
+      );
+    }
+    if (profiles.environments && typeof profiles.environments !== "object") {
+      throw new Error(`"environments" in ${file} must be an object`);
+    }
+    // A file may only declare seed data or service users
+    profiles.environments = profiles.environments ?? {};
+    return { file, profiles };
+  }
+  return undefined;
+}
+
+/**
+ * Environment built from the DCT_* variables, used when no profile applies
+ */
+function environmentFromVariables(): DctEnvironment {
+  return {
+    name: "default",
+    url: process.env.DCT_API_URL ?? "http://localhost:8055",
+    token: process.env.DCT_TOKEN ?? "admin",
+    configPath: process.env.DCT_CONFIG_PATH ?? "./config",
+    auditPath: process.env.DCT_AUDIT_PATH ?? "./audit",
+  };
+}
+
+/**
+ * Resolve an environment by name.
+ * Without a name, DCT_ENV and then the profile file's defaultEnv are used,
+ * falling back to the DCT_* variables when neither is set.
+ * Relative paths in a profile are resolved against the profile file.
+ */
+export function resolveEnvironment(name?: string): DctEnvironment {
+  const loaded = loadProfileFile();
+  const envName = name ?? process.env.DCT_ENV ?? loaded?.profiles.defaultEnv;
+
+  if (!envName) {
+    return environmentFromVariables();
+  }
+  if (!loaded) {
+    throw new Error(
+      `Environment "${envName}" requested but no ${PROFILE_FILENAMES.join(
+        " or "
+      )} was found in ${process.cwd()}`
+    );
+  }
+
+  const profile = loaded.profiles.environments[envName];
+  if (!profile) {
+    throw new Error(
+      `Unknown environment "${envName}". Available environments: ${Object.keys(
+        loaded.profiles.environments
+      ).join(", ")}`
+    );
+  }
+  if (!profile.url) {
+    throw new Error(`Environment "${envName}" has no url`);
+  }
+
+  const token = profile.tokenEnv
+    ? process.env[profile.tokenEnv]
+    : profile.token;
+  if (!token) {
+    throw new Error(
+      profile.tokenEnv
+        ? `Environment "${envName}" reads its token from ${profile.tokenEnv}, which is not set`
+        : `Environment "${envName}" has no token or tokenEnv`
+    );
+  }
+
+  const baseDir = dirname(loaded.file);
+  return {
+    name: envName,
+    url: profile.url.replace(/\/+$/, ""),
+    token,
+    configPath: resolve(baseDir, profile.configPath ?? "./config"),
+    auditPath: resolve(baseDir, profile.auditPath ?? join("audit", envName)),
+  };
+}
+
+/**
+ * Seed data collections declared in the profile file
+ */
+export function getDataCollections(): DataCollectionConfig[] {
+  const collections = loadProfileFile()?.profiles.dataCollections ?? [];
+  for (const config of collections) {
+    if (!config?.collection) {
+      throw new Error(`Every entry in "dataCollections" needs a collection`);
+    }
+  }
+  return collections;
+}
+
+/**
+ * Service users configuration declared in the profile file
+ */
+export function getServiceUsersConfig(): ServiceUsersConfig | undefined {
+  const config = loadProfileFile()?.profiles.serviceUsers;
+  if (config && (!config.filter || typeof config.filter !== "object")) {
+    throw new Error(`"serviceUsers" needs a filter selecting the users`);
+  }
+  return config;
+}
+
+/**
+ * Select the environment used by managers created without explicit options
+ */
+export function setActiveEnvironment(name?: string): DctEnvironment {
+  activeEnvironment = resolveEnvironment(name);
+  return activeEnvironment;
+}
+
+/**
+ * Get the active environment, resolving the default one on first use
+ */
+export function getActiveEnvironment(): DctEnvironment {
+  if (!activeEnvironment) {
+    activeEnvironment = resolveEnvironment();
+  }
+  return activeEnvironment;
+}
@@ -0,0 +1,258 @@
+// Pairing config items with items of another id on the target environment
+import fs from "fs-extra";
+import path from "path";
+import _ from "lodash";
+
+/** File in an environment's audit directory recording paired ids */
+export const ID_MAP_FILENAME = "id-map.json";
+
+/** How local items are paired with items on the target */
+export type MatchBy = "id" | "name";
+
+/**
+ * Ids from the config files paired with the ids of the same items on the
+ * target, per item type: { roles: { localId: targetId } }
+ */
+export type IdMap = Record<string, Record<string, string>>;
+
+/**
+ * Parse a --match-by value
+ */
+export function parseMatchBy(value: string): MatchBy {
+  if (value !== "id" && value !== "name") {
+    throw new Error(`Invalid --match-by value "${value}", expected id or name`);
+  }
+  return value;
+}
+
+/** Item types whose ids can be paired between environments */
+export type IdMapType =
+  | "roles"
+  | "policies"
+  | "folders"
+  | "files"
+  | "flows"
+  | "dashboards";
+
+/**
+ * Pairs of local and target ids shared by all managers importing into one
+ * environment. Managers register the pairs they find and consult the
+ * mapper whenever they write an id or a foreign key, and the pairs are
+ * persisted in the environment's audit directory so later imports keep
+ * updating the same items.
+ */
+export class IdMapper {
+  private idMap: IdMap;
+  private dirty = false;
+
+  constructor(private readonly auditPath: string) {
+    const file = path.join(auditPath, ID_MAP_FILENAME);
+    this.idMap = fs.existsSync(file) ? fs.readJsonSync(file) : {};
+  }
+
+  /**
+   * Pairs of one item type, local id to target id
+   */
+  public pairs(itemType: IdMapType): Map<string, string> {
+    return new Map(Object.entries(this.idMap[itemType] ?? {}));
+  }
+
+  /**
+   * Pair a local id with the id of the same item on the target
+   */
+  public register(itemType: IdMapType, localId: string, targetId: string) {
+    if (localId === targetId || this.idMap[itemType]?.[localId] === targetId) {
+      return;
+    }
+    this.idMap[itemType] = { ...this.idMap[itemType], [localId]: targetId };
+    this.dirty = true;
+  }
+
+  /**
+   * Replace all pairs of one item type
+   */
+  public replace(itemType: IdMapType, pairs: Map<string, string>) {
+    const next = Object.fromEntries(
+      [...pairs].filter(([localId, targetId]) => localId !== targetId)
+    );
+    if (_.isEqual(next, this.idMap[itemType] ?? {})) return;
+    this.idMap[itemType] = next;
+    this.dirty = true;
+  }
+
+  /**
+   * The target id of a local id, or the id itself when it is not paired
+   */
+  public map(itemType: IdMapType, id: string): string {
+    return this.idMap[itemType]?.[id] ?? id;
+  }
+
+  /**
+   * Copy of an item with paired ids replaced in the given fields, which may
+   * hold a single id or a list of ids
+   */
+  public remap<T extends Record<string, any>>(
+    item: T,
+    fields: Record<string, IdMapType>
+  ): T {
+    const remapped: Record<string, any> = { ...item };
+    for (const [field, itemType] of Object.entries(fields)) {
+      const value = remapped[field];
+      if (Array.isArray(value)) {
+        remapped[field] = value.map((id) =>
+          typeof id === "string" ? this.map(itemType, id) : id
+        );
+      } else if (typeof value === "string") {
+        remapped[field] = this.map(itemType, value);
+      }
+    }
+    return remapped as T;
+  }
+
+  /**
+   * Persist the pairs when they changed since they were loaded
+   */
+  public save() {
+    if (!this.dirty) return;
+    fs.ensureDirSync(this.auditPath);
+    fs.writeJsonSync(path.join(this.auditPath, ID_MAP_FILENAME), this.idMap, {
+      spaces: 2,
+    });
+    this.dirty = false;
+  }
+}
+
+// One mapper per audit directory, so managers importing into the same
+// environment within a run see each other's pairs
+const idMappers = new Map<string, IdMapper>();
+
+/**
+ * The shared id mapper of the environment with this audit directory
+ */
+export function getIdMapper(auditPath: string): IdMapper {
+  const key = path.resolve(auditPath);
+  if (!idMappers.has(key)) {
+    idMappers.set(key, new IdMapper(key));
+  }
+  return idMappers.get(key)!;
+}
+
+/**
+ * Pair local items whose id is missing on the target with the target item
+ * with the same key. Items already paired are kept, and keys shared by
+ * several target items are reported instead of guessed.
+ * @param keyOf Key of an item, items without one are never paired
+ * @param keyName How the key is described in log messages
+ * @returns The given pairs plus the new ones
+ */
+export function matchByKey(
+  localItems: Record<string, any>[],
+  remoteItems: Record<string, any>[],
+  pairs: Map<string, string>,
+  itemType: string,
+  keyOf: (item: Record<string, any>) => string | null | undefined,
+  keyName: string
+): Map<string, string> {
+  const matched = new Map(pairs);
+  const remoteIds = new Set(remoteItems.map((item) => item.id));
+  const taken = new Set([
+    ...matched.values(),
+    ...localItems.map((item) => item.id).filter((id) => remoteIds.has(id)),
+  ]);
+
+  for (const item of localItems) {
+    if (remoteIds.has(item.id) || matched.has(item.id)) continue;
+    const key = keyOf(item);
+    if (key === null || key === undefined) continue;
+
+    const candidates = remoteItems.filter(
+      (remote) => keyOf(remote) === key && !taken.has(remote.id)
+    );
+    if (candidates.length > 1) {
+      console.warn(
+        `Several ${itemType} on the target have the ${keyName} "${key}", not matching ${item.id}`
+      );
+      continue;
+    }
+    if (candidates.length === 1) {
+      console.log(
+        `Matching ${itemType} "${key}" by ${keyName}: ${item.id} -> ${candidates[0].id}`
+      );
+      matched.set(item.id, candidates[0].id);
+      taken.add(candidates[0].id);
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Pair local items whose id is missing on the target with the target item
+ * of the same name
+ * @returns The given pairs plus the new ones
+ */
+export function matchByName(
+  localItems: Record<string, any>[],
+  remoteItems: Record<string, any>[],
+  pairs: Map<string, string>,
+  itemType: string
+): Map<string, string> {
+  return matchByKey(
+    localItems,
+    remoteItems,
+    pairs,
+    itemType,
+    (item) => item.name,
+    "name"
+  );
+}
+
+/**
+ * Find the Public role in a list of roles
+ * In Directus, while Public is mainly a policy, there might still be a role named "Public"
+ * This is for backward compatibility with existing code
+ */
+export function findPublicRole(
+  roles: Record<string, any>[]
+): Record<string, any> | undefined {
+  // Look for role with public characteristics
+  return roles.find((role) => {
+    // Check if name contains "Public" (case insensitive) or has special translation key
+    const isPublicName =
+      role.name?.toLowerCase().includes("public") ||
+      role.name?.startsWith("$t:public");
+
+    // Public role often has specific characteristics, like an icon "public"
+    const hasPublicIcon = role.icon === "public";
+
+    return isPublicName || hasPublicIcon;
+  });
+}
+
+/**
+ * Map roles like Public that may have different IDs between environments
+ * but need to be treated as the same role
+ */
+export function mapSpecialRoles(
+  incomingRoles: Record<string, any>[],
+  existingRoles: Record<string, any>[]
+): Map<string, string> {
+  const roleMap = new Map<string, string>();
+
+  // Handle Public role mapping
+  const incomingPublicRole = findPublicRole(incomingRoles);
+  const existingPublicRole = findPublicRole(existingRoles);
+
+  if (
+    incomingPublicRole &&
+    existingPublicRole &&
+    incomingPublicRole.id !== existingPublicRole.id
+  ) {
+    console.log(
+      `Mapping Public role: ${incomingPublicRole.id} -> ${existingPublicRole.id}`
+    );
+    roleMap.set(incomingPublicRole.id, existingPublicRole.id);
+  }
+
+  return roleMap;
+}
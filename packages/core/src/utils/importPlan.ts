@@ -0,0 +1,143 @@
+// Helpers for building and reporting structured import plans
+import _ from "lodash";
+import { ImportAction, ImportPlan } from "../base-config-manager";
+
+/** Reason recorded for items that already match the remote */
+export const UNCHANGED = "unchanged";
+
+/**
+ * Create an empty import plan for a config type
+ */
+export function createImportPlan(
+  configType: string,
+  dryRun: boolean
+): ImportPlan {
+  return {
+    configType,
+    dryRun,
+    actions: [],
+    summary: { create: 0, update: 0, delete: 0, skip: 0 },
+  };
+}
+
+/**
+ * Record an action in a plan, keeping the summary in sync
+ */
+export function addImportAction(plan: ImportPlan, action: ImportAction) {
+  plan.actions.push(action);
+  plan.summary[action.action]++;
+}
+
+/**
+ * Reduce two versions of an item to the top-level fields that differ
+ */
+export function changedValues(
+  before: Record<string, any> = {},
+  after: Record<string, any> = {}
+): { before: Record<string, any>; after: Record<string, any> } {
+  const keys = _.union(Object.keys(before), Object.keys(after)).filter(
+    (key) => !_.isEqual(before[key] ?? null, after[key] ?? null)
+  );
+  return { before: _.pick(before, keys), after: _.pick(after, keys) };
+}
+
+/**
+ * Record a reconciliation in an import plan. Local items missing remotely are
+ * creates, items in changedIds are updates, other local items are skips and
+ * remote items missing locally are deletes.
+ */
+export function describeReconciliation(
+  importPlan: ImportPlan,
+  itemType: string,
+  localItems: { id: string; [key: string]: any }[],
+  remoteItems: { id: string; [key: string]: any }[],
+  changedIds: Set<string>,
+  ignoredFields: string[]
+) {
+  const remoteById = new Map(remoteItems.map((item) => [item.id, item]));
+  const localIds = new Set(localItems.map((item) => item.id));
+
+  for (const item of localItems) {
+    const existing = remoteById.get(item.id);
+    const base = { itemType, id: item.id, name: item.name };
+    if (!existing) {
+      addImportAction(importPlan, {
+        ...base,
+        action: "create",
+        after: _.omit(item, ignoredFields),
+      });
+    } else if (changedIds.has(item.id)) {
+      addImportAction(importPlan, {
+        ...base,
+        action: "update",
+        ...changedValues(
+          _.omit(existing, ignoredFields),
+          _.omit(item, ignoredFields)
+        ),
+      });
+    } else {
+      addImportAction(importPlan, {
+        ...base,
+        action: "skip",
+        reason: UNCHANGED,
+      });
+    }
+  }
+
+  for (const item of remoteItems) {
+    if (!localIds.has(item.id)) {
+      addImportAction(importPlan, {
+        itemType,
+        id: item.id,
+        name: item.name,
+        action: "delete",
+        before: _.omit(item, ignoredFields),
+      });
+    }
+  }
+}
+
+/**
+ * Print a plan in a CLI-friendly format. Unchanged items are only counted.
+ */
+export function printImportPlan(plan: ImportPlan) {
+  const { create, update, delete: remove, skip } = plan.summary;
+  console.log(
+    `\n📋 ${plan.configType}${
+      plan.dryRun ? " (dry run)" : ""
+    }: ${create} to create, ${update} to update, ${remove} to delete, ${skip} skipped`
+  );
+
+  const markers = { create: "+", update: "~", delete: "-", skip: "=" };
+  for (const action of plan.actions) {
+    if (action.action === "skip" && action.reason === UNCHANGED) continue;
+
+    const label = action.name ? `${action.name} (${action.id})` : action.id;
+    const details =
+      action.action === "update" && action.after
+        ? `: ${Object.keys(action.after).join(", ")}`
+        : action.reason
+        ? `: ${action.reason}`
+        : "";
+    console.log(
+      `   ${markers[action.action]} ${action.itemType} ${label}${details}`
+    );
+  }
+}
+
+/**
+ * Run a function with console.log output redirected to stderr, so that
+ * stdout only carries machine-readable output such as a JSON plan
+ */
+export async function withLogsOnStderr<T>(fn: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  const info = console.info;
+  console.log = console.error;
+  console.info = console.error;
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+    console.info = info;
+  }
+}
@@ -0,0 +1,328 @@
+// Offline checks of permissions.json against the exported schema
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import _ from "lodash";
+import { getActiveEnvironment } from "./environments";
+import { readSchemaSnapshot } from "./schemaLayout";
+import { policyName } from "./permissionMatrix";
+
+export type LintSeverity = "error" | "warning";
+
+const SEVERITY_ORDER: LintSeverity[] = ["warning", "error"];
+
+export interface LintFinding {
+  severity: LintSeverity;
+  /** Identifier of the check that produced the finding */
+  rule:
+    | "unknown-collection"
+    | "unknown-field"
+    | "unknown-filter-field"
+    | "no-read-access"
+    | "empty-policy";
+  /** Policy name, or its id when the policy is not in policies.json */
+  policy?: string;
+  collection?: string;
+  action?: string;
+  message: string;
+}
+
+/**
+ * Parse a --fail-on value
+ */
+export function parseLintSeverity(value: string): LintSeverity {
+  if (!SEVERITY_ORDER.includes(value as LintSeverity)) {
+    throw new Error(
+      `Invalid severity "${value}", expected ${SEVERITY_ORDER.join(" or ")}`
+    );
+  }
+  return value as LintSeverity;
+}
+
+/**
+ * Whether any finding is at least as severe as the given level
+ */
+export function hasFindingsAtLeast(
+  findings: LintFinding[],
+  severity: LintSeverity
+): boolean {
+  const threshold = SEVERITY_ORDER.indexOf(severity);
+  return findings.some(
+    (finding) => SEVERITY_ORDER.indexOf(finding.severity) >= threshold
+  );
+}
+
+const readConfigFile = (configPath: string, filename: string): any => {
+  const filePath = join(configPath, filename);
+  return existsSync(filePath)
+    ? JSON.parse(readFileSync(filePath, "utf8"))
+    : undefined;
+};
+
+// System collections are not part of the schema snapshot, so neither they
+// nor their fields can be checked
+const isSystemCollection = (collection: string) =>
+  collection.startsWith("directus_");
+
+/**
+ * Fields and relations of the schema snapshot, by collection
+ */
+class SchemaIndex {
+  private readonly fields = new Map<string, Set<string>>();
+
+  constructor(private readonly schema: Record<string, any>) {
+    for (const collection of schema.collections ?? []) {
+      this.fields.set(collection.collection, new Set());
+    }
+    for (const field of schema.fields ?? []) {
+      if (!this.fields.has(field.collection)) {
+        this.fields.set(field.collection, new Set());
+      }
+      this.fields.get(field.collection)!.add(field.field);
+    }
+  }
+
+  hasCollection(collection: string): boolean {
+    return this.fields.has(collection);
+  }
+
+  hasField(collection: string, field: string): boolean {
+    return !!this.fields.get(collection)?.has(field);
+  }
+
+  /**
+   * Collections backed by a table, leaving out folders
+   */
+  tableCollections(): string[] {
+    return (this.schema.collections ?? [])
+      .filter((collection: any) => collection.schema !== null)
+      .map((collection: any) => collection.collection);
+  }
+
+  /**
+   * Collection a relational field points to, through a many-to-one field
+   * or the alias field of a one-to-many relation
+   */
+  relatedCollection(collection: string, field: string): string | undefined {
+    for (const relation of this.schema.relations ?? []) {
+      if (relation.collection === collection && relation.field === field) {
+        return relation.related_collection ?? undefined;
+      }
+      if (
+        relation.related_collection === collection &&
+        relation.meta?.one_field === field
+      ) {
+        return relation.collection;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Field paths of a filter that do not exist in the schema. Relational
+ * fields are followed into the related collection.
+ */
+function unknownFilterFields(
+  filter: unknown,
+  collection: string,
+  schema: SchemaIndex,
+  path: string[] = []
+): string[] {
+  if (!_.isPlainObject(filter) || isSystemCollection(collection)) return [];
+
+  const unknown: string[] = [];
+  for (const [key, value] of Object.entries(filter as Record<string, any>)) {
+    if (key === "_and" || key === "_or") {
+      for (const item of Array.isArray(value) ? value : []) {
+        unknown.push(...unknownFilterFields(item, collection, schema, path));
+      }
+      continue;
+    }
+    if (key === "_some" || key === "_none") {
+      unknown.push(...unknownFilterFields(value, collection, schema, path));
+      continue;
+    }
+    // Remaining operators compare values, which are not field names
+    if (key.startsWith("_") || key.startsWith("$")) continue;
+
+    // Functions such as year(date_created) apply to the field inside
+    const field = key.replace(/^\w+\((.+)\)$/, "$1");
+    if (!schema.hasField(collection, field)) {
+      unknown.push([...path, key].join("."));
+      continue;
+    }
+    const related = schema.relatedCollection(collection, field);
+    if (related) {
+      unknown.push(
+        ...unknownFilterFields(value, related, schema, [...path, key])
+      );
+    }
+  }
+  return unknown;
+}
+
+/**
+ * Cross-check the permissions of the exported policies with the schema
+ * @param configPath Directory holding the exported config files
+ * @returns Findings, errors first
+ */
+export function lintPermissions(
+  configPath: string = getActiveEnvironment().configPath
+): LintFinding[] {
+  const permissions: Record<string, any>[] | undefined = readConfigFile(
+    configPath,
+    "permissions.json"
+  );
+  if (!permissions) {
+    throw new Error(
+      `permissions.json not found in ${configPath}. Run 'dct export roles' first.`
+    );
+  }
+  const snapshot = readSchemaSnapshot(configPath);
+  if (!snapshot) {
+    throw new Error(
+      `No schema found in ${configPath}. Run 'dct export schema' first.`
+    );
+  }
+  const policies: Record<string, any>[] =
+    readConfigFile(configPath, "policies.json") ?? [];
+  const schema = new SchemaIndex(snapshot);
+  const findings: LintFinding[] = [];
+
+  for (const permission of permissions) {
+    const { collection, action } = permission;
+    const base = {
+      policy: policyName(permission.policy, policies),
+      collection,
+      action,
+    };
+
+    if (isSystemCollection(collection)) continue;
+    if (!schema.hasCollection(collection)) {
+      findings.push({
+        ...base,
+        severity: "error",
+        rule: "unknown-collection",
+        message: `Collection ${collection} does not exist in the schema`,
+      });
+      continue;
+    }
+
+    const missingFields = (permission.fields ?? []).filter(
+      (field: string) => field !== "*" && !schema.hasField(collection, field)
+    );
+    if (missingFields.length > 0) {
+      findings.push({
+        ...base,
+        severity: "error",
+        rule: "unknown-field",
+        message: `fields lists deleted fields: ${missingFields.join(", ")}`,
+      });
+    }
+    const missingPresets = Object.keys(permission.presets ?? {}).filter(
+      (field) => !schema.hasField(collection, field)
+    );
+    if (missingPresets.length > 0) {
+      findings.push({
+        ...base,
+        severity: "error",
+        rule: "unknown-field",
+        message: `presets set deleted fields: ${missingPresets.join(", ")}`,
+      });
+    }
+
+    for (const rule of ["permissions", "validation"]) {
+      const unknown = unknownFilterFields(permission[rule], collection, schema);
+      if (unknown.length > 0) {
+        findings.push({
+          ...base,
+          severity: "error",
+          rule: "unknown-filter-field",
+          message: `${rule} filter references unknown fields: ${unknown.join(
+            ", "
+          )}`,
+        });
+      }
+    }
+  }
+
+  // Admins read everything without permissions. Policies missing from
+  // policies.json, such as the public one, count as non-admin.
+  const adminPolicies = new Set(
+    policies.filter((policy) => policy.admin_access).map((policy) => policy.id)
+  );
+  const readable = new Set(
+    permissions
+      .filter(
+        (permission) =>
+          permission.action === "read" &&
+          permission.policy &&
+          !adminPolicies.has(permission.policy)
+      )
+      .map((permission) => permission.collection)
+  );
+  for (const collection of schema.tableCollections()) {
+    if (!readable.has(collection)) {
+      findings.push({
+        severity: "warning",
+        rule: "no-read-access",
+        collection,
+        message: `No non-admin policy can read ${collection}`,
+      });
+    }
+  }
+
+  const policiesWithPermissions = new Set(
+    permissions.map((permission) => permission.policy)
+  );
+  for (const policy of policies) {
+    if (
+      policy.app_access &&
+      !policy.admin_access &&
+      !policiesWithPermissions.has(policy.id)
+    ) {
+      findings.push({
+        severity: "warning",
+        rule: "empty-policy",
+        policy: policyName(policy.id, policies),
+        message: "Policy grants app access but has no permissions",
+      });
+    }
+  }
+
+  return _.sortBy(
+    findings,
+    (finding) => -SEVERITY_ORDER.indexOf(finding.severity)
+  );
+}
+
+/**
+ * Print lint findings in a CLI-friendly format
+ */
+export function printLintFindings(findings: LintFinding[]) {
+  if (findings.length === 0) {
+    console.log("✅ No permission issues found");
+    return;
+  }
+
+  const counts = _.countBy(findings, "severity");
+  console.log(
+    `Found ${counts.error ?? 0} errors and ${
+      counts.warning ?? 0
+    } warnings in permissions:`
+  );
+  const markers: Record<LintSeverity, string> = {
+    error: "❌",
+    warning: "⚠️ ",
+  };
+  for (const finding of findings) {
+    const scope = [finding.policy, finding.collection, finding.action]
+      .filter(Boolean)
+      .join(" / ");
+    console.log(
+      `   ${markers[finding.severity]} [${finding.rule}] ${
+        scope ? `${scope}: ` : ""
+      }${finding.message}`
+    );
+  }
+}
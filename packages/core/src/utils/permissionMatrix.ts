@@ -0,0 +1,252 @@
+// Policy × collection × action overview of permissions.json
+import _ from "lodash";
+
+export const MATRIX_ACTIONS = ["create", "read", "update", "delete", "share"];
+
+export type MatrixFormat = "markdown" | "csv" | "html";
+
+/**
+ * Access a policy has for one action on one collection: everything, nothing,
+ * or a rule restricted by a filter, validation or a list of fields
+ */
+export type MatrixCell = "full" | "none" | "custom";
+
+export interface MatrixRow {
+  policyId: string | null;
+  /** Policy name, or its id when the policy is not in policies.json */
+  policy: string;
+  collection: string;
+  /** Collection name from schema.json, or its id */
+  collectionName: string;
+  /** False when the collection is missing from the schema */
+  inSchema: boolean;
+  cells: Record<string, MatrixCell>;
+}
+
+/**
+ * A matrix row with only the cells that changed, as "before → after"
+ */
+export interface MatrixDiffRow extends Omit<MatrixRow, "cells"> {
+  cells: Record<string, string>;
+}
+
+/**
+ * Rows and columns ready to be rendered in any format
+ */
+export interface MatrixTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const CELL_SYMBOLS: Record<MatrixCell, string> = {
+  full: "✓",
+  none: "✗",
+  custom: "custom",
+};
+
+/**
+ * Parse a --format value
+ */
+export function parseMatrixFormat(value: string): MatrixFormat {
+  if (value !== "markdown" && value !== "csv" && value !== "html") {
+    throw new Error(
+      `Invalid --format value "${value}", expected markdown, csv or html`
+    );
+  }
+  return value;
+}
+
+/**
+ * Readable name of a policy, falling back to its id
+ */
+export function policyName(
+  policyId: string | null,
+  policies: Record<string, any>[]
+): string {
+  if (!policyId) return "(no policy)";
+  const name = policies.find((policy) => policy.id === policyId)?.name;
+  if (name === "$t:public_label") return "Public";
+  return name ?? policyId;
+}
+
+/**
+ * Readable name of a collection from its translations in schema.json,
+ * English first, falling back to its id
+ */
+export function collectionName(
+  collection: string,
+  schemaCollections: Record<string, any>[] = []
+): string {
+  const translations: Record<string, any>[] =
+    schemaCollections.find((c) => c.collection === collection)?.meta
+      ?.translations ?? [];
+  const translation =
+    translations.find((t) => t.language?.startsWith("en")) ?? translations[0];
+  return translation?.translation || collection;
+}
+
+function cellFor(permission: Record<string, any>): MatrixCell {
+  const restricted =
+    !_.isEmpty(permission.permissions) ||
+    !_.isEmpty(permission.validation) ||
+    (Array.isArray(permission.fields) && !permission.fields.includes("*"));
+  return restricted ? "custom" : "full";
+}
+
+/**
+ * Build one row per policy and collection with permissions, sorted by
+ * policy name and collection name
+ * @param collections Collections of schema.json, to name collections and
+ * flag permissions on collections that no longer exist
+ */
+export function buildPermissionMatrix(
+  permissions: Record<string, any>[],
+  policies: Record<string, any>[],
+  collections?: Record<string, any>[]
+): MatrixRow[] {
+  const rows = new Map<string, MatrixRow>();
+
+  for (const permission of permissions) {
+    const key = `${permission.policy}:${permission.collection}`;
+    if (!rows.has(key)) {
+      rows.set(key, {
+        policyId: permission.policy ?? null,
+        policy: policyName(permission.policy, policies),
+        collection: permission.collection,
+        collectionName: collectionName(permission.collection, collections),
+        // System collections are not part of the schema snapshot
+        inSchema:
+          !collections ||
+          permission.collection.startsWith("directus_") ||
+          collections.some((c) => c.collection === permission.collection),
+        cells: Object.fromEntries(
+          MATRIX_ACTIONS.map((action) => [action, "none" as MatrixCell])
+        ),
+      });
+    }
+    const cells = rows.get(key)!.cells;
+    // Several rules for the same action make it custom as well
+    cells[permission.action] =
+      cells[permission.action] === "none" ? cellFor(permission) : "custom";
+  }
+
+  return _.sortBy([...rows.values()], ["policy", "collectionName"]);
+}
+
+/**
+ * Cells that differ between two matrices. Rows only present on one side
+ * compare against a row without permissions.
+ */
+export function diffPermissionMatrices(
+  before: MatrixRow[],
+  after: MatrixRow[]
+): MatrixDiffRow[] {
+  const key = (row: MatrixRow) => `${row.policyId}:${row.collection}`;
+  const beforeByKey = new Map(before.map((row) => [key(row), row]));
+  const afterByKey = new Map(after.map((row) => [key(row), row]));
+  const diff: MatrixDiffRow[] = [];
+
+  for (const rowKey of _.union(
+    [...beforeByKey.keys()],
+    [...afterByKey.keys()]
+  )) {
+    const old = beforeByKey.get(rowKey);
+    const current = afterByKey.get(rowKey);
+    const row = (current ?? old)!;
+    const cells: Record<string, string> = {};
+    for (const action of MATRIX_ACTIONS) {
+      const from = old?.cells[action] ?? "none";
+      const to = current?.cells[action] ?? "none";
+      if (from !== to) {
+        cells[action] = `${CELL_SYMBOLS[from]} → ${CELL_SYMBOLS[to]}`;
+      }
+    }
+    if (!_.isEmpty(cells)) {
+      diff.push({ ..._.omit(row, "cells"), cells });
+    }
+  }
+
+  return _.sortBy(diff, ["policy", "collectionName"]);
+}
+
+/**
+ * Table of a matrix or of the changed cells of a diff
+ */
+export function matrixTable(rows: (MatrixRow | MatrixDiffRow)[]): MatrixTable {
+  return {
+    headers: ["Policy", "Collection", ...MATRIX_ACTIONS],
+    rows: rows.map((row) => [
+      row.policy,
+      row.inSchema
+        ? row.collectionName
+        : `${row.collectionName} (not in schema)`,
+      ...MATRIX_ACTIONS.map((action) => {
+        const cell = row.cells[action];
+        return cell in CELL_SYMBOLS
+          ? CELL_SYMBOLS[cell as MatrixCell]
+          : cell ?? "";
+      }),
+    ]),
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const escapeCsv = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Render a table as Markdown, CSV or a standalone HTML page
+ */
+export function renderMatrixTable(
+  table: MatrixTable,
+  format: MatrixFormat
+): string {
+  switch (format) {
+    case "csv":
+      return [table.headers, ...table.rows]
+        .map((row) => row.map(escapeCsv).join(","))
+        .join("\n");
+    case "html": {
+      const head = table.headers
+        .map((header) => `<th>${escapeHtml(header)}</th>`)
+        .join("");
+      const body = table.rows
+        .map(
+          (row) =>
+            `    <tr>${row
+              .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+              .join("")}</tr>`
+        )
+        .join("\n");
+      return [
+        "<!DOCTYPE html>",
+        '<html><head><meta charset="utf-8"><title>Permission matrix</title>',
+        "<style>table{border-collapse:collapse}th,td{border:1px solid #ccc;padding:4px 8px}</style>",
+        "</head><body>",
+        "<table>",
+        `  <thead><tr>${head}</tr></thead>`,
+        "  <tbody>",
+        body,
+        "  </tbody>",
+        "</table>",
+        "</body></html>",
+      ].join("\n");
+    }
+    default: {
+      const escapeMarkdown = (value: string) => value.replace(/\|/g, "\\|");
+      const line = (cells: string[]) =>
+        `| ${cells.map(escapeMarkdown).join(" | ")} |`;
+      return [
+        line(table.headers),
+        line(table.headers.map(() => "---")),
+        ...table.rows.map(line),
+      ].join("\n");
+    }
+  }
+}
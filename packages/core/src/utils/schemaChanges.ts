@@ -0,0 +1,313 @@
+// Analysis of /schema/diff output: destructive changes and readable reports
+import _ from "lodash";
+import type { SchemaDiff, SchemaDiffChange } from "../schema";
+
+/**
+ * One collection, field or relation touched by a schema diff
+ */
+export interface SchemaChange {
+  itemType: "collections" | "fields" | "relations";
+  /** Collection the change belongs to */
+  collection: string;
+  /** Collection name, or collection.field for fields and relations */
+  id: string;
+  action: "create" | "update" | "delete";
+  /** True when applying the change loses data on the target */
+  destructive: boolean;
+  /** Why the change is destructive */
+  reason?: string;
+}
+
+/**
+ * Field type changes Directus can apply without losing data
+ * (current type -> types it can safely become)
+ */
+const LOSSLESS_TYPE_CHANGES: Record<string, string[]> = {
+  string: ["text"],
+  uuid: ["string", "text"],
+  hash: ["string", "text"],
+  csv: ["text"],
+  integer: ["bigInteger", "float", "decimal"],
+  bigInteger: ["decimal"],
+  date: ["dateTime", "timestamp"],
+};
+
+// Column size settings whose reduction truncates existing values
+const SIZE_PATHS = [
+  "schema.max_length",
+  "schema.numeric_precision",
+  "schema.numeric_scale",
+];
+
+/**
+ * Work out why an edit to an existing field loses data, if it does.
+ * In /schema/diff output lhs is the target's current value and rhs the
+ * value from schema.json.
+ */
+function fieldDataLoss(diff: SchemaDiffChange[]): string | undefined {
+  for (const change of diff) {
+    if (change.kind !== "E") continue;
+    const path = (change.path ?? []).join(".");
+
+    if (path === "type" && change.lhs !== change.rhs) {
+      const safe = LOSSLESS_TYPE_CHANGES[change.lhs] ?? [];
+      if (!safe.includes(change.rhs)) {
+        return `type changes from ${change.lhs} to ${change.rhs}`;
+      }
+    }
+
+    if (
+      SIZE_PATHS.includes(path) &&
+      typeof change.lhs === "number" &&
+      typeof change.rhs === "number" &&
+      change.rhs < change.lhs
+    ) {
+      return `${path.replace("schema.", "")} shrinks from ${change.lhs} to ${
+        change.rhs
+      }`;
+    }
+  }
+  return undefined;
+}
+
+function changeAction(diff: SchemaDiffChange[]): SchemaChange["action"] {
+  // A change without a path applies to the whole item
+  const whole = diff.find((change) => !change.path);
+  return whole?.kind === "N"
+    ? "create"
+    : whole?.kind === "D"
+    ? "delete"
+    : "update";
+}
+
+/**
+ * Classify every entry of a schema diff. Collection and field deletes and
+ * field edits that lose data are destructive; everything else only adds
+ * to or reshapes the schema.
+ */
+export function classifySchemaDiff(
+  diffSchema: SchemaDiff | undefined
+): SchemaChange[] {
+  if (_.isEmpty(diffSchema)) return [];
+  const { collections = [], fields = [], relations = [] } = diffSchema!.diff;
+  const changes: SchemaChange[] = [];
+
+  for (const entry of collections) {
+    const action = changeAction(entry.diff);
+    changes.push({
+      itemType: "collections",
+      collection: entry.collection,
+      id: entry.collection,
+      action,
+      destructive: action === "delete",
+      reason:
+        action === "delete" ? "collection and its data deleted" : undefined,
+    });
+  }
+
+  for (const entry of fields) {
+    const action = changeAction(entry.diff);
+    const reason =
+      action === "delete"
+        ? "field and its values deleted"
+        : action === "update"
+        ? fieldDataLoss(entry.diff)
+        : undefined;
+    changes.push({
+      itemType: "fields",
+      collection: entry.collection,
+      id: `${entry.collection}.${entry.field}`,
+      action,
+      destructive: !!reason,
+      reason,
+    });
+  }
+
+  // Dropping a relation only removes the constraint, values are kept
+  for (const entry of relations) {
+    changes.push({
+      itemType: "relations",
+      collection: entry.collection,
+      id: `${entry.collection}.${entry.field}`,
+      action: changeAction(entry.diff),
+      destructive: false,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Print what the diff does to each collection, listing destructive changes
+ */
+export function printSchemaChangeSummary(changes: SchemaChange[]) {
+  if (changes.length === 0) return;
+
+  console.log("Schema changes by collection:");
+  const byCollection = _.groupBy(changes, "collection");
+  for (const collection of Object.keys(byCollection).sort()) {
+    const items = byCollection[collection];
+    const counts = _.countBy(items, "action");
+    console.log(
+      `  ${collection}: ${counts.create ?? 0} to create, ${
+        counts.update ?? 0
+      } to update, ${counts.delete ?? 0} to delete`
+    );
+    for (const change of items.filter((c) => c.destructive)) {
+      console.log(
+        `    ⚠️  ${change.itemType.replace(/s$/, "")} ${change.id}: ${
+          change.reason
+        }`
+      );
+    }
+  }
+}
+
+/**
+ * A changed property of an existing field
+ */
+export interface SchemaPropertyChange {
+  /** Readable property name, e.g. "type", "nullable" or "meta.note" */
+  property: string;
+  before: any;
+  after: any;
+}
+
+/**
+ * Readable summary of a schema diff, as printed by `dct import schema
+ * --dry-run` and shown in the UI
+ */
+export interface SchemaDiffReport {
+  collections: { added: string[]; removed: string[] };
+  fields: {
+    added: { field: string; type: string | null }[];
+    removed: { field: string; type: string | null }[];
+    altered: { field: string; changes: SchemaPropertyChange[] }[];
+  };
+  relations: {
+    added: { field: string; related_collection: string | null }[];
+    removed: { field: string; related_collection: string | null }[];
+  };
+}
+
+// Names for the field properties people care about most, listed first
+const PROPERTY_LABELS: Record<string, string> = {
+  type: "type",
+  "schema.is_nullable": "nullable",
+  "schema.default_value": "default",
+  "schema.data_type": "data type",
+  "schema.max_length": "max length",
+};
+
+function propertyChanges(diff: SchemaDiffChange[]): SchemaPropertyChange[] {
+  const changes = diff.map((change) => {
+    const path = (change.path ?? []).join(".");
+    return change.kind === "A"
+      ? {
+          property: `${path}[${change.index}]`,
+          before: change.item?.lhs,
+          after: change.item?.rhs,
+        }
+      : {
+          property: PROPERTY_LABELS[path] ?? path,
+          before: change.lhs,
+          after: change.rhs,
+        };
+  });
+  const labels = Object.values(PROPERTY_LABELS);
+  return _.sortBy(changes, (change) => {
+    const index = labels.indexOf(change.property);
+    return index === -1 ? labels.length : index;
+  });
+}
+
+/**
+ * Build a readable report of what a schema diff adds, removes and alters
+ */
+export function buildSchemaDiffReport(
+  diffSchema: SchemaDiff | undefined
+): SchemaDiffReport {
+  const report: SchemaDiffReport = {
+    collections: { added: [], removed: [] },
+    fields: { added: [], removed: [], altered: [] },
+    relations: { added: [], removed: [] },
+  };
+  if (_.isEmpty(diffSchema)) return report;
+  const { collections = [], fields = [], relations = [] } = diffSchema!.diff;
+
+  for (const entry of collections) {
+    const action = changeAction(entry.diff);
+    if (action === "create") report.collections.added.push(entry.collection);
+    if (action === "delete") report.collections.removed.push(entry.collection);
+  }
+
+  for (const entry of fields) {
+    const field = `${entry.collection}.${entry.field}`;
+    const whole = entry.diff.find((change) => !change.path);
+    const action = changeAction(entry.diff);
+    if (action === "create") {
+      report.fields.added.push({ field, type: whole?.rhs?.type ?? null });
+    } else if (action === "delete") {
+      report.fields.removed.push({ field, type: whole?.lhs?.type ?? null });
+    } else {
+      report.fields.altered.push({
+        field,
+        changes: propertyChanges(entry.diff),
+      });
+    }
+  }
+
+  for (const entry of relations) {
+    const relation = {
+      field: `${entry.collection}.${entry.field}`,
+      related_collection: entry.related_collection,
+    };
+    const action = changeAction(entry.diff);
+    if (action === "create") report.relations.added.push(relation);
+    if (action === "delete") report.relations.removed.push(relation);
+  }
+
+  return report;
+}
+
+const formatValue = (value: any) =>
+  value === undefined ? "unset" : JSON.stringify(value);
+
+/**
+ * Render a schema diff report as lines for the terminal
+ */
+export function formatSchemaDiffReport(report: SchemaDiffReport): string[] {
+  const lines: string[] = [];
+  const section = (title: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    lines.push(`${title}:`, ...entries.map((entry) => `  ${entry}`));
+  };
+
+  section("Collections", [
+    ...report.collections.added.map((c) => `+ ${c}`),
+    ...report.collections.removed.map((c) => `- ${c}`),
+  ]);
+  section("Fields", [
+    ...report.fields.added.map((f) => `+ ${f.field} (${f.type ?? "alias"})`),
+    ...report.fields.removed.map((f) => `- ${f.field} (${f.type ?? "alias"})`),
+    ...report.fields.altered.map(
+      (f) =>
+        `~ ${f.field}: ${f.changes
+          .map(
+            (c) =>
+              `${c.property} ${formatValue(c.before)} → ${formatValue(c.after)}`
+          )
+          .join(", ")}`
+    ),
+  ]);
+  section("Relations", [
+    ...report.relations.added.map(
+      (r) => `+ ${r.field} → ${r.related_collection ?? "any"}`
+    ),
+    ...report.relations.removed.map(
+      (r) => `- ${r.field} → ${r.related_collection ?? "any"}`
+    ),
+  ]);
+
+  return lines.length > 0 ? lines : ["No schema differences."];
+}
@@ -0,0 +1,117 @@
+// Restricting schema export and import to a subset of collections
+import _ from "lodash";
+
+interface SchemaSnapshot {
+  collections?: any[];
+  fields?: any[];
+  relations?: any[];
+  [key: string]: any;
+}
+
+/**
+ * A relation with one end inside the collection filter and one outside
+ */
+export interface CrossingRelation {
+  collection: string;
+  field: string;
+  related_collection: string;
+}
+
+/**
+ * Parse a --collections value such as "blog_*,authors" into patterns
+ */
+export function parseCollectionPatterns(value: string): string[] {
+  return value
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Match a collection name against patterns where `*` matches any characters
+ */
+export function matchesCollectionPatterns(
+  collection: string,
+  patterns: string[]
+): boolean {
+  return patterns.some((pattern) =>
+    new RegExp(`^${pattern.split("*").map(_.escapeRegExp).join(".*")}$`).test(
+      collection
+    )
+  );
+}
+
+/**
+ * Combine two schema snapshots: collections matching the patterns, with
+ * their fields and relations, come from `incoming`; everything else is kept
+ * from `base`. Relations belong to the collection holding the foreign key.
+ */
+export function mergeSchemaSnapshots(
+  base: SchemaSnapshot,
+  incoming: SchemaSnapshot,
+  patterns: string[]
+): SchemaSnapshot {
+  const inside = (item: { collection: string }) =>
+    matchesCollectionPatterns(item.collection, patterns);
+  const merge = (key: "collections" | "fields" | "relations") =>
+    _.sortBy(
+      [
+        ...(base[key] ?? []).filter((item) => !inside(item)),
+        ...(incoming[key] ?? []).filter(inside),
+      ],
+      "collection"
+    );
+
+  return {
+    ...base,
+    collections: merge("collections"),
+    fields: merge("fields"),
+    relations: merge("relations"),
+  };
+}
+
+/**
+ * Relations of a snapshot that link a collection inside the filter with
+ * one outside it. Only the side inside the filter is exported or imported,
+ * so the other collection must already exist on the target.
+ */
+export function findCrossingRelations(
+  schema: SchemaSnapshot,
+  patterns: string[]
+): CrossingRelation[] {
+  return (schema.relations ?? [])
+    .filter(
+      (relation) =>
+        relation.related_collection &&
+        matchesCollectionPatterns(relation.collection, patterns) !==
+          matchesCollectionPatterns(relation.related_collection, patterns)
+    )
+    .map(({ collection, field, related_collection }) => ({
+      collection,
+      field,
+      related_collection,
+    }));
+}
+
+/**
+ * Print relations crossing the collection filter
+ */
+export function printCrossingRelations(
+  relations: CrossingRelation[],
+  patterns: string[]
+) {
+  if (relations.length === 0) return;
+  console.log(
+    `⚠️  ${
+      relations.length
+    } relations cross the --collections filter (${patterns.join(",")}):`
+  );
+  for (const { collection, field, related_collection } of relations) {
+    const outside = matchesCollectionPatterns(collection, patterns)
+      ? related_collection
+      : collection;
+    console.log(
+      `   - ${collection}.${field} → ${related_collection} (${outside} is outside the filter)`
+    );
+  }
+}
@@ -0,0 +1,133 @@
+// Reading and writing schema.json or its split per-collection layout
+import fs from "fs-extra";
+import path from "path";
+import _ from "lodash";
+
+/** Directory holding the split schema layout inside the config directory */
+export const SPLIT_SCHEMA_DIR = "schema";
+
+interface SchemaSnapshot {
+  collections?: any[];
+  fields?: any[];
+  relations?: any[];
+  [key: string]: any;
+}
+
+/**
+ * Contents of schema/collections/<name>.json. `collection` is null for
+ * system collections that only have custom fields or relations.
+ */
+export interface SchemaCollectionFile {
+  collection: Record<string, any> | null;
+  fields: any[];
+  relations: any[];
+}
+
+const metaPath = (configDir: string) =>
+  path.join(configDir, SPLIT_SCHEMA_DIR, "meta.json");
+const collectionsDir = (configDir: string) =>
+  path.join(configDir, SPLIT_SCHEMA_DIR, "collections");
+
+/**
+ * Whether the config directory uses the split schema layout
+ */
+export function hasSplitSchema(configDir: string): boolean {
+  return fs.existsSync(metaPath(configDir));
+}
+
+/**
+ * Split a snapshot into its top-level metadata (version, directus, vendor)
+ * and one entry per collection with the collection's fields and relations
+ */
+export function splitSchemaSnapshot(snapshot: SchemaSnapshot): {
+  meta: Record<string, any>;
+  collections: Record<string, SchemaCollectionFile>;
+} {
+  const collections: Record<string, SchemaCollectionFile> = {};
+  const entry = (name: string) => {
+    if (!collections[name]) {
+      collections[name] = { collection: null, fields: [], relations: [] };
+    }
+    return collections[name];
+  };
+
+  for (const collection of snapshot.collections ?? []) {
+    entry(collection.collection).collection = collection;
+  }
+  for (const field of snapshot.fields ?? []) {
+    entry(field.collection).fields.push(field);
+  }
+  for (const relation of snapshot.relations ?? []) {
+    entry(relation.collection).relations.push(relation);
+  }
+
+  return {
+    meta: _.omit(snapshot, ["collections", "fields", "relations"]),
+    collections,
+  };
+}
+
+/**
+ * Reassemble a snapshot from its metadata and per-collection entries
+ */
+export function assembleSchemaSnapshot(
+  meta: Record<string, any>,
+  collections: SchemaCollectionFile[]
+): SchemaSnapshot {
+  const sorted = _.sortBy(
+    collections,
+    (c) =>
+      c.collection?.collection ??
+      c.fields[0]?.collection ??
+      c.relations[0]?.collection
+  );
+  return {
+    ...meta,
+    collections: sorted
+      .map((c) => c.collection)
+      .filter((c): c is Record<string, any> => !!c),
+    fields: sorted.flatMap((c) => c.fields),
+    relations: sorted.flatMap((c) => c.relations),
+  };
+}
+
+/**
+ * Write a snapshot in the split layout, replacing any previous split files
+ */
+export function writeSplitSchema(configDir: string, snapshot: SchemaSnapshot) {
+  const { meta, collections } = splitSchemaSnapshot(snapshot);
+  fs.emptyDirSync(collectionsDir(configDir));
+  fs.writeJsonSync(metaPath(configDir), meta, { spaces: 2 });
+  for (const [name, content] of Object.entries(collections)) {
+    fs.writeJsonSync(
+      path.join(collectionsDir(configDir), `${name}.json`),
+      content,
+      {
+        spaces: 2,
+      }
+    );
+  }
+}
+
+/**
+ * Read the exported schema snapshot from either layout, preferring the
+ * split layout when present
+ * @returns The snapshot, or undefined when the schema was never exported
+ */
+export function readSchemaSnapshot(
+  configDir: string
+): SchemaSnapshot | undefined {
+  if (hasSplitSchema(configDir)) {
+    const dir = collectionsDir(configDir);
+    const files = fs.existsSync(dir)
+      ? fs.readdirSync(dir).filter((file) => file.endsWith(".json"))
+      : [];
+    return assembleSchemaSnapshot(
+      fs.readJsonSync(metaPath(configDir)),
+      files.map((file) => fs.readJsonSync(path.join(dir, file)))
+    );
+  }
+
+  const schemaPath = path.join(configDir, "schema.json");
+  return fs.existsSync(schemaPath) ? fs.readJsonSync(schemaPath) : undefined;
+}
@@ -0,0 +1,323 @@
+// Re-applying audit snapshots through the regular configuration managers
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { AuditManager } from "../audit";
+import _ from "lodash";
+import { ImportPlan, ImportResult } from "../base-config-manager";
+import { ConfigType } from "../types/generic";
+import { getActiveEnvironment } from "./environments";
+import { createManager } from "./supportedTypes";
+import { groupTranslations } from "../translations";
+import { FilesManager } from "../files";
+
+/**
+ * Write snapshot data into a config directory using the file layout
+ * the manager for the given type imports from
+ */
+export async function writeSnapshotConfig(
+  type: ConfigType,
+  data: any,
+  configDir: string
+): Promise<void> {
+  await fs.ensureDir(configDir);
+  const write = (filename: string, content: any) =>
+    fs.writeJson(path.join(configDir, filename), content, { spaces: 2 });
+
+  switch (type) {
+    case "roles":
+      await write("roles.json", data.roles ?? []);
+      await write("policies.json", data.policies ?? []);
+      await write("access.json", data.access ?? []);
+      await write("permissions.json", data.permissions ?? []);
+      break;
+    case "flows":
+      await write("flows.json", data.flows ?? []);
+      await write("operations.json", data.operations ?? []);
+      break;
+    case "dashboards":
+      await write("dashboards.json", data.dashboards ?? []);
+      await write("panels.json", data.panels ?? []);
+      break;
+    case "presets":
+      await write("presets.json", data.presets ?? []);
+      break;
+    case "users":
+      await write("users.json", data.users ?? []);
+      break;
+    case "files":
+      await write("files.json", data.files ?? []);
+      await write("folders.json", data.folders ?? []);
+      // Assets are not part of snapshots, reuse the ones from the config directory
+      const { configPath } = getActiveEnvironment();
+      if (await fs.pathExists(path.join(configPath, "assets"))) {
+        await fs.ensureSymlink(
+          path.resolve(configPath, "assets"),
+          path.join(configDir, "assets"),
+          "dir"
+        );
+      }
+      break;
+    case "translations":
+      await write("translations.json", data);
+      break;
+    case "extensions":
+      await write("extensions.json", data ?? []);
+      break;
+    case "data": {
+      // One file per collection; export snapshots wrap the object in an array
+      const collections = Array.isArray(data) ? data[0] : data;
+      await fs.ensureDir(path.join(configDir, "data"));
+      for (const [collection, rows] of Object.entries(collections ?? {})) {
+        await write(path.join("data", `${collection}.json`), rows);
+      }
+      break;
+    }
+    case "settings":
+    case "schema":
+      // Single-object types are wrapped in an array in enhanced snapshots
+      await write(`${type}.json`, Array.isArray(data) ? data[0] : data);
+      break;
+  }
+}
+
+/**
+ * Import snapshot data through the manager for its type, materialising it
+ * in a temporary config directory first
+ * @param allowDestructive Let a schema snapshot delete collections and fields
+ */
+export async function importSnapshotData(
+  type: ConfigType,
+  data: any,
+  dryRun = false,
+  allowDestructive = false
+): Promise<ImportResult> {
+  const configDir = await fs.mkdtemp(path.join(os.tmpdir(), `dct-${type}-`));
+  try {
+    await writeSnapshotConfig(type, data, configDir);
+    const manager = createManager(type, { configPath: configDir });
+    if (type === "schema") {
+      return (await manager.importSchema!(
+        dryRun,
+        false,
+        allowDestructive
+      )) as ImportResult;
+    }
+    return await manager.importConfig(dryRun);
+  } finally {
+    await fs.remove(configDir);
+  }
+}
+
+const parseSnapshotTimestamp = (snapshotId: string): number | null => {
+  const match = snapshotId.match(
+    /(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/
+  );
+  if (!match) return null;
+  const [, date, hours, minutes, seconds, millis] = match;
+  return Date.parse(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+};
+
+/**
+ * Roll back the imports of a run by re-applying each type's remote_before
+ * snapshot, in the reverse of the order the types were imported. Files are
+ * reverted from their import plan instead, see FilesManager.revertImport.
+ * Every rollback is recorded in the audit log as its own entry.
+ * @param types Types imported during the run, in import order
+ * @param since Start of the run; types that wrote no snapshot since then
+ * changed nothing and are skipped
+ * @param plans Import plans of the run, by type
+ */
+export async function rollbackImports(
+  types: ConfigType[],
+  since: Date,
+  plans: Partial<Record<ConfigType, ImportPlan>> = {}
+): Promise<{ type: ConfigType; status: "success" | "failure" }[]> {
+  const auditManager = new AuditManager();
+  const results: { type: ConfigType; status: "success" | "failure" }[] = [];
+
+  for (const type of [...types].reverse()) {
+    // The first snapshot of the run holds the state before it
+    const snapshot = _.minBy(
+      (await auditManager.getSnapshots(type)).filter((snap) => {
+        const timestamp = parseSnapshotTimestamp(snap.id);
+        return (
+          snap.id.endsWith("_import_remote_before.json") &&
+          timestamp !== null &&
+          timestamp >= since.getTime()
+        );
+      }),
+      (snap) => parseSnapshotTimestamp(snap.id)
+    );
+
+    if (!snapshot) {
+      console.log(`${type} changed nothing during this run, skipping`);
+      continue;
+    }
+
+    console.log(`Rolling back ${type} from ${snapshot.id}...`);
+    let result: { status: "success" | "failure"; message?: string };
+    try {
+      if (type === "files") {
+        const plan = plans.files;
+        if (!plan) {
+          throw new Error("No import plan recorded for files");
+        }
+        await new FilesManager().revertImport(plan);
+        result = { status: "success" };
+      } else {
+        // Undoing a schema import removes what it added, which is destructive
+        result = await importSnapshotData(
+          type,
+          await fs.readJson(snapshot.path),
+          false,
+          true
+        );
+      }
+    } catch (error: any) {
+      result = { status: "failure", message: error.message };
+    }
+
+    await auditManager.log({
+      operation: "rollback",
+      manager: "import-all",
+      itemType: type,
+      status: result.status,
+      message:
+        result.status === "success"
+          ? `Rolled back ${type} to ${snapshot.id}`
+          : `Rollback of ${type} failed: ${result.message}`,
+      snapshotFile: snapshot.path,
+    });
+
+    console.log(
+      result.status === "success"
+        ? `↩️  Rolled back ${type}`
+        : `❌ Failed to roll back ${type}: ${result.message}`
+    );
+    results.push({ type, status: result.status });
+  }
+
+  return results;
+}
+
+// Types whose export snapshots are split across several snapshot directories
+const COMPANION_SNAPSHOT_TYPES: Partial<Record<ConfigType, string[]>> = {
+  roles: ["policies", "access", "permissions"],
+  flows: ["operations"],
+  dashboards: ["panels"],
+  files: ["folders"],
+};
+
+// Maximum distance between an export snapshot and its companions
+const COMPANION_SNAPSHOT_WINDOW_MS = 60 * 1000;
+
+/**
+ * Find the export snapshot of a companion type (e.g. policies for roles)
+ * taken during the same export as the given snapshot
+ */
+async function findCompanionSnapshotData(
+  auditManager: AuditManager,
+  companionType: string,
+  snapshotId: string
+): Promise<any[]> {
+  const target = parseSnapshotTimestamp(snapshotId);
+  if (target === null) {
+    throw new Error(`Cannot read a timestamp from snapshot id: ${snapshotId}`);
+  }
+
+  let closest: { path: string; distance: number } | undefined;
+  for (const snap of await auditManager.getSnapshots(companionType)) {
+    if (snap.id.includes("_import_")) continue;
+    const timestamp = parseSnapshotTimestamp(snap.id);
+    if (timestamp === null) continue;
+    const distance = Math.abs(timestamp - target);
+    if (!closest || distance < closest.distance) {
+      closest = { path: snap.path, distance };
+    }
+  }
+
+  if (!closest || closest.distance > COMPANION_SNAPSHOT_WINDOW_MS) {
+    throw new Error(
+      `No ${companionType} snapshot found from the same export as ${snapshotId}`
+    );
+  }
+
+  const data = await fs.readJson(closest.path);
+  return data.metadata && data.data ? data.data : data;
+}
+
+/**
+ * Id of an audit snapshot given its id or the 1-based index printed by
+ * 'audit list', or undefined when there is no such snapshot
+ */
+export async function findSnapshotId(
+  type: ConfigType,
+  snapshot: string
+): Promise<string | undefined> {
+  const snapshots = await new AuditManager().getSnapshots(type);
+  const index = /^\d+$/.test(snapshot) ? parseInt(snapshot, 10) - 1 : -1;
+  if (index >= 0 && index < snapshots.length) {
+    return snapshots[index].id;
+  }
+  return snapshots.find((snap) => snap.id === snapshot)?.id;
+}
+
+/**
+ * Load an audit snapshot of a config type and convert it into the data
+ * shape importSnapshotData expects. Accepts regular export snapshots
+ * (enhanced or legacy format) as well as import remote_before snapshots.
+ */
+export async function loadSnapshotForRestore(
+  type: ConfigType,
+  snapshotId: string
+): Promise<any> {
+  const auditManager = new AuditManager();
+  const snapshotInfo = (await auditManager.getSnapshots(type)).find(
+    (snap) => snap.id === snapshotId
+  );
+  if (!snapshotInfo) {
+    throw new Error(`Snapshot not found for ${type}: ${snapshotId}`);
+  }
+
+  const manager = createManager(type);
+  const { snapshot, validation } = await manager.loadEnhancedSnapshot(
+    snapshotInfo.path
+  );
+  if (!snapshot || !validation.isValid) {
+    throw new Error(
+      `Snapshot ${snapshotId} is not valid: ${validation.issues.join(", ")}`
+    );
+  }
+
+  // Import snapshots hold the full state of the type in a single object
+  if (snapshotId.includes("_import_")) {
+    return snapshot.data[0];
+  }
+
+  switch (type) {
+    case "roles":
+    case "flows":
+    case "dashboards":
+    case "files": {
+      const data: Record<string, any> = { [type]: snapshot.data };
+      for (const companion of COMPANION_SNAPSHOT_TYPES[type] ?? []) {
+        data[companion] = await findCompanionSnapshotData(
+          auditManager,
+          companion,
+          snapshotId
+        );
+      }
+      return data;
+    }
+    case "presets":
+      return { presets: snapshot.data };
+    case "users":
+      return { users: snapshot.data };
+    case "translations":
+      // Export snapshots hold rows, translations.json groups them by language
+      return groupTranslations(snapshot.data);
+    default:
+      return snapshot.data;
+  }
+}
@@ -5,29 +5,132 @@ import { RolesManager } from "../roles";
 import { SettingsManager } from "../settings";
 import { FilesManager } from "../files";
 import { SchemaManager } from "../schema";
+import { DashboardsManager } from "../dashboards";
+import { PresetsManager } from "../presets";
+import { TranslationsManager } from "../translations";
+import { ExtensionsManager } from "../extensions";
+import { UsersManager } from "../users";
+import { DataManager } from "../data";
+import { BaseConfigManager, ManagerOptions } from "../base-config-manager";
+import { MatchBy } from "./idMap";
 
 export interface BaseManager {
   exportFlows?: () => Promise<void>;
   exportRoles?: () => Promise<void>;
   exportSettings?: () => Promise<void>;
   exportFiles?: () => Promise<void>;
-  exportSchema?: () => Promise<void>;
-  importFlows?: (dryRun?: boolean) => Promise<void>;
-  importRoles?: (dryRun?: boolean) => Promise<void>;
-  importSettings?: (dryRun?: boolean) => Promise<void>;
-  importFiles?: (dryRun?: boolean) => Promise<void>;
-  importSchema?: (dryRun?: boolean) => Promise<void>;
+  exportSchema?: (collections?: string[], split?: boolean) => Promise<void>;
+  exportDashboards?: () => Promise<void>;
+  exportPresets?: (includeUserPresets?: boolean) => Promise<void>;
+  exportTranslations?: () => Promise<void>;
+  exportExtensions?: () => Promise<void>;
+  exportUsers?: () => Promise<void>;
+  exportData?: () => Promise<void>;
+  importFlows?: (dryRun?: boolean) => Promise<unknown>;
+  importRoles?: (dryRun?: boolean, matchBy?: MatchBy) => Promise<unknown>;
+  importSettings?: (dryRun?: boolean) => Promise<unknown>;
+  importFiles?: (dryRun?: boolean, prune?: boolean) => Promise<unknown>;
+  importSchema?: (
+    dryRun?: boolean,
+    force?: boolean,
+    allowDestructive?: boolean,
+    collections?: string[]
+  ) => Promise<unknown>;
+  importDashboards?: (dryRun?: boolean) => Promise<unknown>;
+  importPresets?: (
+    dryRun?: boolean,
+    includeUserPresets?: boolean
+  ) => Promise<unknown>;
+  importTranslations?: (dryRun?: boolean) => Promise<unknown>;
+  importExtensions?: (dryRun?: boolean, check?: boolean) => Promise<unknown>;
+  importUsers?: (dryRun?: boolean) => Promise<unknown>;
+  importData?: (dryRun?: boolean) => Promise<unknown>;
 }
 
-export const managers: Record<ConfigType, BaseManager> = {
-  flows: new FlowsManager(),
-  roles: new RolesManager(),
-  settings: new SettingsManager(),
-  files: new FilesManager(),
-  schema: new SchemaManager(),
+const managerFactories: Record<
+  ConfigType,
+  (options: ManagerOptions) => BaseConfigManager<any> & BaseManager
+> = {
+  flows: (options) => new FlowsManager(options),
+  roles: (options) => new RolesManager(options),
+  settings: (options) => new SettingsManager(options),
+  files: (options) => new FilesManager(options),
+  schema: (options) => new SchemaManager(options),
+  dashboards: (options) => new DashboardsManager(options),
+  presets: (options) => new PresetsManager(options),
+  translations: (options) => new TranslationsManager(options),
+  extensions: (options) => new ExtensionsManager(options),
+  users: (options) => new UsersManager(options),
+  data: (options) => new DataManager(options),
 };
 
-export const supportedTypes = Object.keys(managers) as ConfigType[];
+/**
+ * Create a fresh manager for a config type, e.g. to import from another config directory
+ */
+export function createManager(
+  type: ConfigType,
+  options: ManagerOptions = {}
+): BaseConfigManager<any> & BaseManager {
+  return managerFactories[type](options);
+}
+
+export const supportedTypes = Object.keys(managerFactories) as ConfigType[];
+
+/** Order in which config types are exported, imported and synced */
+const SYNC_ORDER: ConfigType[] = [
+  "extensions",
+  "schema",
+  "dashboards",
+  "translations",
+  "roles",
+  "users",
+  "presets",
+  "files",
+  "settings",
+  "flows",
+  "data",
+];
+
+/**
+ * Types the *-all commands leave out unless listed in --include, so config
+ * directories exported before these types existed keep importing
+ */
+export const OPT_IN_TYPES: ConfigType[] = [
+  "presets",
+  "translations",
+  "extensions",
+  "data",
+];
+
+/**
+ * The default sync sequence plus the given opt-in types, in sync order
+ */
+export function syncSequence(include: ConfigType[] = []): ConfigType[] {
+  return SYNC_ORDER.filter(
+    (type) => !OPT_IN_TYPES.includes(type) || include.includes(type)
+  );
+}
+
+/**
+ * Types whose imports only create and update. An atomic import-all cannot
+ * undo what a failed run added to them, so it refuses to include them.
+ */
+export const UPSERT_ONLY_TYPES: ConfigType[] = [
+  "translations",
+  "users",
+  "data",
+];
+
+/**
+ * Parse a comma-separated --include list of config types
+ */
+export function parseTypeList(value: string): ConfigType[] {
+  return value
+    .split(",")
+    .map((type) => type.trim())
+    .filter(Boolean)
+    .map(validateType);
+}
 
 export function validateType(value: string): ConfigType {
   if (supportedTypes.includes(value as ConfigType)) {
@@ -0,0 +1,206 @@
+// Offline validation of references between the exported config files
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { getActiveEnvironment } from "./environments";
+import { readSchemaSnapshot } from "./schemaLayout";
+import { FlowsManager } from "../flows";
+
+export interface ReferenceIssue {
+  /** Config file containing the broken reference */
+  file: string;
+  /** Identifier of the item holding the reference */
+  itemId: string;
+  /** Field holding the reference */
+  field: string;
+  /** The referenced id or name that could not be resolved */
+  reference: string;
+  /** Config file the reference was expected in */
+  expectedIn: string;
+}
+
+// Settings fields pointing at other config types
+const SETTINGS_REFERENCES: Record<string, "files" | "folders" | "roles"> = {
+  project_logo: "files",
+  public_foreground: "files",
+  public_background: "files",
+  public_favicon: "files",
+  storage_default_folder: "folders",
+  public_registration_role: "roles",
+};
+
+const readConfigFile = (configPath: string, filename: string): any => {
+  const filePath = join(configPath, filename);
+  return existsSync(filePath)
+    ? JSON.parse(readFileSync(filePath, "utf8"))
+    : undefined;
+};
+
+const idSet = (items?: Record<string, any>[]) =>
+  items ? new Set(items.map((item) => item.id)) : undefined;
+
+/**
+ * Check every cross-file reference in the config directory.
+ * References into a config file that was not exported are not checked.
+ * @param configPath Directory holding the exported config files
+ * @returns The references that do not resolve
+ */
+export function validateConfigReferences(
+  configPath: string = getActiveEnvironment().configPath
+): ReferenceIssue[] {
+  const issues: ReferenceIssue[] = [];
+
+  const settings = readConfigFile(configPath, "settings.json");
+  const files = readConfigFile(configPath, "files.json");
+  const folders = readConfigFile(configPath, "folders.json");
+  const roles = readConfigFile(configPath, "roles.json");
+  const policies = readConfigFile(configPath, "policies.json");
+  const access = readConfigFile(configPath, "access.json");
+  const permissions = readConfigFile(configPath, "permissions.json");
+  const flows = readConfigFile(configPath, "flows.json");
+  const operations = readConfigFile(configPath, "operations.json");
+  const schema = readSchemaSnapshot(configPath);
+
+  const known: Record<string, Set<string> | undefined> = {
+    files: idSet(files),
+    folders: idSet(folders),
+    roles: idSet(roles),
+    policies: idSet(policies),
+  };
+  const collections: Set<string> | undefined = schema
+    ? new Set((schema.collections ?? []).map((c: any) => c.collection))
+    : undefined;
+
+  // An access entry without role or user attaches its policy to the public
+  // role. System policies are not exported, so these are resolved remotely.
+  const publicPolicyIds = new Set<string>(
+    (access ?? [])
+      .filter((a: any) => !a.role && !a.user && a.policy)
+      .map((a: any) => a.policy)
+  );
+
+  if (settings) {
+    for (const [field, target] of Object.entries(SETTINGS_REFERENCES)) {
+      const value = settings[field];
+      if (value && known[target] && !known[target]!.has(value)) {
+        issues.push({
+          file: "settings.json",
+          itemId: "settings",
+          field,
+          reference: value,
+          expectedIn: `${target}.json`,
+        });
+      }
+    }
+  }
+
+  for (const entry of access ?? []) {
+    if (entry.role && known.roles && !known.roles.has(entry.role)) {
+      issues.push({
+        file: "access.json",
+        itemId: entry.id,
+        field: "role",
+        reference: entry.role,
+        expectedIn: "roles.json",
+      });
+    }
+    if (
+      entry.policy &&
+      known.policies &&
+      !known.policies.has(entry.policy) &&
+      !publicPolicyIds.has(entry.policy)
+    ) {
+      issues.push({
+        file: "access.json",
+        itemId: entry.id,
+        field: "policy",
+        reference: entry.policy,
+        expectedIn: "policies.json",
+      });
+    }
+  }
+
+  for (const permission of permissions ?? []) {
+    const itemId = `${permission.collection}:${permission.action}`;
+    if (
+      permission.policy &&
+      known.policies &&
+      !known.policies.has(permission.policy) &&
+      !publicPolicyIds.has(permission.policy)
+    ) {
+      issues.push({
+        file: "permissions.json",
+        itemId,
+        field: "policy",
+        reference: permission.policy,
+        expectedIn: "policies.json",
+      });
+    }
+    // System collections are not part of the schema snapshot
+    if (
+      permission.collection &&
+      collections &&
+      !permission.collection.startsWith("directus_") &&
+      !collections.has(permission.collection)
+    ) {
+      issues.push({
+        file: "permissions.json",
+        itemId,
+        field: "collection",
+        reference: permission.collection,
+        expectedIn: "schema.json",
+      });
+    }
+  }
+
+  if (flows && operations) {
+    const flowsManager = new FlowsManager({ configPath });
+    const dependencies = flowsManager.buildDependencyGraph(flows, operations);
+    const dangling = flowsManager.findDanglingDependencies(
+      dependencies,
+      flows,
+      operations,
+      collections ? Array.from(collections) : undefined
+    );
+    for (const dependency of dangling) {
+      const fromFlow = dependency.type.startsWith("flows->");
+      issues.push({
+        file: fromFlow ? "flows.json" : "operations.json",
+        itemId: dependency.sourceId,
+        field:
+          dependency.type === "flows->collections"
+            ? "options.collections"
+            : dependency.type === "operations->flows"
+            ? "options.flow"
+            : fromFlow
+            ? "operation"
+            : dependency.relationship,
+        reference: dependency.targetId,
+        expectedIn:
+          dependency.type === "flows->collections"
+            ? "schema.json"
+            : dependency.type === "operations->flows"
+            ? "flows.json"
+            : "operations.json",
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Print reference issues in a CLI-friendly format
+ */
+export function printReferenceIssues(issues: ReferenceIssue[]) {
+  if (issues.length === 0) {
+    console.log("✅ All cross-file references resolve");
+    return;
+  }
+
+  console.log(`❌ Found ${issues.length} broken references:`);
+  for (const issue of issues) {
+    console.log(
+      `   ${issue.file} [${issue.itemId}] ${issue.field} → ${issue.reference} (not found in ${issue.expectedIn})`
+    );
+  }
+}
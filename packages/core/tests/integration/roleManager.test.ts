@@ -5,8 +5,29 @@ import { ConfigComparator } from '../utils/comparison';
 import { RolesManager } from '../../src/roles';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { mkdtemp, rm } from 'fs/promises';
-import { createDirectus, rest } from '@directus/sdk';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import {
+  createDirectus,
+  createUser,
+  readPermissions,
+  readPolicies,
+  readRoles,
+  rest,
+  RestCommand,
+  staticToken,
+} from '@directus/sdk';
+
+// Read a file written by an export
+async function readExportedFile(configPath: string, file: string): Promise<any> {
+  return JSON.parse(await readFile(join(configPath, file), 'utf8'));
+}
+
+// Admin client for checking the target instance
+function createAdminClient(instance: DirectusTestInstance) {
+  return createDirectus(instance.apiUrl)
+    .with(staticToken(instance.adminToken!))
+    .with(rest());
+}
 
 describe('RoleManager Integration Tests', () => {
   let dockerManager: DockerTestManager;
@@ -95,10 +116,10 @@ describe('RoleManager Integration Tests', () => {
       await sourceManager.exportConfig();
       
       // Verify export files were created
-      const exportedRoles = await sourceManager['readConfigFile']('roles.json');
-      const exportedPolicies = await sourceManager['readConfigFile']('policies.json');
-      const exportedAccess = await sourceManager['readConfigFile']('access.json');
-      const exportedPermissions = await sourceManager['readConfigFile']('permissions.json');
+      const exportedRoles = await readExportedFile(tempConfigPath, 'roles.json');
+      const exportedPolicies = await readExportedFile(tempConfigPath, 'policies.json');
+      const exportedAccess = await readExportedFile(tempConfigPath, 'access.json');
+      const exportedPermissions = await readExportedFile(tempConfigPath, 'permissions.json');
 
       expect(exportedRoles).toBeDefined();
       expect(exportedPolicies).toBeDefined();
@@ -127,39 +148,21 @@ describe('RoleManager Integration Tests', () => {
       // Step 3: Fetch configurations from target instance
       console.log('Fetching configurations from target for comparison...');
       
-      const targetClient = createDirectus(targetInstance.apiUrl)
-        .with(rest());
-      targetClient.setToken(targetInstance.adminToken!);
-
-      // Custom read functions
-      const readRoles = () => ({
-        path: '/roles',
-        method: 'GET' as const,
-        params: { limit: -1, fields: ['*'] }
-      });
-
-      const readPolicies = () => ({
-        path: '/policies',
-        method: 'GET' as const,
-        params: { limit: -1, fields: ['*'] }
-      });
+      const targetClient = createAdminClient(targetInstance);
 
-      const readAccess = () => ({
+      // The SDK has no reader for access entries
+      const readAccess = (): RestCommand<any[], any> => () => ({
         path: '/access',
-        method: 'GET' as const,
+        method: 'GET',
         params: { limit: -1, fields: ['*'] }
       });
 
-      const readPermissions = () => ({
-        path: '/permissions',
-        method: 'GET' as const,
-        params: { limit: -1, fields: ['*'] }
-      });
-
-      const targetRoles = await targetClient.request(readRoles());
-      const targetPolicies = await targetClient.request(readPolicies());
+      const targetRoles = await targetClient.request(readRoles({ limit: -1, fields: ['*'] }));
+      const targetPolicies = await targetClient.request(readPolicies({ limit: -1, fields: ['*'] }));
       const targetAccess = await targetClient.request(readAccess());
-      const targetPermissions = await targetClient.request(readPermissions());
+      const targetPermissions = await targetClient.request(
+        readPermissions({ limit: -1, fields: ['*'] })
+      );
 
       const targetConfig = {
         roles: targetRoles.filter((r: any) => !['Administrator', 'Public'].includes(r.name)),
@@ -206,16 +209,12 @@ describe('RoleManager Integration Tests', () => {
       await targetManager.importConfig();
 
       // Create test users in target instance
-      const targetClient = createDirectus(targetInstance.apiUrl)
-        .with(rest());
-      targetClient.setToken(targetInstance.adminToken!);
+      const targetClient = createAdminClient(targetInstance);
 
       // Get role IDs in target
-      const roleResponse = await targetClient.request({
-        path: '/roles',
-        method: 'GET' as const,
-        params: { limit: -1, fields: ['id', 'name'] }
-      });
+      const roleResponse = await targetClient.request(
+        readRoles({ limit: -1, fields: ['id', 'name'] })
+      );
       const roleMap = new Map(roleResponse.map((r: any) => [r.name, r.id]));
 
       // Create vendor user in target
@@ -254,15 +253,11 @@ describe('RoleManager Integration Tests', () => {
       await sourceManager.exportConfig();
 
       // Get initial state of target
-      const targetClient = createDirectus(targetInstance.apiUrl)
-        .with(rest());
-      targetClient.setToken(targetInstance.adminToken!);
-
-      const initialRoles = await targetClient.request({
-        path: '/roles',
-        method: 'GET' as const,
-        params: { limit: -1, fields: ['id', 'name'] }
-      });
+      const targetClient = createAdminClient(targetInstance);
+
+      const initialRoles = await targetClient.request(
+        readRoles({ limit: -1, fields: ['id', 'name'] })
+      );
 
       // Import with dry-run
       const targetManager = new RolesManager({
@@ -274,11 +269,9 @@ describe('RoleManager Integration Tests', () => {
       const dryRunResult = await targetManager.importConfig(true);
 
       // Verify no changes were made
-      const afterRoles = await targetClient.request({
-        path: '/roles',
-        method: 'GET' as const,
-        params: { limit: -1, fields: ['id', 'name'] }
-      });
+      const afterRoles = await targetClient.request(
+        readRoles({ limit: -1, fields: ['id', 'name'] })
+      );
 
       expect(afterRoles).toEqual(initialRoles);
       expect(dryRunResult).toBeDefined();
@@ -296,7 +289,7 @@ describe('RoleManager Integration Tests', () => {
       await sourceManager.exportConfig();
 
       // Check exported permissions
-      const exportedPermissions = await sourceManager['readConfigFile']('permissions.json');
+      const exportedPermissions = await readExportedFile(tempConfigPath, 'permissions.json');
       
       // Find the directus_users read permission for authenticated users
       const userReadPermission = exportedPermissions.find((p: any) => 
@@ -321,17 +314,13 @@ describe('RoleManager Integration Tests', () => {
       await targetManager.importConfig();
 
       // Check imported permissions
-      const targetClient = createDirectus(targetInstance.apiUrl)
-        .with(rest());
-      targetClient.setToken(targetInstance.adminToken!);
+      const targetClient = createAdminClient(targetInstance);
 
-      const targetPermissions = await targetClient.request({
-        path: '/permissions',
-        method: 'GET' as const,
-        params: { limit: -1, fields: ['*'] }
-      });
+      const targetPermissions = await targetClient.request(
+        readPermissions({ limit: -1, fields: ['*'] })
+      );
 
-      const targetUserReadPerm = targetPermissions.find((p: any) => 
+      const targetUserReadPerm: any = targetPermissions.find((p: any) => 
         p.collection === 'directus_users' && 
         p.action === 'read' &&
         p.permissions?._and?.[0]?.id?._eq === '$CURRENT_USER'
@@ -343,13 +332,4 @@ describe('RoleManager Integration Tests', () => {
       expect(targetUserReadPerm.fields.length).toBeGreaterThan(1);
     });
   });
-});
-
-// Add this function at the module level for creating users
-function createUser(userData: any) {
-  return {
-    path: '/users',
-    method: 'POST' as const,
-    body: userData
-  };
-}
\ No newline at end of file
+});
\ No newline at end of file
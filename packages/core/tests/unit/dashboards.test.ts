@@ -0,0 +1,87 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { DashboardsManager } from '../../src/dashboards';
+import {
+  FakeDirectus,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+describe('DashboardsManager', () => {
+  let options: ReturnType<typeof tempManagerOptions>;
+  let manager: DashboardsManager;
+  let fake: FakeDirectus;
+
+  const remote: Record<string, Record<string, any>[]> = {
+    '/dashboards': [
+      { id: 'kpis', name: 'KPIs', icon: 'bar_chart', panels: ['sales'] },
+      { id: 'retired', name: 'Retired', icon: 'delete', panels: ['old'] },
+    ],
+    '/panels': [
+      { id: 'sales', dashboard: 'kpis', name: 'Sales', width: 6, user_created: 'admin' },
+      { id: 'old', dashboard: 'retired', name: 'Old', width: 6, user_created: 'admin' },
+    ],
+  };
+
+  beforeEach(() => {
+    options = tempManagerOptions();
+    mkdirSync(options.configPath, { recursive: true });
+    manager = new DashboardsManager(options);
+    fake = useFakeDirectus(
+      manager,
+      new FakeDirectus(({ method, path }) => (method === 'GET' ? remote[path] : {}))
+    );
+  });
+
+  afterEach(removeTempDirs);
+
+  const writeConfig = (dashboards: Record<string, any>[], panels: Record<string, any>[]) => {
+    writeFileSync(join(options.configPath, 'dashboards.json'), JSON.stringify(dashboards));
+    writeFileSync(join(options.configPath, 'panels.json'), JSON.stringify(panels));
+  };
+
+  test('exports dashboards and their panels to separate files', async () => {
+    await manager.exportConfig();
+
+    const read = (file: string) => JSON.parse(readFileSync(join(options.configPath, file), 'utf8'));
+    expect(read('dashboards.json').map((dashboard: any) => dashboard.panels)).toEqual([[], []]);
+    expect(read('panels.json')).toEqual([
+      { id: 'sales', dashboard: 'kpis', name: 'Sales', width: 6, user_created: null },
+      { id: 'old', dashboard: 'retired', name: 'Old', width: 6, user_created: null },
+    ]);
+  });
+
+  test('reconciles dashboards before panels and removes stale dashboards last', async () => {
+    writeConfig(
+      [
+        { id: 'kpis', name: 'KPIs', icon: 'insights', panels: [] },
+        { id: 'ops', name: 'Operations', icon: 'build', panels: [] },
+      ],
+      [
+        { id: 'sales', dashboard: 'kpis', name: 'Sales', width: 12, user_created: null },
+        { id: 'uptime', dashboard: 'ops', name: 'Uptime', width: 6, user_created: null },
+      ]
+    );
+
+    const result = await manager.importConfig();
+
+    expect(result.status).toBe('success');
+    expect(fake.writes().map(({ method, path, body }) => [method, path, body])).toEqual([
+      ['POST', '/dashboards', { id: 'ops', name: 'Operations', icon: 'build' }],
+      ['PATCH', '/dashboards/kpis', { name: 'KPIs', icon: 'insights' }],
+      ['DELETE', '/panels', ['old']],
+      ['POST', '/panels', { id: 'uptime', dashboard: 'ops', name: 'Uptime', width: 6 }],
+      ['PATCH', '/panels/sales', { dashboard: 'kpis', name: 'Sales', width: 12 }],
+      ['DELETE', '/dashboards', ['retired']],
+    ]);
+  });
+
+  test('skips the import when dashboards.json is missing', async () => {
+    const result = await manager.importConfig();
+
+    expect(existsSync(join(options.configPath, 'dashboards.json'))).toBe(false);
+    expect(result.status).toBe('success');
+    expect(fake.requests).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { DashboardsManager } from '../../src/dashboards';
+import {
+  FakeDirectus,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+describe('DashboardsManager pairing', () => {
+  afterEach(removeTempDirs);
+
+  test('pairs a dashboard created on both sides by name instead of duplicating it', async () => {
+    const options = tempManagerOptions();
+    mkdirSync(options.configPath, { recursive: true });
+    writeFileSync(
+      join(options.configPath, 'dashboards.json'),
+      JSON.stringify([{ id: 'local-kpis', name: 'KPIs', icon: 'insights' }])
+    );
+    writeFileSync(
+      join(options.configPath, 'panels.json'),
+      JSON.stringify([{ id: 'panel', dashboard: 'local-kpis', name: 'Sales' }])
+    );
+
+    const manager = new DashboardsManager(options);
+    useFakeDirectus(
+      manager,
+      new FakeDirectus(({ path }) =>
+        path === '/dashboards'
+          ? [{ id: 'target-kpis', name: 'KPIs', icon: 'bar_chart' }]
+          : []
+      )
+    );
+
+    const result = await manager.importConfig(true);
+
+    expect(result.status).toBe('success');
+    expect(result.plan?.actions).toEqual([
+      expect.objectContaining({
+        itemType: 'dashboards',
+        id: 'target-kpis',
+        action: 'update',
+        before: { icon: 'bar_chart' },
+        after: { icon: 'insights' },
+      }),
+      expect.objectContaining({
+        itemType: 'panels',
+        id: 'panel',
+        action: 'create',
+        after: { id: 'panel', dashboard: 'target-kpis', name: 'Sales' },
+      }),
+    ]);
+  });
+});
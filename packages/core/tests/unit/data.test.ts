@@ -0,0 +1,188 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { DataManager, orderCollectionsByRelations, resolveRelations } from '../../src/data';
+import {
+  FakeDirectus,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+describe('orderCollectionsByRelations', () => {
+  test('imports related collections before the collections pointing at them', () => {
+    expect(
+      orderCollectionsByRelations(
+        ['articles', 'tags', 'authors', 'countries'],
+        [
+          { collection: 'articles', related_collection: 'authors' },
+          { collection: 'authors', related_collection: 'countries' },
+          { collection: 'articles', related_collection: 'directus_users' },
+          { collection: 'articles', related_collection: null },
+        ]
+      )
+    ).toEqual(['countries', 'authors', 'articles', 'tags']);
+  });
+
+  test('keeps the configured order for self references and cycles', () => {
+    expect(
+      orderCollectionsByRelations(
+        ['a', 'b', 'c'],
+        [
+          { collection: 'a', related_collection: 'a' },
+          { collection: 'a', related_collection: 'b' },
+          { collection: 'b', related_collection: 'a' },
+        ]
+      )
+    ).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('resolveRelations', () => {
+  const seededKeys = { authors: new Set(['1', '2']), articles: new Set(['5']) };
+  const primaryKeyMaps = { authors: new Map([['1', 10]]), articles: new Map() };
+  const relations = { author: 'authors', parent: 'articles', editor: 'authors' };
+
+  test('points seeded relations at target keys and reports unknown ones as pending', () => {
+    expect(
+      resolveRelations(
+        { id: 7, title: 'Intro', author: 1, parent: 5, editor: 3 },
+        relations,
+        primaryKeyMaps,
+        seededKeys
+      )
+    ).toEqual({
+      row: { id: 7, title: 'Intro', author: 10, parent: 5, editor: 3 },
+      pending: ['parent'],
+    });
+  });
+
+  test('leaves empty relations alone', () => {
+    expect(
+      resolveRelations({ author: null, parent: undefined }, relations, primaryKeyMaps, seededKeys)
+    ).toEqual({ row: { author: null, parent: undefined }, pending: [] });
+  });
+});
+
+describe('DataManager', () => {
+  const primaryKey = (collection: string) => ({
+    collection,
+    field: 'id',
+    schema: { is_primary_key: true, has_auto_increment: true },
+  });
+  const schema = {
+    collections: [{ collection: 'articles' }, { collection: 'authors' }],
+    fields: [
+      primaryKey('articles'),
+      primaryKey('authors'),
+      { collection: 'authors', field: 'articles', type: 'alias' },
+    ],
+    relations: [
+      { collection: 'articles', field: 'author', related_collection: 'authors' },
+      { collection: 'articles', field: 'parent', related_collection: 'articles' },
+    ],
+  };
+
+  let options: ReturnType<typeof tempManagerOptions>;
+  let manager: DataManager;
+  let fake: FakeDirectus;
+
+  beforeEach(() => {
+    options = tempManagerOptions();
+    const root = dirname(options.configPath);
+    mkdirSync(join(options.configPath, 'data'), { recursive: true });
+    writeFileSync(
+      join(root, 'dct.config.json'),
+      JSON.stringify({
+        dataCollections: [
+          { collection: 'articles', key: 'slug' },
+          { collection: 'authors', key: 'email' },
+        ],
+      })
+    );
+    writeFileSync(
+      join(options.configPath, 'data', 'authors.json'),
+      JSON.stringify([
+        { id: 1, email: 'ada@example.com', name: 'Ada', articles: [6, 7, 8] },
+        { id: 2, email: 'bob@example.com', name: 'Bob', articles: [5] },
+      ])
+    );
+    writeFileSync(
+      join(options.configPath, 'data', 'articles.json'),
+      JSON.stringify([
+        { id: 5, slug: 'intro', author: 2, parent: 6 },
+        { id: 6, slug: 'series', author: 1, parent: null },
+        { id: 7, slug: 'part-2', author: 1, parent: 8 },
+        { id: 8, slug: 'part-1', author: 1, parent: 6 },
+      ])
+    );
+    jest.spyOn(process, 'cwd').mockReturnValue(root);
+
+    const remote: Record<string, Record<string, any>[]> = {
+      authors: [{ id: 10, email: 'ada@example.com', name: 'Ada', articles: [20] }],
+      articles: [{ id: 20, slug: 'series', author: 10, parent: null }],
+    };
+    let nextId = 100;
+    manager = new DataManager(options);
+    fake = useFakeDirectus(
+      manager,
+      new FakeDirectus(({ method, path, body }) => {
+        if (path === '/schema/snapshot') return schema;
+        const collection = path.split('/')[2];
+        if (method === 'GET') return remote[collection];
+        if (method === 'POST') return { ...body, id: nextId++ };
+        return {};
+      })
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    removeTempDirs();
+  });
+
+  test('seeds related rows with the primary keys assigned by the target', async () => {
+    const result = await manager.importConfig();
+
+    expect(result.status).toBe('success');
+    expect(fake.writes().map(({ method, path, body }) => [method, path, body])).toEqual([
+      ['POST', '/items/authors', { email: 'bob@example.com', name: 'Bob' }],
+      ['POST', '/items/articles', { slug: 'intro', author: 100, parent: 20 }],
+      ['POST', '/items/articles', { slug: 'part-2', author: 10 }],
+      ['POST', '/items/articles', { slug: 'part-1', author: 10, parent: 20 }],
+      ['PATCH', '/items/articles/102', { parent: 103 }],
+    ]);
+  });
+
+  test('compares matched rows after pointing their relations at the target', async () => {
+    const result = await manager.importConfig(true);
+
+    expect(result.plan?.summary).toEqual({ create: 4, update: 0, delete: 0, skip: 2 });
+    expect(fake.writes()).toEqual([]);
+  });
+
+  test('exports rows without alias fields', async () => {
+    await manager.exportConfig();
+
+    const exported = JSON.parse(
+      readFileSync(join(options.configPath, 'data', 'authors.json'), 'utf8')
+    );
+    expect(exported).toEqual([{ id: 10, email: 'ada@example.com', name: 'Ada' }]);
+  });
+
+  test('fails when a configured collection is missing from the target schema', async () => {
+    fake = useFakeDirectus(
+      manager,
+      new FakeDirectus(({ path }) =>
+        path === '/schema/snapshot' ? { ...schema, collections: [{ collection: 'articles' }] } : []
+      )
+    );
+
+    const result = await manager.importConfig(true);
+
+    expect(result).toEqual({
+      status: 'failure',
+      message: 'Data collections missing from the target schema: authors',
+    });
+    expect(fake.writes()).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { compareDriftState, DriftReport, formatDriftJUnit } from '../../src/utils/drift';
+
+describe('compareDriftState', () => {
+  test('reports added, removed and modified items with the fields that differ', () => {
+    const report = compareDriftState(
+      'roles',
+      {
+        roles: {
+          editor: { id: 'editor', name: 'Editor', icon: 'edit' },
+          retired: { id: 'retired', name: 'Retired' },
+          same: { id: 'same', name: 'Same' },
+        },
+      },
+      {
+        roles: {
+          editor: { id: 'editor', name: 'Editor', icon: 'person' },
+          same: { id: 'same', name: 'Same' },
+          manual: { id: 'manual', name: 'Created by hand' },
+        },
+      }
+    );
+
+    expect(report.drifted).toBe(true);
+    expect(report.summary).toEqual({ added: 1, removed: 1, modified: 1 });
+    expect(report.items).toEqual([
+      { itemType: 'roles', id: 'editor', name: 'Editor', change: 'modified', fields: ['icon'] },
+      { itemType: 'roles', id: 'retired', name: 'Retired', change: 'removed' },
+      { itemType: 'roles', id: 'manual', name: 'Created by hand', change: 'added' },
+    ]);
+  });
+
+  test('compares item types present on one side only', () => {
+    const report = compareDriftState(
+      'flows',
+      { flows: {} },
+      { operations: { op: { id: 'op', type: 'log' } } }
+    );
+
+    expect(report.items).toEqual([{ itemType: 'operations', id: 'op', change: 'added' }]);
+  });
+
+  test('reports fields set locally but absent remotely', () => {
+    const report = compareDriftState(
+      'settings',
+      { settings: { settings: { project_name: 'Site', project_color: '#6644FF' } } },
+      { settings: { settings: { project_name: 'Site' } } }
+    );
+
+    expect(report.items).toEqual([
+      { itemType: 'settings', id: 'settings', change: 'modified', fields: ['project_color'] },
+    ]);
+  });
+
+  test('is not drifted when both sides match', () => {
+    const state = { settings: { settings: { project_name: 'Site' } } };
+    const report = compareDriftState('settings', state, state);
+
+    expect(report.drifted).toBe(false);
+    expect(report.items).toEqual([]);
+  });
+});
+
+describe('formatDriftJUnit', () => {
+  test('renders one test case per type with failures and errors', () => {
+    const reports: DriftReport[] = [
+      compareDriftState('settings', {}, {}),
+      compareDriftState('roles', { roles: {} }, { roles: { a: { id: 'a', name: 'A & B' } } }),
+      {
+        configType: 'flows',
+        drifted: false,
+        items: [],
+        summary: { added: 0, removed: 0, modified: 0 },
+        error: 'flows.json <missing>',
+      },
+    ];
+
+    expect(formatDriftJUnit(reports)).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<testsuite name="dct drift" tests="3" failures="1" errors="1">',
+        '  <testcase classname="dct.drift" name="settings"></testcase>',
+        '  <testcase classname="dct.drift" name="roles">',
+        '    <failure message="1 added, 0 removed, 0 modified">added roles a</failure>',
+        '  </testcase>',
+        '  <testcase classname="dct.drift" name="flows">',
+        '    <error message="flows.json &lt;missing&gt;"/>',
+        '  </testcase>',
+        '</testsuite>',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { existsSync, outputJsonSync, readJsonSync } from 'fs-extra';
+import { dirname, join } from 'path';
+import { DctEnvironment } from '../../src/utils/environments';
+import { syncConfigType } from '../../src/utils/environmentSync';
+import { createManager } from '../../src/utils/supportedTypes';
+
+jest.mock('../../src/utils/supportedTypes', () => ({ createManager: jest.fn() }));
+
+const environment = (name: string): DctEnvironment => ({
+  name,
+  url: `https://${name}.example.com`,
+  token: `${name}-token`,
+  configPath: `/srv/${name}/config`,
+  auditPath: `/srv/${name}/audit`,
+});
+
+describe('syncConfigType', () => {
+  const source = environment('staging');
+  const target = environment('prod');
+  let managers: { type: string; options: any; imported?: any }[];
+
+  beforeEach(() => {
+    managers = [];
+    (createManager as jest.Mock).mockImplementation((type, options) => {
+      const manager = { type, options, imported: undefined as any };
+      managers.push(manager);
+      return {
+        exportConfig: jest.fn(async () =>
+          outputJsonSync(join(options.configPath, 'roles.json'), [{ id: 'editor' }])
+        ),
+        importConfig: jest.fn(async () => {
+          manager.imported = readJsonSync(join(options.configPath, 'roles.json'));
+          return { status: 'success' };
+        }),
+        importSchema: jest.fn(async () => ({ status: 'success' })),
+      };
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('imports the source export into the target through a temporary directory', async () => {
+    const result = await syncConfigType('roles', source, target, { dryRun: true });
+
+    expect(result).toEqual({ status: 'success' });
+    const [exporter, importer] = managers;
+    expect(exporter.options).toMatchObject({
+      apiUrl: 'https://staging.example.com',
+      apiToken: 'staging-token',
+    });
+    expect(importer.options).toMatchObject({
+      apiUrl: 'https://prod.example.com',
+      apiToken: 'prod-token',
+      configPath: exporter.options.configPath,
+      auditPath: '/srv/prod/audit',
+    });
+    expect(importer.imported).toEqual([{ id: 'editor' }]);
+    expect((createManager as jest.Mock).mock.results[1].value.importConfig).toHaveBeenCalledWith(
+      true
+    );
+  });
+
+  test('keeps the source export out of the source config and audit directories', async () => {
+    await syncConfigType('roles', source, target);
+
+    const { configPath, auditPath } = managers[0].options;
+    expect(configPath).not.toBe(source.configPath);
+    expect(dirname(auditPath)).toBe(dirname(configPath));
+    expect(existsSync(dirname(configPath))).toBe(false);
+  });
+
+  test('passes the force flag on to schema imports', async () => {
+    await syncConfigType('schema', source, target, { dryRun: false, force: true });
+
+    const { importSchema } = (createManager as jest.Mock).mock.results[1].value;
+    expect(importSchema.mock.calls[0].slice(0, 2)).toEqual([false, true]);
+  });
+
+  test('passes allowDestructive on to schema imports', async () => {
+    await syncConfigType('schema', source, target, { allowDestructive: true });
+
+    const { importSchema } = (createManager as jest.Mock).mock.results[1].value;
+    expect(importSchema).toHaveBeenCalledWith(undefined, undefined, true);
+  });
+});
@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadProfileFile, resolveEnvironment } from '../../src/utils/environments';
+
+describe('resolveEnvironment', () => {
+  const env = { ...process.env };
+  let root: string;
+
+  const writeProfiles = (profiles: any, filename = 'dct.config.json') =>
+    writeFileSync(join(root, filename), JSON.stringify(profiles));
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'dct-unit-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(root);
+    for (const name of Object.keys(process.env).filter((key) => key.startsWith('DCT_'))) {
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test('falls back to the DCT_* variables without a profile', () => {
+    process.env.DCT_API_URL = 'https://cms.example.com';
+    process.env.DCT_TOKEN = 'secret';
+
+    expect(resolveEnvironment()).toEqual({
+      name: 'default',
+      url: 'https://cms.example.com',
+      token: 'secret',
+      configPath: './config',
+      auditPath: './audit',
+    });
+  });
+
+  test('resolves a named profile with paths relative to the profile file', () => {
+    process.env.STAGING_TOKEN = 'staging-secret';
+    writeProfiles({
+      environments: {
+        staging: { url: 'https://staging.example.com/', tokenEnv: 'STAGING_TOKEN' },
+        prod: { url: 'https://example.com', token: 'prod-secret', configPath: 'prod-config' },
+      },
+    });
+
+    expect(resolveEnvironment('staging')).toEqual({
+      name: 'staging',
+      url: 'https://staging.example.com',
+      token: 'staging-secret',
+      configPath: join(root, 'config'),
+      auditPath: join(root, 'audit', 'staging'),
+    });
+    expect(resolveEnvironment('prod')).toMatchObject({
+      token: 'prod-secret',
+      configPath: join(root, 'prod-config'),
+      auditPath: join(root, 'audit', 'prod'),
+    });
+  });
+
+  test('picks DCT_ENV over the default environment of the profile', () => {
+    writeProfiles(
+      {
+        defaultEnv: 'dev',
+        environments: {
+          dev: { url: 'http://localhost:8055', token: 'dev' },
+          prod: { url: 'https://example.com', token: 'prod' },
+        },
+      },
+      '.dctrc'
+    );
+
+    expect(resolveEnvironment().name).toBe('dev');
+    process.env.DCT_ENV = 'prod';
+    expect(resolveEnvironment().name).toBe('prod');
+  });
+
+  test('explains why an environment cannot be resolved', () => {
+    expect(() => resolveEnvironment('prod')).toThrow(
+      `Environment "prod" requested but no dct.config.json or .dctrc was found in ${root}`
+    );
+
+    writeProfiles({
+      environments: {
+        dev: { url: 'http://localhost:8055', tokenEnv: 'DEV_TOKEN' },
+        local: { url: 'http://localhost:8055' },
+      },
+    });
+    expect(() => resolveEnvironment('prod')).toThrow(
+      'Unknown environment "prod". Available environments: dev, local'
+    );
+    expect(() => resolveEnvironment('dev')).toThrow(
+      'Environment "dev" reads its token from DEV_TOKEN, which is not set'
+    );
+    expect(() => resolveEnvironment('local')).toThrow(
+      'Environment "local" has no token or tokenEnv'
+    );
+  });
+});
+
+describe('loadProfileFile', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'dct-unit-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test('prefers dct.config.json over .dctrc', () => {
+    writeFileSync(join(root, 'dct.config.json'), JSON.stringify({ environments: { a: {} } }));
+    writeFileSync(join(root, '.dctrc'), JSON.stringify({ environments: { b: {} } }));
+
+    expect(loadProfileFile(root)?.file).toBe(join(root, 'dct.config.json'));
+  });
+
+  test('rejects files that are not profile files', () => {
+    writeFileSync(join(root, 'dct.config.json'), JSON.stringify({ env: {} }));
+
+    expect(() => loadProfileFile(root)).toThrow(join(root, 'dct.config.json'));
+  });
+
+  test('returns undefined without a profile file', () => {
+    expect(loadProfileFile(root)).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  checkExtensionCompatibility,
+  ExtensionsManager,
+  findExtensionReferences,
+  InstalledExtension,
+} from '../../src/extensions';
+import { removeTempDirs, tempManagerOptions } from '../utils/fakeDirectus';
+
+const extension = (name: string, type: string, fields: Partial<InstalledExtension> = {}) => ({
+  name,
+  type,
+  version: '1.0.0',
+  enabled: true,
+  bundle: null,
+  ...fields,
+});
+
+describe('findExtensionReferences', () => {
+  afterEach(removeTempDirs);
+
+  test('collects operation types and the interfaces and displays of fields', () => {
+    const { configPath } = tempManagerOptions();
+    mkdirSync(configPath, { recursive: true });
+    writeFileSync(
+      join(configPath, 'operations.json'),
+      JSON.stringify([{ id: 'op', name: 'Post to Slack', type: 'slack-message' }])
+    );
+    writeFileSync(
+      join(configPath, 'schema.json'),
+      JSON.stringify({
+        fields: [
+          {
+            collection: 'articles',
+            field: 'body',
+            meta: { interface: 'markdown-plus', display: null },
+          },
+          { collection: 'articles', field: 'id', meta: null },
+        ],
+      })
+    );
+
+    expect(findExtensionReferences(configPath)).toEqual([
+      { type: 'operation', id: 'slack-message', usedBy: 'operation Post to Slack' },
+      { type: 'interface', id: 'markdown-plus', usedBy: 'field articles.body' },
+    ]);
+  });
+});
+
+describe('checkExtensionCompatibility', () => {
+  const slack = extension('slack-message', 'operation');
+  const markdown = extension('markdown-plus', 'interface', { bundle: 'editor-kit' });
+  const unused = extension('map-display', 'display');
+  const references = [
+    { type: 'operation' as const, id: 'slack-message', usedBy: 'operation Post to Slack' },
+    { type: 'interface' as const, id: 'markdown-plus', usedBy: 'field articles.body' },
+    { type: 'interface' as const, id: 'input', usedBy: 'field articles.title' },
+  ];
+
+  test('reports referenced extensions missing or disabled on the target', () => {
+    expect(
+      checkExtensionCompatibility(
+        [slack, markdown, unused],
+        [{ ...slack, enabled: false }, extension('markdown-plus', 'interface')],
+        references
+      )
+    ).toEqual([
+      { extension: slack, reason: 'disabled', references: [references[0]] },
+      { extension: markdown, reason: 'missing', references: [references[1]] },
+    ]);
+  });
+
+  test('accepts other versions of the same extension', () => {
+    expect(
+      checkExtensionCompatibility([slack], [{ ...slack, version: '2.0.0' }], references)
+    ).toEqual([]);
+  });
+});
+
+describe('ExtensionsManager import', () => {
+  let manager: ExtensionsManager;
+
+  beforeEach(() => {
+    const options = tempManagerOptions();
+    mkdirSync(options.configPath, { recursive: true });
+    writeFileSync(
+      join(options.configPath, 'extensions.json'),
+      JSON.stringify([extension('slack-message', 'operation'), extension('map-display', 'display')])
+    );
+    writeFileSync(
+      join(options.configPath, 'operations.json'),
+      JSON.stringify([{ id: 'op', name: 'Post to Slack', type: 'slack-message' }])
+    );
+    manager = new ExtensionsManager(options);
+    jest
+      .spyOn(manager as any, 'callAPI')
+      .mockResolvedValue([
+        {
+          id: 'map',
+          schema: { name: 'map-display', type: 'display', version: '2.0.0' },
+          meta: { enabled: true },
+        },
+      ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    removeTempDirs();
+  });
+
+  test('records every extension as a skip with its state on the target', async () => {
+    const result = await manager.importConfig(true);
+
+    expect(result.status).toBe('success');
+    expect(result.plan?.actions.map(({ action, id, reason }) => [action, id, reason])).toEqual([
+      ['skip', 'slack-message', 'not installed on the target'],
+      ['skip', 'map-display', 'version 2.0.0 on the target, 1.0.0 locally'],
+    ]);
+  });
+
+  test('fails with check when a referenced extension is unavailable', async () => {
+    expect(await manager.importConfig(true, true)).toEqual({
+      status: 'failure',
+      message: '1 extensions used by the config are not available on the target',
+    });
+  });
+});
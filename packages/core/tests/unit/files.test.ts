@@ -0,0 +1,111 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { FilesManager } from '../../src/files';
+import {
+  FakeDirectus,
+  FakeRequest,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+const file = (id: string, disk: string, fields = {}) => ({
+  id,
+  filename_disk: disk,
+  filename_download: disk,
+  title: disk,
+  type: 'image/png',
+  folder: null,
+  should_backup: true,
+  ...fields,
+});
+
+describe('FilesManager import', () => {
+  let manager: FilesManager;
+  let fake: FakeDirectus;
+
+  const remote: Record<string, Record<string, any>[]> = {
+    '/fields/directus_files': [{ field: 'should_backup' }],
+    '/fields/directus_folders': [{ field: 'should_backup' }],
+    '/folders': [{ id: 'media-target', name: 'Media', parent: null }],
+    '/files': [
+      file('logo', 'logo.png', { title: 'Logo', folder: 'media-target' }),
+      file('banner-target', 'banner.png'),
+      file('retired', 'retired.png'),
+      file('unmanaged', 'unmanaged.png', { should_backup: false }),
+    ],
+  };
+
+  const writeConfig = (files: Record<string, any>[], folders: Record<string, any>[]) => {
+    const options = tempManagerOptions();
+    mkdirSync(join(options.configPath, 'assets'), { recursive: true });
+    writeFileSync(join(options.configPath, 'files.json'), JSON.stringify(files));
+    writeFileSync(join(options.configPath, 'folders.json'), JSON.stringify(folders));
+    writeFileSync(join(options.configPath, 'assets', 'new.png'), 'png');
+    manager = new FilesManager(options);
+    fake = useFakeDirectus(
+      manager,
+      new FakeDirectus(({ method, path }: FakeRequest) => (method === 'GET' ? remote[path] : {}))
+    );
+  };
+
+  afterEach(removeTempDirs);
+
+  test('plans folder and file changes against paired ids on the target', async () => {
+    writeConfig(
+      [
+        file('logo', 'logo.png', { title: 'Company logo', folder: 'media-local' }),
+        file('banner-local', 'banner.png'),
+        file('new', 'new.png', { folder: 'logos-local' }),
+        file('lost', 'lost.png'),
+      ],
+      [
+        { id: 'media-local', name: 'Media', parent: null },
+        { id: 'logos-local', name: 'Logos', parent: 'media-local' },
+      ]
+    );
+
+    const result = await manager.importConfig(true, true);
+
+    expect(result.status).toBe('success');
+    expect(
+      result.plan?.actions.map(({ action, itemType, id, reason }) => [action, itemType, id, reason])
+    ).toEqual([
+      ['skip', 'folders', 'media-target', 'unchanged'],
+      ['create', 'folders', 'logos-local', undefined],
+      ['update', 'files', 'logo', undefined],
+      ['skip', 'files', 'banner-target', 'unchanged'],
+      ['create', 'files', 'new', undefined],
+      ['skip', 'files', 'lost', expect.stringContaining('asset missing')],
+      ['delete', 'files', 'retired', undefined],
+    ]);
+    expect(result.plan?.actions[1].after).toEqual({
+      id: 'logos-local',
+      name: 'Logos',
+      parent: 'media-target',
+    });
+    expect(result.plan?.actions[2]).toMatchObject({
+      before: { title: 'Logo' },
+      after: { title: 'Company logo' },
+    });
+    expect(fake.writes()).toEqual([]);
+  });
+
+  test('patches changed metadata in place and deletes only pruned backup files', async () => {
+    writeConfig(
+      [
+        file('logo', 'logo.png', { title: 'Company logo', folder: 'media-target' }),
+        file('banner-target', 'banner.png'),
+      ],
+      [{ id: 'media-target', name: 'Media', parent: null }]
+    );
+
+    const result = await manager.importConfig(false, true);
+
+    expect(result.status).toBe('success');
+    expect(fake.writes().map(({ method, path, body }) => [method, path, body])).toEqual([
+      ['PATCH', '/files/logo', { title: 'Company logo' }],
+      ['DELETE', '/files', ['retired']],
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { FlowsManager } from '../../src/flows';
+import { removeTempDirs, tempManagerOptions } from '../utils/fakeDirectus';
+
+const flows = [
+  {
+    id: 'notify',
+    name: 'Notify',
+    trigger: 'event',
+    operation: 'log',
+    options: { collections: ['articles', 'directus_users', 'drafts'] },
+  },
+  { id: 'cleanup', name: 'Cleanup', trigger: 'schedule', operation: 'gone' },
+];
+
+const operations = [
+  { id: 'log', flow: 'notify', type: 'log', resolve: 'run', reject: null },
+  {
+    id: 'run',
+    flow: 'notify',
+    type: 'trigger',
+    resolve: null,
+    reject: 'lost',
+    options: { flow: 'cleanup' },
+  },
+  {
+    id: 'orphan',
+    flow: 'notify',
+    type: 'trigger',
+    resolve: null,
+    reject: null,
+    options: { flow: 'missing' },
+  },
+];
+
+describe('FlowsManager dependencies', () => {
+  let options: ReturnType<typeof tempManagerOptions>;
+  let manager: FlowsManager;
+
+  beforeEach(() => {
+    options = tempManagerOptions();
+    mkdirSync(options.configPath, { recursive: true });
+    manager = new FlowsManager(options);
+  });
+
+  afterEach(removeTempDirs);
+
+  test('links flows to entry operations and collections, and operations to links and flows', () => {
+    expect(
+      manager
+        .buildDependencyGraph(flows, operations)
+        .map(({ type, sourceId, targetId, relationship }) => [
+          type,
+          sourceId,
+          targetId,
+          relationship,
+        ])
+    ).toEqual([
+      ['flows->operations', 'notify', 'log', 'entry_point'],
+      ['flows->collections', 'notify', 'articles', 'event_trigger'],
+      ['flows->collections', 'notify', 'directus_users', 'event_trigger'],
+      ['flows->collections', 'notify', 'drafts', 'event_trigger'],
+      ['flows->operations', 'cleanup', 'gone', 'entry_point'],
+      ['operations->operations', 'log', 'run', 'resolve'],
+      ['operations->operations', 'run', 'lost', 'reject'],
+      ['operations->flows', 'run', 'cleanup', 'triggers_flow'],
+      ['operations->flows', 'orphan', 'missing', 'triggers_flow'],
+    ]);
+  });
+
+  test('flags references to missing operations, flows and user collections', () => {
+    const dependencies = manager.buildDependencyGraph(flows, operations);
+
+    expect(
+      manager
+        .findDanglingDependencies(dependencies, flows, operations, ['articles'])
+        .map(({ sourceId, targetId }) => [sourceId, targetId])
+    ).toEqual([
+      ['notify', 'drafts'],
+      ['cleanup', 'gone'],
+      ['run', 'lost'],
+      ['orphan', 'missing'],
+    ]);
+  });
+
+  test('leaves collection references unchecked without a schema', () => {
+    const dependencies = manager.buildDependencyGraph(flows, operations);
+
+    expect(
+      manager
+        .findDanglingDependencies(dependencies, flows, operations)
+        .map(({ targetId }) => targetId)
+    ).toEqual(['gone', 'lost', 'missing']);
+  });
+
+  test('detects dependencies from the local operations.json', () => {
+    writeFileSync(join(options.configPath, 'operations.json'), JSON.stringify(operations));
+
+    expect((manager as any).detectDependencies(flows)).toEqual(
+      manager.buildDependencyGraph(flows, operations)
+    );
+  });
+
+  test('detects flow dependencies only when operations.json is missing', () => {
+    expect((manager as any).detectDependencies(flows)).toEqual(
+      manager.buildDependencyGraph(flows, [])
+    );
+  });
+});
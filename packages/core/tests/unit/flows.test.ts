@@ -0,0 +1,115 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { FlowsManager } from '../../src/flows';
+import {
+  FakeDirectus,
+  FakeRequest,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+const flow = (id: string, name: string, fields = {}) => ({
+  id,
+  name,
+  trigger: 'event',
+  status: 'active',
+  operation: null,
+  ...fields,
+});
+
+const operation = (id: string, flowId: string, fields = {}) => ({
+  id,
+  name: id,
+  key: id,
+  type: 'log',
+  flow: flowId,
+  resolve: null,
+  reject: null,
+  ...fields,
+});
+
+describe('FlowsManager import', () => {
+  let manager: FlowsManager;
+  let fake: FakeDirectus;
+
+  const remote: Record<string, Record<string, any>[]> = {
+    '/flows': [
+      flow('notify', 'Notify', { status: 'inactive', operation: 'log' }),
+      flow('legacy', 'Legacy'),
+    ],
+    '/operations': [operation('log', 'notify'), operation('legacy-log', 'legacy')],
+  };
+
+  const useHandler = (handler: (request: FakeRequest) => any) => {
+    fake = new FakeDirectus(handler);
+    useFakeDirectus(manager, fake);
+    useFakeDirectus((manager as any).operationsManager, fake);
+  };
+
+  beforeEach(() => {
+    const options = tempManagerOptions();
+    mkdirSync(options.configPath, { recursive: true });
+    writeFileSync(
+      join(options.configPath, 'flows.json'),
+      JSON.stringify([
+        flow('notify', 'Notify', { operation: 'log' }),
+        flow('cleanup', 'Cleanup', { trigger: 'schedule', operation: 'purge' }),
+      ])
+    );
+    writeFileSync(
+      join(options.configPath, 'operations.json'),
+      JSON.stringify([
+        operation('log', 'notify', { resolve: 'mail' }),
+        operation('mail', 'notify'),
+        operation('purge', 'cleanup'),
+      ])
+    );
+    manager = new FlowsManager(options);
+    useHandler(({ method, path }) => (method === 'GET' ? remote[path] : {}));
+  });
+
+  afterEach(removeTempDirs);
+
+  test('reconciles flows and operations in place and links them once they exist', async () => {
+    const result = await manager.importConfig();
+
+    expect(result.status).toBe('success');
+    expect(fake.writes().map(({ method, path, body }) => [method, path, body])).toEqual([
+      [
+        'POST',
+        '/flows',
+        { id: 'cleanup', name: 'Cleanup', trigger: 'schedule', status: 'active', operation: null },
+      ],
+      ['PATCH', '/flows/notify', { name: 'Notify', trigger: 'event', status: 'active' }],
+      ['PATCH', '/operations/log', { resolve: null, reject: null }],
+      ['DELETE', '/operations', ['legacy-log']],
+      ['POST', '/operations', operation('mail', 'notify')],
+      ['POST', '/operations', operation('purge', 'cleanup')],
+      ['PATCH', '/operations/log', { resolve: 'mail', reject: null }],
+      ['PATCH', '/flows/cleanup', { operation: 'purge' }],
+      ['DELETE', '/flows', ['legacy']],
+    ]);
+  });
+
+  test('plans the reconciliation without writing on a dry run', async () => {
+    const result = await manager.importConfig(true);
+
+    expect(result.status).toBe('success');
+    expect(result.plan?.summary).toEqual({ create: 3, update: 2, delete: 2, skip: 0 });
+    expect(fake.writes()).toEqual([]);
+  });
+
+  test('returns the plan when the import fails', async () => {
+    useHandler(({ method, path }) => {
+      if (method === 'PATCH') throw new Error('Forbidden');
+      return method === 'GET' ? remote[path] : {};
+    });
+
+    const result = await manager.importConfig();
+
+    expect(result.status).toBe('failure');
+    expect(result.message).toContain('Forbidden');
+    expect(result.plan?.summary).toEqual({ create: 3, update: 2, delete: 2, skip: 0 });
+  });
+});
@@ -0,0 +1,164 @@
+import { mkdtempSync, readJsonSync, rmSync } from 'fs-extra';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getIdMapper,
+  ID_MAP_FILENAME,
+  IdMapper,
+  matchByKey,
+  matchByName,
+  parseMatchBy,
+} from '../../src/utils/idMap';
+
+describe('parseMatchBy', () => {
+  test('accepts id and name only', () => {
+    expect(parseMatchBy('id')).toBe('id');
+    expect(parseMatchBy('name')).toBe('name');
+    expect(() => parseMatchBy('email')).toThrow('Invalid --match-by value "email"');
+  });
+});
+
+describe('matchByName', () => {
+  test('pairs local items missing on the target with the target item of the same name', () => {
+    const pairs = matchByName(
+      [
+        { id: 'local-editor', name: 'Editor' },
+        { id: 'shared', name: 'Shared' },
+      ],
+      [
+        { id: 'target-editor', name: 'Editor' },
+        { id: 'shared', name: 'Shared' },
+      ],
+      new Map(),
+      'roles'
+    );
+
+    expect([...pairs]).toEqual([['local-editor', 'target-editor']]);
+  });
+
+  test('keeps existing pairs and never reuses a target item', () => {
+    const pairs = matchByName(
+      [
+        { id: 'local-a', name: 'Editor' },
+        { id: 'local-b', name: 'Editor' },
+      ],
+      [{ id: 'target-editor', name: 'Editor' }],
+      new Map([['local-a', 'target-editor']]),
+      'roles'
+    );
+
+    expect([...pairs]).toEqual([['local-a', 'target-editor']]);
+  });
+
+  test('does not take target items whose id is used by a local item', () => {
+    const pairs = matchByName(
+      [
+        { id: 'target-editor', name: 'Editor (renamed)' },
+        { id: 'local-editor', name: 'Editor' },
+      ],
+      [{ id: 'target-editor', name: 'Editor' }],
+      new Map(),
+      'roles'
+    );
+
+    expect(pairs.size).toBe(0);
+  });
+
+  test('does not guess between several target items with the same name', () => {
+    const pairs = matchByName(
+      [{ id: 'local-editor', name: 'Editor' }],
+      [
+        { id: 'target-1', name: 'Editor' },
+        { id: 'target-2', name: 'Editor' },
+      ],
+      new Map(),
+      'policies'
+    );
+
+    expect(pairs.size).toBe(0);
+  });
+});
+
+describe('matchByKey', () => {
+  test('pairs on any key and skips items without one', () => {
+    const flowKey = (flow: Record<string, any>) =>
+      flow.name ? `${flow.name} (${flow.trigger})` : undefined;
+    const pairs = matchByKey(
+      [
+        { id: 'local-hook', name: 'Notify', trigger: 'event' },
+        { id: 'local-manual', name: 'Notify', trigger: 'manual' },
+        { id: 'local-unnamed', trigger: 'event' },
+      ],
+      [
+        { id: 'target-hook', name: 'Notify', trigger: 'event' },
+        { id: 'target-unnamed', trigger: 'event' },
+      ],
+      new Map(),
+      'flows',
+      flowKey,
+      'name and trigger'
+    );
+
+    expect([...pairs]).toEqual([['local-hook', 'target-hook']]);
+  });
+});
+
+describe('IdMapper', () => {
+  let auditPath: string;
+
+  beforeEach(() => {
+    auditPath = mkdtempSync(join(tmpdir(), 'dct-unit-'));
+  });
+
+  afterEach(() => {
+    rmSync(auditPath, { recursive: true, force: true });
+  });
+
+  test('maps paired ids and leaves other ids as they are', () => {
+    const mapper = new IdMapper(auditPath);
+    mapper.register('flows', 'local-flow', 'target-flow');
+
+    expect(mapper.map('flows', 'local-flow')).toBe('target-flow');
+    expect(mapper.map('flows', 'other')).toBe('other');
+    expect(mapper.map('dashboards', 'local-flow')).toBe('local-flow');
+  });
+
+  test('remaps single ids and lists of ids in the given fields only', () => {
+    const mapper = new IdMapper(auditPath);
+    mapper.register('roles', 'local-role', 'target-role');
+    mapper.register('policies', 'local-policy', 'target-policy');
+
+    expect(
+      mapper.remap(
+        { id: 'user', role: 'local-role', policies: ['local-policy', 'kept', 3], note: 'local-role' },
+        { role: 'roles', policies: 'policies', missing: 'roles' }
+      )
+    ).toEqual({ id: 'user', role: 'target-role', policies: ['target-policy', 'kept', 3], note: 'local-role' });
+  });
+
+  test('persists pairs only when they changed and ignores identity pairs', () => {
+    const mapper = new IdMapper(auditPath);
+    const file = join(auditPath, ID_MAP_FILENAME);
+
+    mapper.register('files', 'same', 'same');
+    mapper.save();
+    expect(() => readJsonSync(file)).toThrow();
+
+    mapper.register('files', 'local-file', 'target-file');
+    mapper.save();
+    expect(readJsonSync(file)).toEqual({ files: { 'local-file': 'target-file' } });
+    expect(new IdMapper(auditPath).pairs('files')).toEqual(new Map([['local-file', 'target-file']]));
+  });
+
+  test('replaces all pairs of a type', () => {
+    const mapper = new IdMapper(auditPath);
+    mapper.register('roles', 'a', 'b');
+    mapper.replace('roles', new Map([['c', 'd'], ['e', 'e']]));
+
+    expect([...mapper.pairs('roles')]).toEqual([['c', 'd']]);
+  });
+
+  test('is shared by every manager importing into the same environment', () => {
+    expect(getIdMapper(auditPath)).toBe(getIdMapper(join(auditPath, '.')));
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  addImportAction,
+  changedValues,
+  createImportPlan,
+  describeReconciliation,
+  UNCHANGED,
+} from '../../src/utils/importPlan';
+
+describe('changedValues', () => {
+  test('keeps only the top-level fields that differ', () => {
+    expect(
+      changedValues(
+        { name: 'Editors', icon: 'edit', options: { a: 1 } },
+        { name: 'Editors', icon: 'person', options: { a: 1 } }
+      )
+    ).toEqual({ before: { icon: 'edit' }, after: { icon: 'person' } });
+  });
+
+  test('treats missing fields as null', () => {
+    expect(changedValues({ note: null }, {})).toEqual({ before: {}, after: {} });
+    expect(changedValues({}, { note: 'New' })).toEqual({
+      before: {},
+      after: { note: 'New' },
+    });
+  });
+
+  test('compares nested values deeply', () => {
+    expect(
+      changedValues({ options: { a: 1, b: [1, 2] } }, { options: { a: 1, b: [2, 1] } })
+    ).toEqual({
+      before: { options: { a: 1, b: [1, 2] } },
+      after: { options: { a: 1, b: [2, 1] } },
+    });
+  });
+});
+
+describe('addImportAction', () => {
+  test('keeps the summary in sync with the actions', () => {
+    const plan = createImportPlan('roles', true);
+    addImportAction(plan, { action: 'create', itemType: 'roles', id: 'a' });
+    addImportAction(plan, { action: 'skip', itemType: 'roles', id: 'b' });
+    addImportAction(plan, { action: 'skip', itemType: 'roles', id: 'c' });
+
+    expect(plan.dryRun).toBe(true);
+    expect(plan.actions).toHaveLength(3);
+    expect(plan.summary).toEqual({ create: 1, update: 0, delete: 0, skip: 2 });
+  });
+});
+
+describe('describeReconciliation', () => {
+  const local = [
+    { id: 'new', name: 'New flow', status: 'active' },
+    { id: 'changed', name: 'Changed flow', status: 'inactive', date_created: 'local' },
+    { id: 'same', name: 'Same flow', status: 'active' },
+  ];
+  const remote = [
+    { id: 'changed', name: 'Changed flow', status: 'active', date_created: 'remote' },
+    { id: 'same', name: 'Same flow', status: 'active' },
+    { id: 'stale', name: 'Stale flow', status: 'active', date_created: 'remote' },
+  ];
+
+  test('records creates, updates, skips and deletes', () => {
+    const plan = createImportPlan('flows', false);
+    describeReconciliation(plan, 'flows', local, remote, new Set(['changed']), [
+      'date_created',
+    ]);
+
+    expect(plan.summary).toEqual({ create: 1, update: 1, delete: 1, skip: 1 });
+    expect(plan.actions).toEqual([
+      {
+        itemType: 'flows',
+        id: 'new',
+        name: 'New flow',
+        action: 'create',
+        after: { id: 'new', name: 'New flow', status: 'active' },
+      },
+      {
+        itemType: 'flows',
+        id: 'changed',
+        name: 'Changed flow',
+        action: 'update',
+        before: { status: 'active' },
+        after: { status: 'inactive' },
+      },
+      {
+        itemType: 'flows',
+        id: 'same',
+        name: 'Same flow',
+        action: 'skip',
+        reason: UNCHANGED,
+      },
+      {
+        itemType: 'flows',
+        id: 'stale',
+        name: 'Stale flow',
+        action: 'delete',
+        before: { id: 'stale', name: 'Stale flow', status: 'active' },
+      },
+    ]);
+  });
+
+  test('skips items that are not in changedIds even when they differ', () => {
+    const plan = createImportPlan('flows', false);
+    describeReconciliation(plan, 'flows', local, remote, new Set(), []);
+
+    expect(plan.actions.find((a) => a.id === 'changed')).toMatchObject({
+      action: 'skip',
+      reason: UNCHANGED,
+    });
+  });
+});
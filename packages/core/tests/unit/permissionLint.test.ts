@@ -0,0 +1,143 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  hasFindingsAtLeast,
+  LintFinding,
+  lintPermissions,
+  parseLintSeverity,
+} from '../../src/utils/permissionLint';
+
+const schema = {
+  collections: [
+    { collection: 'articles', schema: {} },
+    { collection: 'authors', schema: {} },
+    { collection: 'drafts', schema: {} },
+    { collection: 'content', schema: null },
+  ],
+  fields: [
+    { collection: 'articles', field: 'id' },
+    { collection: 'articles', field: 'title' },
+    { collection: 'articles', field: 'status' },
+    { collection: 'articles', field: 'author' },
+    { collection: 'articles', field: 'date_created' },
+    { collection: 'authors', field: 'id' },
+    { collection: 'authors', field: 'name' },
+    { collection: 'authors', field: 'articles' },
+  ],
+  relations: [
+    {
+      collection: 'articles',
+      field: 'author',
+      related_collection: 'authors',
+      meta: { one_field: 'articles' },
+    },
+  ],
+};
+
+const policies = [
+  { id: 'editors', name: 'Editors', app_access: true, admin_access: false },
+  { id: 'admins', name: 'Admins', app_access: true, admin_access: true },
+  { id: 'reviewers', name: 'Reviewers', app_access: true, admin_access: false },
+];
+
+describe('lintPermissions', () => {
+  let configPath: string;
+
+  const writeConfig = (permissions: Record<string, any>[]) => {
+    writeFileSync(join(configPath, 'schema.json'), JSON.stringify(schema));
+    writeFileSync(join(configPath, 'policies.json'), JSON.stringify(policies));
+    writeFileSync(join(configPath, 'permissions.json'), JSON.stringify(permissions));
+  };
+
+  beforeEach(() => {
+    configPath = mkdtempSync(join(tmpdir(), 'dct-unit-'));
+  });
+
+  afterEach(() => {
+    rmSync(configPath, { recursive: true, force: true });
+  });
+
+  test('accepts permissions that match the schema', () => {
+    writeConfig([
+      {
+        policy: 'editors',
+        collection: 'articles',
+        action: 'read',
+        fields: ['*'],
+        permissions: {
+          _and: [
+            { status: { _eq: 'published' } },
+            { author: { name: { _nnull: true } } },
+            { 'year(date_created)': { _gte: 2020 } },
+          ],
+        },
+      },
+      {
+        policy: 'editors',
+        collection: 'authors',
+        action: 'read',
+        fields: ['name'],
+        permissions: { articles: { _some: { title: { _nempty: true } } } },
+      },
+      { policy: 'editors', collection: 'drafts', action: 'read', fields: ['*'] },
+      { policy: 'reviewers', collection: 'directus_files', action: 'read', fields: ['anything'] },
+    ]);
+
+    expect(lintPermissions(configPath)).toEqual([]);
+  });
+
+  test('reports unknown collections, fields and filter fields as errors first', () => {
+    writeConfig([
+      { policy: 'editors', collection: 'legacy', action: 'read', fields: ['*'] },
+      {
+        policy: 'editors',
+        collection: 'articles',
+        action: 'create',
+        fields: ['title', 'subtitle'],
+        presets: { category: 'news' },
+        validation: { author: { email: { _contains: '@' } } },
+      },
+      { policy: 'admins', collection: 'drafts', action: 'read', fields: ['*'] },
+    ]);
+
+    const findings = lintPermissions(configPath);
+    expect(findings.map((f) => [f.severity, f.rule, f.policy, f.collection, f.message])).toEqual([
+      ['error', 'unknown-collection', 'Editors', 'legacy', 'Collection legacy does not exist in the schema'],
+      ['error', 'unknown-field', 'Editors', 'articles', 'fields lists deleted fields: subtitle'],
+      ['error', 'unknown-field', 'Editors', 'articles', 'presets set deleted fields: category'],
+      [
+        'error',
+        'unknown-filter-field',
+        'Editors',
+        'articles',
+        'validation filter references unknown fields: author.email',
+      ],
+      ['warning', 'no-read-access', undefined, 'articles', 'No non-admin policy can read articles'],
+      ['warning', 'no-read-access', undefined, 'authors', 'No non-admin policy can read authors'],
+      ['warning', 'no-read-access', undefined, 'drafts', 'No non-admin policy can read drafts'],
+      ['warning', 'empty-policy', 'Reviewers', undefined, 'Policy grants app access but has no permissions'],
+    ]);
+  });
+
+  test('fails when permissions.json or the schema is missing', () => {
+    expect(() => lintPermissions(configPath)).toThrow('permissions.json not found');
+    writeFileSync(join(configPath, 'permissions.json'), '[]');
+    expect(() => lintPermissions(configPath)).toThrow('No schema found');
+  });
+});
+
+describe('severity helpers', () => {
+  const warning: LintFinding = { severity: 'warning', rule: 'empty-policy', message: '' };
+
+  test('parseLintSeverity accepts error and warning only', () => {
+    expect(parseLintSeverity('warning')).toBe('warning');
+    expect(() => parseLintSeverity('info')).toThrow('Invalid severity "info"');
+  });
+
+  test('hasFindingsAtLeast compares against the threshold', () => {
+    expect(hasFindingsAtLeast([warning], 'warning')).toBe(true);
+    expect(hasFindingsAtLeast([warning], 'error')).toBe(false);
+    expect(hasFindingsAtLeast([], 'warning')).toBe(false);
+  });
+});
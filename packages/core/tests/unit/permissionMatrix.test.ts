@@ -0,0 +1,174 @@
+import {
+  buildPermissionMatrix,
+  collectionName,
+  diffPermissionMatrices,
+  matrixTable,
+  parseMatrixFormat,
+  policyName,
+  renderMatrixTable,
+} from '../../src/utils/permissionMatrix';
+
+const policies = [
+  { id: 'editors', name: 'Editors' },
+  { id: 'public', name: '$t:public_label' },
+];
+
+const collections = [
+  {
+    collection: 'articles',
+    meta: {
+      translations: [
+        { language: 'de-DE', translation: 'Artikel' },
+        { language: 'en-US', translation: 'Blog articles' },
+      ],
+    },
+  },
+];
+
+const permission = (policy: string | null, collection: string, action: string, rules = {}) => ({
+  policy,
+  collection,
+  action,
+  permissions: null,
+  validation: null,
+  fields: ['*'],
+  ...rules,
+});
+
+describe('policyName', () => {
+  test('uses the policy name, Public for the public policy, or the id', () => {
+    expect(policyName('editors', policies)).toBe('Editors');
+    expect(policyName('public', policies)).toBe('Public');
+    expect(policyName('unknown', policies)).toBe('unknown');
+    expect(policyName(null, policies)).toBe('(no policy)');
+  });
+});
+
+describe('collectionName', () => {
+  test('uses the English translation from schema.json, then any other, then the id', () => {
+    expect(collectionName('articles', collections)).toBe('Blog articles');
+    expect(
+      collectionName('pages', [
+        { collection: 'pages', meta: { translations: [{ language: 'fr-FR', translation: 'Pages' }] } },
+      ])
+    ).toBe('Pages');
+    expect(collectionName('legacy', collections)).toBe('legacy');
+    expect(collectionName('articles')).toBe('articles');
+  });
+});
+
+describe('parseMatrixFormat', () => {
+  test('accepts markdown, csv and html only', () => {
+    expect(parseMatrixFormat('csv')).toBe('csv');
+    expect(() => parseMatrixFormat('pdf')).toThrow('Invalid --format value "pdf"');
+  });
+});
+
+describe('buildPermissionMatrix', () => {
+  test('builds one row per policy and collection with full, custom and missing cells', () => {
+    const rows = buildPermissionMatrix(
+      [
+        permission('public', 'articles', 'read', { permissions: { status: { _eq: 'published' } } }),
+        permission('editors', 'articles', 'read'),
+        permission('editors', 'articles', 'update', { fields: ['title'] }),
+        permission('editors', 'articles', 'create'),
+        permission('editors', 'articles', 'create'),
+        permission('editors', 'legacy', 'read'),
+        permission('editors', 'directus_files', 'read'),
+      ],
+      policies,
+      collections
+    );
+
+    expect(rows).toEqual([
+      {
+        policyId: 'editors',
+        policy: 'Editors',
+        collection: 'articles',
+        collectionName: 'Blog articles',
+        inSchema: true,
+        cells: { create: 'custom', read: 'full', update: 'custom', delete: 'none', share: 'none' },
+      },
+      {
+        policyId: 'editors',
+        policy: 'Editors',
+        collection: 'directus_files',
+        collectionName: 'directus_files',
+        inSchema: true,
+        cells: { create: 'none', read: 'full', update: 'none', delete: 'none', share: 'none' },
+      },
+      {
+        policyId: 'editors',
+        policy: 'Editors',
+        collection: 'legacy',
+        collectionName: 'legacy',
+        inSchema: false,
+        cells: { create: 'none', read: 'full', update: 'none', delete: 'none', share: 'none' },
+      },
+      {
+        policyId: 'public',
+        policy: 'Public',
+        collection: 'articles',
+        collectionName: 'Blog articles',
+        inSchema: true,
+        cells: { create: 'none', read: 'custom', update: 'none', delete: 'none', share: 'none' },
+      },
+    ]);
+  });
+});
+
+describe('diffPermissionMatrices', () => {
+  test('lists only the cells that changed, including rows on one side only', () => {
+    const before = buildPermissionMatrix(
+      [permission('editors', 'articles', 'read'), permission('editors', 'pages', 'read')],
+      policies
+    );
+    const after = buildPermissionMatrix(
+      [
+        permission('editors', 'articles', 'read', { fields: ['title'] }),
+        permission('editors', 'articles', 'delete'),
+        permission('public', 'articles', 'read'),
+      ],
+      policies
+    );
+
+    expect(diffPermissionMatrices(before, after).map((row) => [row.policy, row.collection, row.cells])).toEqual([
+      ['Editors', 'articles', { read: '✓ → custom', delete: '✗ → ✓' }],
+      ['Editors', 'pages', { read: '✓ → ✗' }],
+      ['Public', 'articles', { read: '✗ → ✓' }],
+    ]);
+  });
+});
+
+describe('renderMatrixTable', () => {
+  const table = matrixTable(
+    buildPermissionMatrix(
+      [permission('editors', 'articles', 'read'), permission('editors', 'old|notes', 'update', { fields: ['a'] })],
+      [{ id: 'editors', name: 'Editors, "all"' }],
+      collections
+    )
+  );
+
+  test('renders Markdown with escaped pipes', () => {
+    expect(renderMatrixTable(table, 'markdown')).toBe(
+      [
+        '| Policy | Collection | create | read | update | delete | share |',
+        '| --- | --- | --- | --- | --- | --- | --- |',
+        '| Editors, "all" | Blog articles | ✗ | ✓ | ✗ | ✗ | ✗ |',
+        '| Editors, "all" | old\\|notes (not in schema) | ✗ | ✗ | custom | ✗ | ✗ |',
+      ].join('\n')
+    );
+  });
+
+  test('renders CSV with quoted values', () => {
+    expect(renderMatrixTable(table, 'csv').split('\n')[1]).toBe(
+      '"Editors, ""all""",Blog articles,✗,✓,✗,✗,✗'
+    );
+  });
+
+  test('renders HTML with escaped values', () => {
+    expect(renderMatrixTable(table, 'html')).toContain(
+      '<tr><td>Editors, &quot;all&quot;</td><td>Blog articles</td>'
+    );
+  });
+});
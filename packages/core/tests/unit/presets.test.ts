@@ -0,0 +1,113 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { PresetsManager } from '../../src/presets';
+import {
+  FakeDirectus,
+  FakeRequest,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+const preset = (
+  bookmark: string | null,
+  scope: { role?: string; user?: string } = {},
+  fields = {}
+) => ({
+  bookmark,
+  user: scope.user ?? null,
+  role: scope.role ?? null,
+  collection: 'articles',
+  layout: 'tabular',
+  filter: null,
+  ...fields,
+});
+
+describe('PresetsManager import', () => {
+  let manager: PresetsManager;
+  let fake: FakeDirectus;
+
+  const remotePresets = [
+    { id: 1, ...preset(null) },
+    { id: 2, ...preset('Drafts', { role: 'editors' }) },
+    { id: 3, ...preset('Mine', { user: 'ada-target' }) },
+    { id: 4, ...preset('Old') },
+    { id: 5, ...preset(null, {}, { layout: 'cards' }) },
+  ];
+  const users = [{ id: 'ada-target', email: 'ada@example.com' }];
+
+  const respond = ({ method, path, params }: FakeRequest) => {
+    if (method !== 'GET') return {};
+    const filter = params?.filter ?? {};
+    switch (path) {
+      case '/presets':
+        return filter.user?._null ? remotePresets.filter((p) => !p.user) : remotePresets;
+      case '/roles':
+        return [{ id: 'editors' }];
+      case '/users':
+        return users.filter(
+          (user) => filter.email?._in.includes(user.email) || filter.id?._in.includes(user.id)
+        );
+    }
+  };
+
+  beforeEach(() => {
+    const options = tempManagerOptions();
+    mkdirSync(options.configPath, { recursive: true });
+    writeFileSync(
+      join(options.configPath, 'presets.json'),
+      JSON.stringify([
+        preset(null),
+        preset('Drafts', { role: 'editors' }, { filter: { status: { _eq: 'draft' } } }),
+        preset('Mine', { user: 'ada@example.com' }),
+        preset('Theirs', { user: 'bob@example.com' }),
+        preset('Reviews', { role: 'reviewers' }),
+        preset('New'),
+        preset('New', {}, { layout: 'cards' }),
+      ])
+    );
+    manager = new PresetsManager(options);
+    fake = useFakeDirectus(manager, new FakeDirectus(respond));
+  });
+
+  afterEach(removeTempDirs);
+
+  test('matches presets by scope, collection and bookmark and deletes remote duplicates', async () => {
+    const result = await manager.importConfig(false, true);
+
+    expect(result.status).toBe('success');
+    expect(result.plan?.actions.map(({ action, id, reason }) => [action, id, reason])).toEqual([
+      ['skip', 'global/articles/', 'unchanged'],
+      ['update', 'role:editors/articles/Drafts', undefined],
+      ['skip', 'user:ada@example.com/articles/Mine', 'unchanged'],
+      [
+        'skip',
+        'user:bob@example.com/articles/Theirs',
+        'user bob@example.com does not exist on the target',
+      ],
+      ['skip', 'role:reviewers/articles/Reviews', 'role reviewers does not exist on the target'],
+      ['create', 'global/articles/New', undefined],
+      ['skip', 'global/articles/New', 'duplicate of another preset with the same scope and name'],
+      ['delete', 'global/articles/Old', undefined],
+      ['delete', 'global/articles/', undefined],
+    ]);
+    expect(fake.writes().map(({ method, path, body }) => [method, path, body])).toEqual([
+      ['POST', '/presets', preset('New')],
+      [
+        'PATCH',
+        '/presets/2',
+        preset('Drafts', { role: 'editors' }, { filter: { status: { _eq: 'draft' } } }),
+      ],
+      ['DELETE', '/presets', [4, 5]],
+    ]);
+  });
+
+  test('leaves per-user presets alone unless they are included', async () => {
+    const result = await manager.importConfig(true);
+
+    expect(result.plan?.actions.some(({ id }) => id.startsWith('user:'))).toBe(false);
+    expect(fake.requests.find(({ path }) => path === '/presets')?.params?.filter).toEqual({
+      user: { _null: true },
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  existsSync,
+  mkdtempSync,
+  outputJsonSync,
+  readJsonSync,
+  readdirSync,
+  rmSync,
+} from 'fs-extra';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setActiveEnvironment } from '../../src/utils/environments';
+import {
+  findSnapshotId,
+  importSnapshotData,
+  loadSnapshotForRestore,
+  writeSnapshotConfig,
+} from '../../src/utils/snapshotImport';
+import { createManager } from '../../src/utils/supportedTypes';
+
+jest.mock('../../src/utils/supportedTypes', () => ({ createManager: jest.fn() }));
+
+describe('restore', () => {
+  const env = { ...process.env };
+  let root: string;
+
+  const exportSnapshot = (type: string, time: string, data: any) =>
+    outputJsonSync(join(root, 'audit', 'snapshots', type, `${time}_export.json`), data);
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'dct-unit-'));
+    process.env.DCT_AUDIT_PATH = join(root, 'audit');
+    process.env.DCT_CONFIG_PATH = join(root, 'config');
+    setActiveEnvironment();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    rmSync(root, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  describe('writeSnapshotConfig', () => {
+    test('writes the files the manager of each type imports from', async () => {
+      const dir = join(root, 'restore');
+      await writeSnapshotConfig('roles', { roles: [{ id: 'editor' }], policies: [] }, dir);
+      await writeSnapshotConfig('extensions', [{ name: 'maps' }], dir);
+      await writeSnapshotConfig('settings', [{ project_name: 'Site' }], dir);
+      await writeSnapshotConfig('data', [{ articles: [{ id: 1 }], authors: [] }], dir);
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'access.json',
+        'data',
+        'extensions.json',
+        'permissions.json',
+        'policies.json',
+        'roles.json',
+        'settings.json',
+      ]);
+      expect(readJsonSync(join(dir, 'roles.json'))).toEqual([{ id: 'editor' }]);
+      expect(readJsonSync(join(dir, 'access.json'))).toEqual([]);
+      expect(readJsonSync(join(dir, 'extensions.json'))).toEqual([{ name: 'maps' }]);
+      expect(readJsonSync(join(dir, 'settings.json'))).toEqual({ project_name: 'Site' });
+      expect(readJsonSync(join(dir, 'data', 'articles.json'))).toEqual([{ id: 1 }]);
+      expect(readJsonSync(join(dir, 'data', 'authors.json'))).toEqual([]);
+    });
+  });
+
+  describe('importSnapshotData', () => {
+    test('imports from a temporary config directory and removes it afterwards', async () => {
+      let configPath = '';
+      (createManager as jest.Mock).mockImplementation((type, options) => ({
+        importConfig: jest.fn(async () => {
+          configPath = options.configPath;
+          return { status: 'success', message: readJsonSync(join(configPath, 'presets.json')) };
+        }),
+      }));
+
+      const result = await importSnapshotData('presets', { presets: [{ id: 1 }] }, true);
+
+      expect(result).toEqual({ status: 'success', message: [{ id: 1 }] });
+      expect((createManager as jest.Mock).mock.results[0].value.importConfig).toHaveBeenCalledWith(
+        true
+      );
+      expect(existsSync(configPath)).toBe(false);
+    });
+
+    test('passes allowDestructive on to schema imports', async () => {
+      const importSchema = jest.fn(async () => ({ status: 'success' }));
+      (createManager as jest.Mock).mockReturnValue({ importSchema });
+
+      await importSnapshotData('schema', [{ collections: [] }], false, true);
+
+      expect(importSchema).toHaveBeenCalledWith(false, false, true);
+    });
+  });
+
+  describe('loadSnapshotForRestore', () => {
+    beforeEach(() => {
+      (createManager as jest.Mock).mockReturnValue({
+        loadEnhancedSnapshot: async (path: string) => ({
+          snapshot: { data: readJsonSync(path) },
+          validation: { isValid: true, issues: [] },
+        }),
+      });
+    });
+
+    test('collects companion snapshots taken during the same export', async () => {
+      exportSnapshot('roles', '2026-10-19T10-00-00-000Z', [{ id: 'editor' }]);
+      exportSnapshot('policies', '2026-10-19T09-00-00-000Z', [{ id: 'stale' }]);
+      exportSnapshot('policies', '2026-10-19T10-00-01-000Z', [{ id: 'editing' }]);
+      exportSnapshot('access', '2026-10-19T10-00-01-000Z', []);
+      exportSnapshot('permissions', '2026-10-19T10-00-02-000Z', [{ id: 1 }]);
+
+      expect(await loadSnapshotForRestore('roles', '2026-10-19T10-00-00-000Z_export.json')).toEqual(
+        {
+          roles: [{ id: 'editor' }],
+          policies: [{ id: 'editing' }],
+          access: [],
+          permissions: [{ id: 1 }],
+        }
+      );
+    });
+
+    test('fails when a companion snapshot is missing from the export', async () => {
+      exportSnapshot('files', '2026-10-19T10-00-00-000Z', []);
+      exportSnapshot('folders', '2026-10-19T11-00-00-000Z', []);
+
+      await expect(
+        loadSnapshotForRestore('files', '2026-10-19T10-00-00-000Z_export.json')
+      ).rejects.toThrow('No folders snapshot found from the same export');
+    });
+  });
+
+  describe('findSnapshotId', () => {
+    test('accepts a snapshot id or its position in the list', async () => {
+      exportSnapshot('presets', '2026-10-19T10-00-00-000Z', []);
+      exportSnapshot('presets', '2026-10-19T11-00-00-000Z', []);
+
+      expect(await findSnapshotId('presets', '2')).toBe('2026-10-19T11-00-00-000Z_export.json');
+      expect(await findSnapshotId('presets', '2026-10-19T10-00-00-000Z_export.json')).toBe(
+        '2026-10-19T10-00-00-000Z_export.json'
+      );
+      expect(await findSnapshotId('presets', '3')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { RolesManager } from '../../src/roles';
+import { createImportPlan } from '../../src/utils/importPlan';
+import {
+  FakeDirectus,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+const permission = (id: number | undefined, collection: string, action: string, rules = {}) => ({
+  ...(id === undefined ? {} : { id }),
+  policy: 'editors',
+  collection,
+  action,
+  permissions: null,
+  validation: null,
+  presets: null,
+  fields: ['*'],
+  ...rules,
+});
+
+describe('RolesManager permissions import', () => {
+  let manager: RolesManager;
+  let fake: FakeDirectus;
+
+  beforeEach(() => {
+    const options = tempManagerOptions();
+    mkdirSync(options.configPath, { recursive: true });
+    writeFileSync(
+      join(options.configPath, 'permissions.json'),
+      JSON.stringify([
+        permission(undefined, 'articles', 'read', { fields: ['title', 'body'] }),
+        permission(undefined, 'articles', 'update', { permissions: { status: { _eq: 'draft' } } }),
+        permission(undefined, 'authors', 'read'),
+      ])
+    );
+    manager = new RolesManager(options);
+    fake = useFakeDirectus(
+      manager,
+      new FakeDirectus(() => [
+        permission(11, 'articles', 'read', { fields: ['body', 'title'] }),
+        permission(12, 'articles', 'update'),
+        permission(13, 'articles', 'update'),
+        permission(14, 'comments', 'read'),
+      ])
+    );
+  });
+
+  afterEach(removeTempDirs);
+
+  test('matches permissions by policy, collection and action and patches changed rules only', async () => {
+    const plan = createImportPlan('roles', false);
+    await (manager as any).handleImportPermissions(plan, false);
+
+    expect(fake.writes()).toEqual([
+      { method: 'DELETE', path: '/permissions', params: undefined, body: [14] },
+      {
+        method: 'PATCH',
+        path: '/permissions/12',
+        params: {},
+        body: { permissions: { status: { _eq: 'draft' } } },
+      },
+      {
+        method: 'POST',
+        path: '/permissions',
+        params: {},
+        body: permission(undefined, 'authors', 'read'),
+      },
+    ]);
+    expect(plan.summary).toEqual({ create: 1, update: 1, delete: 1, skip: 2 });
+  });
+
+  test('reports duplicate permissions on the target instead of deleting them', async () => {
+    const plan = createImportPlan('roles', false);
+    await (manager as any).handleImportPermissions(plan, false);
+
+    expect(plan.actions.find((action) => action.id === '13')).toEqual({
+      action: 'skip',
+      itemType: 'permissions',
+      id: '13',
+      name: 'articles:update',
+      reason: 'duplicate of permission 12, remove one of them on the target',
+    });
+  });
+
+  test('returns the number of permissions that failed to import', async () => {
+    fake = useFakeDirectus(
+      manager,
+      new FakeDirectus(({ method }) => {
+        if (method === 'PATCH') throw new Error('Forbidden');
+        return method === 'GET' ? [permission(12, 'articles', 'update')] : {};
+      })
+    );
+    const plan = createImportPlan('roles', false);
+
+    expect(await (manager as any).handleImportPermissions(plan, false)).toBe(1);
+    expect(plan.summary).toEqual({ create: 2, update: 0, delete: 0, skip: 0 });
+  });
+
+  test('writes nothing on a dry run', async () => {
+    const plan = createImportPlan('roles', true);
+    await (manager as any).handleImportPermissions(plan, true);
+
+    expect(fake.writes()).toEqual([]);
+    expect(plan.summary).toEqual({ create: 1, update: 1, delete: 1, skip: 2 });
+  });
+});
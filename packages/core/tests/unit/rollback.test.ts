@@ -0,0 +1,87 @@
+import { mkdtempSync, outputJsonSync, readJsonSync, readFileSync, rmSync } from 'fs-extra';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FilesManager } from '../../src/files';
+import { createImportPlan } from '../../src/utils/importPlan';
+import { setActiveEnvironment } from '../../src/utils/environments';
+import { rollbackImports } from '../../src/utils/snapshotImport';
+import { createManager } from '../../src/utils/supportedTypes';
+
+jest.mock('../../src/files');
+jest.mock('../../src/utils/supportedTypes', () => ({ createManager: jest.fn() }));
+
+const snapshotId = (time: number) => new Date(time).toISOString().replace(/[:.]/g, '-');
+
+describe('rollbackImports', () => {
+  const env = { ...process.env };
+  let auditPath: string;
+  let since: Date;
+  let imported: { type: string; roles: any }[];
+
+  const writeSnapshot = (type: string, time: number, data: any) =>
+    outputJsonSync(
+      join(auditPath, 'snapshots', type, `${snapshotId(time)}_import_remote_before.json`),
+      data
+    );
+
+  beforeEach(() => {
+    auditPath = mkdtempSync(join(tmpdir(), 'dct-unit-'));
+    process.env.DCT_AUDIT_PATH = auditPath;
+    process.env.DCT_CONFIG_PATH = join(auditPath, 'config');
+    setActiveEnvironment();
+
+    since = new Date('2026-10-19T10:00:00.000Z');
+    imported = [];
+    (createManager as jest.Mock).mockImplementation((type, options) => ({
+      importConfig: jest.fn(async () => {
+        imported.push({ type, roles: readJsonSync(join(options.configPath, 'roles.json')) });
+        return { status: 'success' };
+      }),
+    }));
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    rmSync(auditPath, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  test('re-applies the first snapshot of the run in reverse import order', async () => {
+    writeSnapshot('roles', since.getTime() - 60000, { roles: [{ id: 'before-the-run' }] });
+    writeSnapshot('roles', since.getTime() + 1000, { roles: [{ id: 'start-of-run' }] });
+    writeSnapshot('roles', since.getTime() + 2000, { roles: [{ id: 'later-in-run' }] });
+    writeSnapshot('flows', since.getTime() - 60000, { flows: [] });
+    writeSnapshot('files', since.getTime() + 3000, []);
+    const filesPlan = createImportPlan('files', false);
+
+    const results = await rollbackImports(['roles', 'flows', 'files'], since, {
+      files: filesPlan,
+    });
+
+    expect(results).toEqual([
+      { type: 'files', status: 'success' },
+      { type: 'roles', status: 'success' },
+    ]);
+    expect(imported).toEqual([{ type: 'roles', roles: [{ id: 'start-of-run' }] }]);
+    expect((FilesManager as jest.Mock).mock.instances[0].revertImport).toHaveBeenCalledWith(
+      filesPlan
+    );
+
+    const log = readFileSync(join(auditPath, 'audit.ndjson'), 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(log.map((entry) => [entry.operation, entry.itemType, entry.status])).toEqual([
+      ['rollback', 'files', 'success'],
+      ['rollback', 'roles', 'success'],
+    ]);
+  });
+
+  test('fails the files rollback when the run recorded no plan for it', async () => {
+    writeSnapshot('files', since.getTime() + 1000, []);
+
+    expect(await rollbackImports(['files'], since)).toEqual([
+      { type: 'files', status: 'failure' },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  buildSchemaDiffReport,
+  classifySchemaDiff,
+  formatSchemaDiffReport,
+} from '../../src/utils/schemaChanges';
+import type { SchemaDiff } from '../../src/schema';
+
+function schemaDiff(diff: Partial<SchemaDiff['diff']>): SchemaDiff {
+  return {
+    hash: 'hash',
+    diff: { collections: [], fields: [], relations: [], ...diff },
+  };
+}
+
+describe('classifySchemaDiff', () => {
+  test('returns nothing for an empty diff', () => {
+    expect(classifySchemaDiff(undefined)).toEqual([]);
+    expect(classifySchemaDiff({} as SchemaDiff)).toEqual([]);
+  });
+
+  test('treats collection and field deletes as destructive', () => {
+    const changes = classifySchemaDiff(
+      schemaDiff({
+        collections: [
+          { collection: 'articles', diff: [{ kind: 'N', rhs: {} }] },
+          { collection: 'legacy', diff: [{ kind: 'D', lhs: {} }] },
+        ],
+        fields: [{ collection: 'authors', field: 'bio', diff: [{ kind: 'D', lhs: {} }] }],
+      })
+    );
+
+    expect(changes).toEqual([
+      {
+        itemType: 'collections',
+        collection: 'articles',
+        id: 'articles',
+        action: 'create',
+        destructive: false,
+        reason: undefined,
+      },
+      {
+        itemType: 'collections',
+        collection: 'legacy',
+        id: 'legacy',
+        action: 'delete',
+        destructive: true,
+        reason: 'collection and its data deleted',
+      },
+      {
+        itemType: 'fields',
+        collection: 'authors',
+        id: 'authors.bio',
+        action: 'delete',
+        destructive: true,
+        reason: 'field and its values deleted',
+      },
+    ]);
+  });
+
+  test('flags field edits that lose data', () => {
+    const changes = classifySchemaDiff(
+      schemaDiff({
+        fields: [
+          {
+            collection: 'articles',
+            field: 'views',
+            diff: [{ kind: 'E', path: ['type'], lhs: 'integer', rhs: 'string' }],
+          },
+          {
+            collection: 'articles',
+            field: 'title',
+            diff: [{ kind: 'E', path: ['schema', 'max_length'], lhs: 255, rhs: 100 }],
+          },
+          {
+            collection: 'articles',
+            field: 'summary',
+            diff: [{ kind: 'E', path: ['type'], lhs: 'string', rhs: 'text' }],
+          },
+          {
+            collection: 'articles',
+            field: 'slug',
+            diff: [{ kind: 'E', path: ['schema', 'max_length'], lhs: 100, rhs: 255 }],
+          },
+        ],
+      })
+    );
+
+    expect(changes.map((c) => [c.id, c.action, c.destructive, c.reason])).toEqual([
+      ['articles.views', 'update', true, 'type changes from integer to string'],
+      ['articles.title', 'update', true, 'max_length shrinks from 255 to 100'],
+      ['articles.summary', 'update', false, undefined],
+      ['articles.slug', 'update', false, undefined],
+    ]);
+  });
+
+  test('never treats relation changes as destructive', () => {
+    const changes = classifySchemaDiff(
+      schemaDiff({
+        relations: [
+          {
+            collection: 'articles',
+            field: 'author',
+            related_collection: 'authors',
+            diff: [{ kind: 'D', lhs: {} }],
+          },
+        ],
+      })
+    );
+
+    expect(changes).toEqual([
+      {
+        itemType: 'relations',
+        collection: 'articles',
+        id: 'articles.author',
+        action: 'delete',
+        destructive: false,
+      },
+    ]);
+  });
+});
+
+describe('buildSchemaDiffReport', () => {
+  const diff = schemaDiff({
+    collections: [{ collection: 'articles', diff: [{ kind: 'N', rhs: {} }] }],
+    fields: [
+      { collection: 'articles', field: 'title', diff: [{ kind: 'N', rhs: { type: 'string' } }] },
+      { collection: 'authors', field: 'posts', diff: [{ kind: 'D', lhs: { type: null } }] },
+      {
+        collection: 'authors',
+        field: 'name',
+        diff: [
+          { kind: 'E', path: ['meta', 'note'], lhs: 'Old', rhs: 'New' },
+          { kind: 'E', path: ['schema', 'is_nullable'], lhs: true, rhs: false },
+          { kind: 'A', path: ['meta', 'options', 'choices'], index: 1, item: { kind: 'N', rhs: 'b' } },
+        ],
+      },
+    ],
+    relations: [
+      {
+        collection: 'articles',
+        field: 'author',
+        related_collection: 'authors',
+        diff: [{ kind: 'N', rhs: {} }],
+      },
+    ],
+  });
+
+  test('groups added, removed and altered items with readable property names', () => {
+    expect(buildSchemaDiffReport(diff)).toEqual({
+      collections: { added: ['articles'], removed: [] },
+      fields: {
+        added: [{ field: 'articles.title', type: 'string' }],
+        removed: [{ field: 'authors.posts', type: null }],
+        altered: [
+          {
+            field: 'authors.name',
+            changes: [
+              { property: 'nullable', before: true, after: false },
+              { property: 'meta.note', before: 'Old', after: 'New' },
+              { property: 'meta.options.choices[1]', before: undefined, after: 'b' },
+            ],
+          },
+        ],
+      },
+      relations: {
+        added: [{ field: 'articles.author', related_collection: 'authors' }],
+        removed: [],
+      },
+    });
+  });
+
+  test('formats the report as terminal lines', () => {
+    expect(formatSchemaDiffReport(buildSchemaDiffReport(diff))).toEqual([
+      'Collections:',
+      '  + articles',
+      'Fields:',
+      '  + articles.title (string)',
+      '  - authors.posts (alias)',
+      '  ~ authors.name: nullable true → false, meta.note "Old" → "New", meta.options.choices[1] unset → "b"',
+      'Relations:',
+      '  + articles.author → authors',
+    ]);
+  });
+
+  test('reports an empty diff as no differences', () => {
+    expect(formatSchemaDiffReport(buildSchemaDiffReport(undefined))).toEqual([
+      'No schema differences.',
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  findCrossingRelations,
+  matchesCollectionPatterns,
+  mergeSchemaSnapshots,
+  parseCollectionPatterns,
+} from '../../src/utils/schemaFilter';
+
+describe('parseCollectionPatterns', () => {
+  test('splits a comma-separated list and drops empty entries', () => {
+    expect(parseCollectionPatterns(' blog_*, authors,,')).toEqual(['blog_*', 'authors']);
+  });
+});
+
+describe('matchesCollectionPatterns', () => {
+  test('matches exact names and wildcards', () => {
+    const patterns = ['blog_*', 'authors'];
+    expect(matchesCollectionPatterns('blog_posts', patterns)).toBe(true);
+    expect(matchesCollectionPatterns('authors', patterns)).toBe(true);
+    expect(matchesCollectionPatterns('authors_old', patterns)).toBe(false);
+    expect(matchesCollectionPatterns('my_blog_posts', patterns)).toBe(false);
+  });
+
+  test('treats other regular expression characters literally', () => {
+    expect(matchesCollectionPatterns('blogXposts', ['blog.posts'])).toBe(false);
+    expect(matchesCollectionPatterns('blog.posts', ['blog.posts'])).toBe(true);
+  });
+});
+
+describe('mergeSchemaSnapshots', () => {
+  test('takes matching collections from incoming and keeps the rest of base', () => {
+    const base = {
+      version: 1,
+      collections: [{ collection: 'blog_posts', meta: 'old' }, { collection: 'pages' }],
+      fields: [
+        { collection: 'blog_posts', field: 'title', meta: 'old' },
+        { collection: 'pages', field: 'slug' },
+      ],
+      relations: [{ collection: 'pages', field: 'parent', related_collection: 'pages' }],
+    };
+    const incoming = {
+      version: 2,
+      collections: [{ collection: 'blog_posts', meta: 'new' }, { collection: 'users' }],
+      fields: [{ collection: 'blog_posts', field: 'body' }],
+      relations: [{ collection: 'blog_posts', field: 'author', related_collection: 'users' }],
+    };
+
+    expect(mergeSchemaSnapshots(base, incoming, ['blog_*'])).toEqual({
+      version: 1,
+      collections: [{ collection: 'blog_posts', meta: 'new' }, { collection: 'pages' }],
+      fields: [
+        { collection: 'blog_posts', field: 'body' },
+        { collection: 'pages', field: 'slug' },
+      ],
+      relations: [
+        { collection: 'blog_posts', field: 'author', related_collection: 'users' },
+        { collection: 'pages', field: 'parent', related_collection: 'pages' },
+      ],
+    });
+  });
+});
+
+describe('findCrossingRelations', () => {
+  test('lists relations with exactly one end inside the filter', () => {
+    const schema = {
+      relations: [
+        { collection: 'blog_posts', field: 'author', related_collection: 'users', meta: {} },
+        { collection: 'comments', field: 'post', related_collection: 'blog_posts' },
+        { collection: 'blog_posts', field: 'category', related_collection: 'blog_categories' },
+        { collection: 'blog_posts', field: 'item', related_collection: null },
+      ],
+    };
+
+    expect(findCrossingRelations(schema, ['blog_*'])).toEqual([
+      { collection: 'blog_posts', field: 'author', related_collection: 'users' },
+      { collection: 'comments', field: 'post', related_collection: 'blog_posts' },
+    ]);
+  });
+});
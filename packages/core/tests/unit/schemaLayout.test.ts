@@ -0,0 +1,87 @@
+import { existsSync, mkdirSync, readJsonSync, writeJsonSync } from 'fs-extra';
+import { join } from 'path';
+import {
+  readSchemaSnapshot,
+  splitSchemaSnapshot,
+  writeSplitSchema,
+} from '../../src/utils/schemaLayout';
+import { removeTempDirs, tempManagerOptions } from '../utils/fakeDirectus';
+
+const snapshot = {
+  version: 1,
+  directus: '11.0.0',
+  vendor: 'postgres',
+  collections: [{ collection: 'articles' }, { collection: 'authors' }],
+  fields: [
+    { collection: 'articles', field: 'author' },
+    { collection: 'articles', field: 'id' },
+    { collection: 'authors', field: 'id' },
+    { collection: 'directus_users', field: 'team' },
+  ],
+  relations: [{ collection: 'articles', field: 'author', related_collection: 'authors' }],
+};
+
+describe('splitSchemaSnapshot', () => {
+  test('groups fields and relations under their collection', () => {
+    const { meta, collections } = splitSchemaSnapshot(snapshot);
+
+    expect(meta).toEqual({ version: 1, directus: '11.0.0', vendor: 'postgres' });
+    expect(collections.articles).toEqual({
+      collection: { collection: 'articles' },
+      fields: snapshot.fields.slice(0, 2),
+      relations: snapshot.relations,
+    });
+    expect(collections.directus_users).toEqual({
+      collection: null,
+      fields: [{ collection: 'directus_users', field: 'team' }],
+      relations: [],
+    });
+  });
+});
+
+describe('readSchemaSnapshot', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = tempManagerOptions().configPath;
+    mkdirSync(configDir, { recursive: true });
+  });
+
+  afterEach(removeTempDirs);
+
+  test('reassembles the split layout into the original snapshot', () => {
+    writeSplitSchema(configDir, snapshot);
+
+    expect(readJsonSync(join(configDir, 'schema', 'collections', 'authors.json'))).toEqual({
+      collection: { collection: 'authors' },
+      fields: [{ collection: 'authors', field: 'id' }],
+      relations: [],
+    });
+    expect(readSchemaSnapshot(configDir)).toEqual(snapshot);
+  });
+
+  test('prefers the split layout over schema.json', () => {
+    writeJsonSync(join(configDir, 'schema.json'), { version: 1, collections: [] });
+    writeSplitSchema(configDir, snapshot);
+
+    expect(readSchemaSnapshot(configDir)).toEqual(snapshot);
+  });
+
+  test('removes the files of collections that no longer exist', () => {
+    writeSplitSchema(configDir, snapshot);
+    writeSplitSchema(configDir, {
+      ...snapshot,
+      collections: [{ collection: 'articles' }],
+      fields: [],
+    });
+
+    expect(existsSync(join(configDir, 'schema', 'collections', 'authors.json'))).toBe(false);
+  });
+
+  test('reads schema.json, or nothing when the schema was never exported', () => {
+    expect(readSchemaSnapshot(configDir)).toBeUndefined();
+
+    writeJsonSync(join(configDir, 'schema.json'), snapshot);
+    expect(readSchemaSnapshot(configDir)).toEqual(snapshot);
+  });
+});
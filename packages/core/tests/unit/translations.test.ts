@@ -0,0 +1,52 @@
+import {
+  flattenTranslations,
+  groupTranslations,
+  TranslationsManager,
+} from '../../src/translations';
+import {
+  FakeDirectus,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+describe('groupTranslations', () => {
+  test('groups rows by language with languages and keys sorted', () => {
+    const grouped = groupTranslations([
+      { id: '3', language: 'fr-FR', key: 'welcome', value: 'Bienvenue' },
+      { id: '2', language: 'en-US', key: 'welcome', value: 'Welcome' },
+      { id: '1', language: 'en-US', key: 'goodbye', value: 'Goodbye' },
+    ]);
+
+    expect(grouped).toEqual({
+      'en-US': { goodbye: 'Goodbye', welcome: 'Welcome' },
+      'fr-FR': { welcome: 'Bienvenue' },
+    });
+    expect(Object.keys(grouped)).toEqual(['en-US', 'fr-FR']);
+    expect(Object.keys(grouped['en-US'])).toEqual(['goodbye', 'welcome']);
+  });
+
+  test('round-trips through flattenTranslations without ids', () => {
+    const rows = [
+      { language: 'en-US', key: 'goodbye', value: 'Goodbye' },
+      { language: 'en-US', key: 'welcome', value: 'Welcome' },
+    ];
+
+    expect(flattenTranslations(groupTranslations(rows))).toEqual(rows);
+  });
+});
+
+describe('TranslationsManager import', () => {
+  afterEach(removeTempDirs);
+
+  test('skips config directories exported before translations were supported', async () => {
+    const manager = new TranslationsManager(tempManagerOptions());
+    const fake = useFakeDirectus(manager, new FakeDirectus());
+
+    const result = await manager.importConfig();
+
+    expect(result.status).toBe('success');
+    expect(result.plan?.actions).toEqual([]);
+    expect(fake.requests).toEqual([]);
+  });
+});
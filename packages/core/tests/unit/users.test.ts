@@ -0,0 +1,162 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { UsersManager } from '../../src/users';
+import { getServiceUsersConfig } from '../../src/utils/environments';
+import {
+  FakeDirectus,
+  removeTempDirs,
+  tempManagerOptions,
+  useFakeDirectus,
+} from '../utils/fakeDirectus';
+
+const user = (name: string, fields = {}) => ({
+  email: `${name}@bots.example.com`,
+  first_name: name,
+  role: 'bots',
+  status: 'active',
+  policies: ['deploy'],
+  ...fields,
+});
+
+describe('UsersManager import', () => {
+  const env = { ...process.env };
+  let manager: UsersManager;
+  let fake: FakeDirectus;
+  let callAPI: jest.SpyInstance;
+  let remoteUsers: Record<string, any>[];
+
+  beforeEach(() => {
+    const options = tempManagerOptions();
+    const root = dirname(options.configPath);
+    mkdirSync(options.configPath, { recursive: true });
+    writeFileSync(
+      join(root, 'dct.config.json'),
+      JSON.stringify({
+        serviceUsers: {
+          filter: { email: { _ends_with: '@bots.example.com' } },
+          tokens: { 'ci@bots.example.com': 'CI_TOKEN', 'idle@bots.example.com': 'IDLE_TOKEN' },
+        },
+      })
+    );
+    writeFileSync(
+      join(options.configPath, 'users.json'),
+      JSON.stringify([
+        user('ci'),
+        user('sync', { first_name: 'Sync bot' }),
+        user('idle', { policies: [] }),
+        user('ghost', { role: 'ghosts' }),
+      ])
+    );
+    jest.spyOn(process, 'cwd').mockReturnValue(root);
+    process.env.CI_TOKEN = 'ci-secret';
+    process.env.IDLE_TOKEN = 'idle-secret';
+
+    remoteUsers = [
+      { ...user('sync'), id: 'sync-id', token: null, policies: ['read-access'] },
+      { ...user('idle', { policies: [] }), id: 'idle-id', token: null },
+    ];
+    manager = new UsersManager(options);
+    fake = useFakeDirectus(
+      manager,
+      new FakeDirectus(({ method, path, params, body }) => {
+        if (path === '/roles') return [{ id: 'bots' }];
+        if (path === '/policies') return [{ id: 'deploy' }, { id: 'read' }];
+        if (method === 'POST') remoteUsers.push({ ...body, id: `${body.first_name}-id` });
+        if (method !== 'GET') return {};
+        const emails: string[] | undefined = params?.filter.email._in;
+        return emails ? remoteUsers.filter((u) => emails.includes(u.email)) : remoteUsers;
+      })
+    );
+    callAPI = jest
+      .spyOn(manager as any, 'callAPI')
+      .mockImplementation(async (endpoint, method) =>
+        method === 'GET' ? [{ id: 'read-access', user: 'sync-id', policy: 'read' }] : {}
+      );
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+    removeTempDirs();
+  });
+
+  test('plans users by email and records policy grants and revocations', async () => {
+    const result = await manager.importConfig(true);
+
+    expect(result.status).toBe('success');
+    expect(
+      result.plan?.actions.map(({ action, itemType, id, reason }) => [action, itemType, id, reason])
+    ).toEqual([
+      ['create', 'users', 'ci@bots.example.com', undefined],
+      ['create', 'access', 'ci@bots.example.com:deploy', undefined],
+      ['update', 'users', 'sync@bots.example.com', undefined],
+      ['create', 'access', 'sync@bots.example.com:deploy', undefined],
+      ['delete', 'access', 'sync@bots.example.com:read', undefined],
+      ['skip', 'users', 'idle@bots.example.com', 'unchanged'],
+      ['skip', 'users', 'ghost@bots.example.com', 'role ghosts does not exist on the target'],
+    ]);
+    expect(fake.writes()).toEqual([]);
+  });
+
+  test('sets static tokens only for the users it created or updated', async () => {
+    const result = await manager.importConfig();
+
+    expect(result.status).toBe('success');
+    expect(fake.writes().map(({ method, path, body }) => [method, path, body])).toEqual([
+      [
+        'POST',
+        '/users',
+        { email: 'ci@bots.example.com', first_name: 'ci', role: 'bots', status: 'active' },
+      ],
+      ['PATCH', '/users/sync-id', { first_name: 'Sync bot' }],
+      ['PATCH', '/users/ci-id', { token: 'ci-secret' }],
+    ]);
+    expect(callAPI.mock.calls.filter(([, method]) => method !== 'GET')).toEqual([
+      ['access', 'POST', { user: 'ci-id', policy: 'deploy' }],
+      ['access', 'POST', { user: 'sync-id', policy: 'deploy' }],
+      ['access/read-access', 'DELETE'],
+    ]);
+  });
+});
+
+describe('getServiceUsersConfig', () => {
+  let root: string;
+
+  const writeProfiles = (profiles: any) =>
+    writeFileSync(join(root, 'dct.config.json'), JSON.stringify(profiles));
+
+  beforeEach(() => {
+    root = dirname(tempManagerOptions().configPath);
+    jest.spyOn(process, 'cwd').mockReturnValue(root);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    removeTempDirs();
+  });
+
+  test('reads service users from a profile file without environments', () => {
+    writeProfiles({ serviceUsers: { filter: { provider: { _eq: 'bots' } } } });
+
+    expect(getServiceUsersConfig()).toEqual({ filter: { provider: { _eq: 'bots' } } });
+  });
+
+  test('requires a filter selecting the users', () => {
+    writeProfiles({ serviceUsers: { tokens: {} } });
+
+    expect(() => getServiceUsersConfig()).toThrow(
+      '"serviceUsers" needs a filter selecting the users'
+    );
+  });
+
+  test('names every accepted section when a profile file defines none', () => {
+    writeProfiles({ users: {} });
+
+    expect(() => getServiceUsersConfig()).toThrow(
+      `${join(
+        root,
+        'dct.config.json'
+      )} defines none of "environments", "dataCollections", "serviceUsers"`
+    );
+  });
+});
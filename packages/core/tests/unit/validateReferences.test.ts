@@ -0,0 +1,134 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { setActiveEnvironment } from '../../src/utils/environments';
+import { validateConfigReferences } from '../../src/utils/validateReferences';
+import { removeTempDirs, tempManagerOptions } from '../utils/fakeDirectus';
+
+describe('validateConfigReferences', () => {
+  const env = { ...process.env };
+  let configPath: string;
+
+  const writeConfig = (files: Record<string, any>) => {
+    for (const [filename, content] of Object.entries(files)) {
+      writeFileSync(join(configPath, filename), JSON.stringify(content));
+    }
+  };
+
+  beforeEach(() => {
+    const options = tempManagerOptions();
+    configPath = options.configPath;
+    mkdirSync(configPath, { recursive: true });
+    // Flows are checked through a manager, which opens the active audit log
+    process.env.DCT_AUDIT_PATH = options.auditPath;
+    setActiveEnvironment();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    removeTempDirs();
+  });
+
+  test('reports references that do not resolve in the other config files', () => {
+    writeConfig({
+      'settings.json': {
+        project_logo: 'logo',
+        public_favicon: 'favicon',
+        public_registration_role: 'editor',
+      },
+      'files.json': [{ id: 'logo' }],
+      'roles.json': [{ id: 'editor' }],
+      'policies.json': [{ id: 'editing' }],
+      'access.json': [
+        { id: 'a1', role: 'editor', policy: 'editing' },
+        { id: 'a2', role: 'admin', policy: 'publishing' },
+      ],
+      'permissions.json': [
+        { policy: 'editing', collection: 'articles', action: 'read' },
+        { policy: 'editing', collection: 'directus_files', action: 'read' },
+        { policy: 'editing', collection: 'drafts', action: 'update' },
+      ],
+      'schema.json': { collections: [{ collection: 'articles' }] },
+    });
+
+    expect(validateConfigReferences(configPath)).toEqual([
+      {
+        file: 'settings.json',
+        itemId: 'settings',
+        field: 'public_favicon',
+        reference: 'favicon',
+        expectedIn: 'files.json',
+      },
+      {
+        file: 'access.json',
+        itemId: 'a2',
+        field: 'role',
+        reference: 'admin',
+        expectedIn: 'roles.json',
+      },
+      {
+        file: 'access.json',
+        itemId: 'a2',
+        field: 'policy',
+        reference: 'publishing',
+        expectedIn: 'policies.json',
+      },
+      {
+        file: 'permissions.json',
+        itemId: 'drafts:update',
+        field: 'collection',
+        reference: 'drafts',
+        expectedIn: 'schema.json',
+      },
+    ]);
+  });
+
+  test('accepts public policies and skips files that were not exported', () => {
+    writeConfig({
+      'settings.json': { project_logo: 'logo', storage_default_folder: 'uploads' },
+      'policies.json': [{ id: 'editing' }],
+      'access.json': [{ id: 'a1', role: null, user: null, policy: 'public' }],
+      'permissions.json': [{ policy: 'public', collection: 'drafts', action: 'read' }],
+    });
+
+    expect(validateConfigReferences(configPath)).toEqual([]);
+  });
+
+  test('reports dangling flow and operation references', () => {
+    writeConfig({
+      'flows.json': [{ id: 'notify', trigger: 'event', operation: 'gone' }],
+      'operations.json': [
+        {
+          id: 'run',
+          flow: 'notify',
+          type: 'trigger',
+          resolve: 'lost',
+          options: { flow: 'missing' },
+        },
+      ],
+    });
+
+    expect(validateConfigReferences(configPath)).toEqual([
+      {
+        file: 'flows.json',
+        itemId: 'notify',
+        field: 'operation',
+        reference: 'gone',
+        expectedIn: 'operations.json',
+      },
+      {
+        file: 'operations.json',
+        itemId: 'run',
+        field: 'resolve',
+        reference: 'lost',
+        expectedIn: 'operations.json',
+      },
+      {
+        file: 'operations.json',
+        itemId: 'run',
+        field: 'options.flow',
+        reference: 'missing',
+        expectedIn: 'flows.json',
+      },
+    ]);
+  });
+});
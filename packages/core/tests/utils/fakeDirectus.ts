@@ -0,0 +1,77 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * A request as the Directus SDK builds it
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  params?: Record<string, any>;
+  body?: any;
+}
+
+/**
+ * Stand-in for the Directus SDK client used by the managers. Each SDK
+ * command is turned into a plain request, recorded, and answered by the
+ * handler, so tests can check what a manager sends without a Directus
+ * instance.
+ */
+export class FakeDirectus {
+  public readonly requests: FakeRequest[] = [];
+
+  constructor(private readonly handler: (request: FakeRequest) => any = () => ({})) {}
+
+  public async request(command: () => Record<string, any>) {
+    const { method, path, params, body } = command();
+    const request: FakeRequest = {
+      method,
+      path,
+      params,
+      body: typeof body === 'string' ? JSON.parse(body) : body,
+    };
+    this.requests.push(request);
+    return this.handler(request);
+  }
+
+  /**
+   * Recorded requests other than reads
+   */
+  public writes(): FakeRequest[] {
+    return this.requests.filter((request) => request.method !== 'GET');
+  }
+}
+
+/**
+ * Give a manager a fake client in place of its Directus client
+ */
+export function useFakeDirectus(manager: object, fake: FakeDirectus): FakeDirectus {
+  (manager as any).client = fake;
+  return fake;
+}
+
+const tempDirs: string[] = [];
+
+/**
+ * Manager options pointing at fresh config and audit directories
+ */
+export function tempManagerOptions() {
+  const dir = mkdtempSync(join(tmpdir(), 'dct-unit-'));
+  tempDirs.push(dir);
+  return {
+    apiUrl: 'http://directus.invalid',
+    apiToken: 'unit-test-token',
+    configPath: join(dir, 'config'),
+    auditPath: join(dir, 'audit'),
+  };
+}
+
+/**
+ * Remove the directories created by tempManagerOptions
+ */
+export function removeTempDirs() {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "../../_lib/auth";
+import { SchemaManager } from "@devrue/directus-config-toolkit";
+
+/**
+ * Readable report of what importing schema.json would change on the remote
+ */
+export async function GET() {
+  const session = await requireSession();
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const report = await new SchemaManager().getDiffReport();
+    return NextResponse.json(report);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } catch (error: any) {
+    console.error("Failed to build schema diff report:", error);
+    return NextResponse.json(
+      { error: "Failed to build schema diff report", message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireSession } from "../_lib/auth";
 import {
+  DashboardsManager,
+  DataManager,
+  ExtensionsManager,
   FilesManager,
   FlowsManager,
+  PresetsManager,
   RolesManager,
   SchemaManager,
   SettingsManager,
+  TranslationsManager,
+  UsersManager,
 } from "@devrue/directus-config-toolkit";
+import { ImportPlan } from "@/app/types";
 
 export async function POST(request: NextRequest) {
   const session = await requireSession();
@@ -27,23 +34,48 @@ export async function POST(request: NextRequest) {
     const settingsManager = new SettingsManager();
     const filesManager = new FilesManager();
     const schemaManager = new SchemaManager();
+    const dashboardsManager = new DashboardsManager();
+    const presetsManager = new PresetsManager();
+    const translationsManager = new TranslationsManager();
+    const extensionsManager = new ExtensionsManager();
+    const usersManager = new UsersManager();
+    const dataManager = new DataManager();
 
+    let result: { plan?: ImportPlan } | undefined;
     if (direction === "import") {
       switch (type) {
         case "flows":
-          await flowsManager.importConfig(dryRun);
+          result = await flowsManager.importConfig(dryRun);
           break;
         case "roles":
-          await rolesManager.importConfig(dryRun);
+          result = await rolesManager.importConfig(dryRun);
           break;
         case "settings":
-          await settingsManager.importConfig(dryRun);
+          result = await settingsManager.importConfig(dryRun);
           break;
         case "files":
-          await filesManager.importConfig(dryRun);
+          result = await filesManager.importConfig(dryRun);
           break;
         case "schema":
-          await schemaManager.importConfig(dryRun);
+          result = await schemaManager.importConfig(dryRun);
+          break;
+        case "dashboards":
+          result = await dashboardsManager.importConfig(dryRun);
+          break;
+        case "presets":
+          result = await presetsManager.importConfig(dryRun);
+          break;
+        case "translations":
+          result = await translationsManager.importConfig(dryRun);
+          break;
+        case "extensions":
+          result = await extensionsManager.importConfig(dryRun);
+          break;
+        case "users":
+          result = await usersManager.importConfig(dryRun);
+          break;
+        case "data":
+          result = await dataManager.importConfig(dryRun);
           break;
         default:
           throw new Error(`Unsupported type for import: ${type}`);
@@ -65,6 +97,24 @@ export async function POST(request: NextRequest) {
         case "schema":
           await schemaManager.exportConfig();
           break;
+        case "dashboards":
+          await dashboardsManager.exportConfig();
+          break;
+        case "presets":
+          await presetsManager.exportConfig();
+          break;
+        case "translations":
+          await translationsManager.exportConfig();
+          break;
+        case "extensions":
+          await extensionsManager.exportConfig();
+          break;
+        case "users":
+          await usersManager.exportConfig();
+          break;
+        case "data":
+          await dataManager.exportConfig();
+          break;
         default:
           throw new Error(`Unsupported type for export: ${type}`);
       }
@@ -72,7 +122,7 @@ export async function POST(request: NextRequest) {
       throw new Error(`Unsupported direction: ${direction}`);
     }
 
-    return NextResponse.json({ okay: true });
+    return NextResponse.json({ okay: true, plan: result?.plan });
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } catch (error: any) {
     console.error("Sync operation failed:", error);
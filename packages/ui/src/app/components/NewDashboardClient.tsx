@@ -13,7 +13,19 @@ import { useSelectedType } from "../hooks";
 import type { ConfigType } from "../types";
 
 // Define the config types that support sync operations
-const SYNC_SUPPORTED_TYPES = ["flows", "roles", "settings", "files", "schema"];
+const SYNC_SUPPORTED_TYPES = [
+  "flows",
+  "roles",
+  "settings",
+  "files",
+  "schema",
+  "dashboards",
+  "presets",
+  "translations",
+  "extensions",
+  "users",
+  "data",
+];
 
 // Define all config types
 const CONFIG_TYPES = [
@@ -62,6 +74,41 @@ const CONFIG_TYPES = [
     label: "Operations",
     description: "Operations within flows",
   },
+  {
+    type: "dashboards",
+    label: "Dashboards",
+    description: "Insights dashboards",
+  },
+  {
+    type: "panels",
+    label: "Panels",
+    description: "Panels within dashboards",
+  },
+  {
+    type: "presets",
+    label: "Presets",
+    description: "Collection layout presets and bookmarks",
+  },
+  {
+    type: "translations",
+    label: "Translations",
+    description: "Custom translation strings",
+  },
+  {
+    type: "extensions",
+    label: "Extensions",
+    description: "Installed extensions inventory",
+  },
+  {
+    type: "users",
+    label: "Users",
+    description: "Service users and their policies",
+  },
+  {
+    type: "data",
+    label: "Data",
+    description: "Seed data for content collections",
+  },
   {
     type: "settings",
     label: "Settings",
@@ -13,6 +13,13 @@ import {
   FaFolder,
   FaRobot,
   FaCogs,
+  FaChartBar,
+  FaThLarge,
+  FaBookmark,
+  FaLanguage,
+  FaPuzzlePiece,
+  FaSeedling,
+  FaUserCog,
   FaWrench,
   FaDownload,
   FaUpload,
@@ -86,6 +93,48 @@ const STATIC_CONFIGS: Array<{
     icon: FaCogs,
     description: "Operations within flows",
   },
+  {
+    type: "dashboards",
+    label: "Dashboards",
+    icon: FaChartBar,
+    description: "Insights dashboards",
+  },
+  {
+    type: "panels",
+    label: "Panels",
+    icon: FaThLarge,
+    description: "Panels within dashboards",
+  },
+  {
+    type: "presets",
+    label: "Presets",
+    icon: FaBookmark,
+    description: "Collection layout presets and bookmarks",
+  },
+  {
+    type: "translations",
+    label: "Translations",
+    icon: FaLanguage,
+    description: "Custom translation strings",
+  },
+  {
+    type: "extensions",
+    label: "Extensions",
+    icon: FaPuzzlePiece,
+    description: "Installed extensions inventory",
+  },
+  {
+    type: "users",
+    label: "Users",
+    icon: FaUserCog,
+    description: "Service users and their policies",
+  },
+  {
+    type: "data",
+    label: "Data",
+    icon: FaSeedling,
+    description: "Seed data for content collections",
+  },
   {
     type: "settings",
     label: "Settings",
@@ -121,7 +170,19 @@ export default function ItemTypeNavigator({
     (type: string): boolean => {
       if (propSupportsSync) return propSupportsSync(type);
       // Default implementation as fallback
-      return ["flows", "roles", "settings", "files", "schema"].includes(type);
+      return [
+        "flows",
+        "roles",
+        "settings",
+        "files",
+        "schema",
+        "dashboards",
+        "presets",
+        "translations",
+        "extensions",
+        "users",
+        "data",
+      ].includes(type);
     },
     [propSupportsSync]
   );
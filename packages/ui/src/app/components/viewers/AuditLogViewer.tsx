@@ -61,7 +61,10 @@ export default function AuditLogViewer({ type }: AuditLogViewerProps) {
   };
 
   // Get appropriate operation badge styling
-  const getOperationBadgeClass = (operation: "import" | "export") => {
+  const getOperationBadgeClass = (operation: AuditLogEntry["operation"]) => {
+    if (operation === "rollback") {
+      return "bg-error-light/60 text-error-dark dark:bg-error-light/20 dark:text-error";
+    }
     return operation === "import"
       ? "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
       : "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300";
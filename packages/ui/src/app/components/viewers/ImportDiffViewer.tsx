@@ -5,6 +5,7 @@ import { ConfigType } from "../../types";
 import { DiffEditor } from "@monaco-editor/react";
 import EmptyState from "../EmptyState";
 import { useTheme } from "../ThemeContext";
+import SchemaDiffReportView from "./SchemaDiffReportView";
 
 interface ImportDiffViewerProps {
   type: ConfigType | null;
@@ -144,12 +145,26 @@ export default function ImportDiffViewer({ type }: ImportDiffViewerProps) {
     return <EmptyState type="error" message={error} />;
   }
 
+  // The schema report compares against the live remote, so it is shown
+  // even before any import snapshots exist
+  const schemaReport = type === "schema" && (
+    <div className="mb-6">
+      <h3 className="font-medium text-md mb-2">
+        Pending: schema.json → Remote (Schema Report)
+      </h3>
+      <SchemaDiffReportView />
+    </div>
+  );
+
   if (!diffData) {
     return (
-      <EmptyState
-        type="empty"
-        message={`No import diffs found for ${type}. Import diffs are created when you preview or perform imports.`}
-      />
+      <div className="h-full">
+        {schemaReport}
+        <EmptyState
+          type="empty"
+          message={`No import diffs found for ${type}. Import diffs are created when you preview or perform imports.`}
+        />
+      </div>
     );
   }
 
@@ -184,6 +199,8 @@ export default function ImportDiffViewer({ type }: ImportDiffViewerProps) {
         {type.charAt(0).toUpperCase() + type.slice(1)} Import Differences
       </h2>
 
+      {schemaReport}
+
       {content ? (
         <div className="h-[calc(100%-5rem)] min-h-[500px]">
           <h3 className="font-medium text-md mb-2">{content.title}</h3>
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SchemaDiffReport } from "../../types";
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "unset" : JSON.stringify(value);
+
+/**
+ * Readable summary of what importing schema.json would change: collections,
+ * fields and relations added or removed, and altered field properties.
+ */
+export default function SchemaDiffReportView() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<SchemaDiffReport | null>(null);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch("/api/diffs/schema");
+        if (!response.ok) {
+          throw new Error("Failed to fetch the schema diff report");
+        }
+        setReport(await response.json());
+      } catch (err) {
+        console.error("Error fetching schema diff report:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load schema report"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, []);
+
+  if (loading) {
+    return (
+      <p className="text-sm text-[#96816f] dark:text-amber-300/80">
+        Comparing schema.json with the remote schema...
+      </p>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <p className="text-sm text-red-600 dark:text-red-400">
+        {error ?? "No schema report available"}
+      </p>
+    );
+  }
+
+  const sections = [
+    {
+      title: "Collections",
+      entries: [
+        ...report.collections.added.map((c) => ({ sign: "+", text: c })),
+        ...report.collections.removed.map((c) => ({ sign: "-", text: c })),
+      ],
+    },
+    {
+      title: "Fields",
+      entries: [
+        ...report.fields.added.map((f) => ({
+          sign: "+",
+          text: `${f.field} (${f.type ?? "alias"})`,
+        })),
+        ...report.fields.removed.map((f) => ({
+          sign: "-",
+          text: `${f.field} (${f.type ?? "alias"})`,
+        })),
+        ...report.fields.altered.map((f) => ({
+          sign: "~",
+          text: `${f.field}: ${f.changes
+            .map(
+              (c) =>
+                `${c.property} ${formatValue(c.before)} → ${formatValue(
+                  c.after
+                )}`
+            )
+            .join(", ")}`,
+        })),
+      ],
+    },
+    {
+      title: "Relations",
+      entries: [
+        ...report.relations.added.map((r) => ({
+          sign: "+",
+          text: `${r.field} → ${r.related_collection ?? "any"}`,
+        })),
+        ...report.relations.removed.map((r) => ({
+          sign: "-",
+          text: `${r.field} → ${r.related_collection ?? "any"}`,
+        })),
+      ],
+    },
+  ].filter((section) => section.entries.length > 0);
+
+  if (sections.length === 0) {
+    return (
+      <p className="text-sm text-[#96816f] dark:text-amber-300/80">
+        schema.json matches the remote schema.
+      </p>
+    );
+  }
+
+  const signClass: Record<string, string> = {
+    "+": "text-green-700 dark:text-green-400",
+    "-": "text-red-600 dark:text-red-400",
+    "~": "text-amber-700 dark:text-amber-400",
+  };
+
+  return (
+    <div className="border border-[#e6ddd1] dark:border-[#3b2d27] rounded-md p-4 space-y-3">
+      {sections.map((section) => (
+        <div key={section.title}>
+          <h4 className="text-xs font-medium text-[#96816f] dark:text-amber-300 uppercase tracking-wider mb-1">
+            {section.title}
+          </h4>
+          <ul className="font-mono text-sm space-y-0.5">
+            {section.entries.map((entry, index) => (
+              <li key={index} className={signClass[entry.sign]}>
+                {entry.sign} {entry.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -11,7 +11,14 @@ export type ConfigType =
   | "settings"
   | "files"
   | "folders"
-  | "schema";
+  | "schema"
+  | "dashboards"
+  | "panels"
+  | "presets"
+  | "translations"
+  | "extensions"
+  | "users"
+  | "data";
 
 export interface ConfigStatus {
   type: ConfigType;
@@ -33,6 +40,44 @@ export interface DiffResult {
   timestamp: string;
 }
 
+export type ImportActionType = "create" | "update" | "delete" | "skip";
+
+export interface ImportAction {
+  action: ImportActionType;
+  itemType: string;
+  id: string;
+  name?: string;
+  before?: any;
+  after?: any;
+  reason?: string;
+}
+
+export interface ImportPlan {
+  configType: string;
+  dryRun: boolean;
+  actions: ImportAction[];
+  summary: Record<ImportActionType, number>;
+}
+
+export interface SchemaPropertyChange {
+  property: string;
+  before: any;
+  after: any;
+}
+
+export interface SchemaDiffReport {
+  collections: { added: string[]; removed: string[] };
+  fields: {
+    added: { field: string; type: string | null }[];
+    removed: { field: string; type: string | null }[];
+    altered: { field: string; changes: SchemaPropertyChange[] }[];
+  };
+  relations: {
+    added: { field: string; related_collection: string | null }[];
+    removed: { field: string; related_collection: string | null }[];
+  };
+}
+
 export interface SnapshotInfo {
   id: string;
   path: string;
@@ -40,7 +85,7 @@ export interface SnapshotInfo {
 
 export interface AuditLogEntry {
   timestamp: string;
-  operation: "import" | "export";
+  operation: "import" | "export" | "rollback";
   manager: string;
   itemType: string;
   status: "success" | "failure";